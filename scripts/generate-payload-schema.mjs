@@ -0,0 +1,94 @@
+// Generate public/schemas/payload-v2.json from the PayloadV2 type in src/lib/payloadSchema.ts
+//
+// Handles what the payload types use: primitives, literals, unions with null,
+// arrays, optional fields and nested interfaces. Leading // comments on fields
+// become descriptions.
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import ts from 'typescript';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const source = resolve(root, 'src/lib/payloadSchema.ts');
+const output = resolve(root, 'public/schemas/payload-v2.json');
+
+const program = ts.createProgram([source], {
+  strict: true,
+  target: ts.ScriptTarget.ESNext,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  noEmit: true,
+});
+const checker = program.getTypeChecker();
+const sourceFile = program.getSourceFile(source);
+
+function describe(declaration) {
+  if (!declaration) return undefined;
+  const text = declaration.getSourceFile().getFullText();
+  const comments = ts.getLeadingCommentRanges(text, declaration.getFullStart()) || [];
+  const lines = comments
+    .filter((comment) => comment.kind === ts.SyntaxKind.SingleLineCommentTrivia)
+    .map((comment) => text.slice(comment.pos + 2, comment.end).trim());
+  return lines.length > 0 ? lines.join(' ') : undefined;
+}
+
+function toSchema(type) {
+  if (type.flags & ts.TypeFlags.String) return { type: 'string' };
+  if (type.flags & ts.TypeFlags.Number) return { type: 'number' };
+  if (type.flags & ts.TypeFlags.Boolean) return { type: 'boolean' };
+  if (type.flags & ts.TypeFlags.Null) return { type: 'null' };
+  if (type.isStringLiteral() || type.isNumberLiteral()) return { const: type.value };
+  if (type.flags & ts.TypeFlags.BooleanLiteral) return { const: checker.typeToString(type) === 'true' };
+
+  if (type.isUnion()) {
+    const members = type.types.filter((member) => !(member.flags & ts.TypeFlags.Undefined));
+    // boolean is the union true | false
+    if (members.length === 2 && members.every((member) => member.flags & ts.TypeFlags.BooleanLiteral)) {
+      return { type: 'boolean' };
+    }
+    if (members.length === 1) return toSchema(members[0]);
+    const schemas = members.map(toSchema);
+    if (schemas.every((schema) => schema.type && Object.keys(schema).length === 1)) {
+      return { type: schemas.map((schema) => schema.type) };
+    }
+    if (schemas.every((schema) => 'const' in schema)) {
+      return { enum: schemas.map((schema) => schema.const) };
+    }
+    return { anyOf: schemas };
+  }
+
+  if (checker.isArrayType(type)) {
+    return { type: 'array', items: toSchema(checker.getTypeArguments(type)[0]) };
+  }
+
+  if (type.flags & ts.TypeFlags.Object) {
+    const properties = {};
+    const required = [];
+    for (const property of checker.getPropertiesOfType(type)) {
+      const declaration = property.valueDeclaration || property.declarations?.[0];
+      const schema = toSchema(checker.getTypeOfSymbolAtLocation(property, declaration));
+      const description = describe(declaration);
+      properties[property.name] = description ? { description, ...schema } : schema;
+      if (!(property.flags & ts.SymbolFlags.Optional)) required.push(property.name);
+    }
+    return { type: 'object', properties, required, additionalProperties: false };
+  }
+
+  throw new Error(`Unsupported type in payload: ${checker.typeToString(type)}`);
+}
+
+const payload = sourceFile.statements.find(
+  (statement) => ts.isInterfaceDeclaration(statement) && statement.name.text === 'PayloadV2'
+);
+const schema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'payload-v2.json',
+  title: 'WebShare Relay payload v2',
+  description: 'Body of JSON relays from destinations set to the v2 payload. Generated from src/lib/payloadSchema.ts.',
+  ...toSchema(checker.getTypeAtLocation(payload)),
+};
+
+mkdirSync(dirname(output), { recursive: true });
+writeFileSync(output, `${JSON.stringify(schema, null, 2)}\n`);
+console.log(`Wrote ${output}`);
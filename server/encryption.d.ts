@@ -0,0 +1,14 @@
+// Types for the tests that check the PWA's envelopes against this decryptor
+
+export interface EnvelopeSecrets {
+  passphrase?: string;
+  // Base64 PKCS#8 private key
+  privateKey?: string;
+}
+
+export function readEnvelope(buffer: Uint8Array, contentType: string): object | null;
+
+export function decryptEnvelope(
+  envelope: object,
+  secrets: EnvelopeSecrets
+): { contentType: string; body: Uint8Array };
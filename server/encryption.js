@@ -0,0 +1,101 @@
+// Reference decryptor for the PWA's encrypted request bodies; the envelope
+// format is described under "Encryption" in the README.
+// Set RELAY_PASSPHRASE for passphrase mode, or RELAY_PRIVATE_KEY (base64
+// PKCS#8) for public key mode. `node encryption.js keygen [x25519|p256]`
+// prints a key pair: the public key goes into the PWA, the private key here.
+
+import {
+  createDecipheriv,
+  createPrivateKey,
+  createPublicKey,
+  diffieHellman,
+  generateKeyPairSync,
+  hkdfSync,
+  pbkdf2Sync,
+} from 'crypto';
+import { fileURLToPath } from 'url';
+
+const HKDF_INFO = 'webshare-relay-encryption-v1';
+const TAG_LENGTH = 16;
+
+// The envelope is JSON; anything else is a plain body
+export function readEnvelope(buffer, contentType) {
+  if (!contentType.startsWith('application/json')) return null;
+  try {
+    const json = JSON.parse(buffer.toString());
+    return json?.version === 1 && json.encryption && json.ciphertext ? json : null;
+  } catch {
+    return null;
+  }
+}
+
+// Raw public keys as sent by the PWA: 32 bytes for X25519, 0x04 || x || y for P-256
+function importRawPublicKey(raw, curve) {
+  const jwk =
+    curve === 'x25519'
+      ? { kty: 'OKP', crv: 'X25519', x: raw.toString('base64url') }
+      : {
+          kty: 'EC',
+          crv: 'P-256',
+          x: raw.subarray(1, 33).toString('base64url'),
+          y: raw.subarray(33, 65).toString('base64url'),
+        };
+  return createPublicKey({ key: jwk, format: 'jwk' });
+}
+
+function exportRawPublicKey(publicKey, curve) {
+  const jwk = publicKey.export({ format: 'jwk' });
+  if (curve === 'x25519') return Buffer.from(jwk.x, 'base64url');
+  return Buffer.concat([Buffer.from([4]), Buffer.from(jwk.x, 'base64url'), Buffer.from(jwk.y, 'base64url')]);
+}
+
+function deriveKey(envelope, secrets) {
+  const salt = Buffer.from(envelope.salt, 'base64');
+
+  if (envelope.encryption === 'passphrase') {
+    if (!secrets.passphrase) throw new Error('RELAY_PASSPHRASE not set');
+    return pbkdf2Sync(secrets.passphrase, salt, envelope.iterations, 32, 'sha256');
+  }
+
+  if (!secrets.privateKey) throw new Error('RELAY_PRIVATE_KEY not set');
+  const privateKey = createPrivateKey({
+    key: Buffer.from(secrets.privateKey, 'base64'),
+    format: 'der',
+    type: 'pkcs8',
+  });
+  const publicKey = importRawPublicKey(Buffer.from(envelope.ephemeralKey, 'base64'), envelope.encryption);
+  const shared = diffieHellman({ privateKey, publicKey });
+  return Buffer.from(hkdfSync('sha256', shared, salt, HKDF_INFO, 32));
+}
+
+// Returns the original body and its content type; throws if the key is wrong or the data was altered
+export function decryptEnvelope(envelope, secrets) {
+  const data = Buffer.from(envelope.ciphertext, 'base64');
+  const decipher = createDecipheriv('aes-256-gcm', deriveKey(envelope, secrets), Buffer.from(envelope.iv, 'base64'));
+  decipher.setAAD(Buffer.from(envelope.contentType));
+  decipher.setAuthTag(data.subarray(-TAG_LENGTH));
+  try {
+    const body = Buffer.concat([decipher.update(data.subarray(0, -TAG_LENGTH)), decipher.final()]);
+    return { contentType: envelope.contentType, body };
+  } catch {
+    throw new Error('wrong key, or the envelope was altered');
+  }
+}
+
+function keygen(curve = 'x25519') {
+  if (curve !== 'x25519' && curve !== 'p256') {
+    console.error('Usage: node encryption.js keygen [x25519|p256]');
+    process.exit(1);
+  }
+  const { publicKey, privateKey } =
+    curve === 'x25519' ? generateKeyPairSync('x25519') : generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+  console.log('Public key (paste into the destination in the PWA):');
+  console.log(`  ${exportRawPublicKey(publicKey, curve).toString('base64')}`);
+  console.log('\nPrivate key (keep it secret, start the server with RELAY_PRIVATE_KEY set to it):');
+  console.log(`  ${privateKey.export({ format: 'der', type: 'pkcs8' }).toString('base64')}`);
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url) && process.argv[2] === 'keygen') {
+  keygen(process.argv[3]);
+}
@@ -1,14 +1,39 @@
 import { createServer } from 'http';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { handleStub } from './stubs.js';
+import { describeUpload, handleUpload } from './uploads.js';
+import { decryptEnvelope, readEnvelope } from './encryption.js';
+import { validatePayload } from './schema.js';
 
 const PORT = process.env.PORT || 3001;
+// Set to the destination's signing secret to verify X-Relay-Signature
+const HMAC_SECRET = process.env.RELAY_HMAC_SECRET;
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+// Secrets for encrypted bodies: the passphrase, or the private key from `npm run keygen`
+const DECRYPTION_SECRETS = {
+  passphrase: process.env.RELAY_PASSPHRASE,
+  privateKey: process.env.RELAY_PRIVATE_KEY,
+};
+// Idempotency keys are remembered this long to spot repeated deliveries
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+const seenKeys = new Map();
 
 const server = createServer(async (req, res) => {
   const timestamp = new Date().toISOString();
   
   // CORS headers
   res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, HEAD, POST, PUT, PATCH, OPTIONS');
+  // Echo requested headers so auth and signature headers pass preflight
+  res.setHeader(
+    'Access-Control-Allow-Headers',
+    req.headers['access-control-request-headers'] || 'Content-Type'
+  );
+  // Let the PWA's history show every response header
+  res.setHeader('Access-Control-Expose-Headers', '*');
+  
+  // Chunked file uploads sent ahead of a share
+  if (await handleUpload(req, res)) return;
   
   // Handle preflight
   if (req.method === 'OPTIONS') {
@@ -27,48 +52,73 @@ const server = createServer(async (req, res) => {
     console.log(`  ${key}: ${value}`);
   }
 
-  // Parse body for POST requests
-  if (req.method === 'POST') {
-    let body = '';
+  let signature;
+  let decryption;
+  let stub;
+  let actions;
+  let repeat;
+  let schema;
+  let batch;
+
+  // Parse body for POST and PUT requests
+  if (req.method === 'POST' || req.method === 'PUT') {
+    const chunks = [];
     
     for await (const chunk of req) {
-      body += chunk;
+      chunks.push(chunk);
     }
+    const buffer = Buffer.concat(chunks);
+    const contentType = req.headers['content-type'] || '';
     
-    console.log('\nBody:');
-    try {
-      const json = JSON.parse(body);
-      
-      // Log payload summary
-      console.log(`  title: ${json.title || '(none)'}`);
-      console.log(`  text: ${json.text || '(none)'}`);
-      console.log(`  url: ${json.url || '(none)'}`);
-      console.log(`  files: ${json.files?.length || 0}`);
-      
-      // Log file details if present
-      if (json.files?.length > 0) {
-        console.log('\n  File details:');
-        for (const file of json.files) {
-          const sizeKB = (file.data?.length * 0.75 / 1024).toFixed(2);
-          console.log(`    - ${file.name} (${file.type}, ~${sizeKB} KB)`);
-        }
+    repeat = checkIdempotencyKey(req.headers['idempotency-key']);
+    
+    signature = verifySignature(req, buffer);
+    console.log(`\nSignature: ${signature.status}${signature.reason ? ` (${signature.reason})` : ''}`);
+    
+    // Log the decrypted body in place of the envelope when the secret is known
+    let body = buffer;
+    let bodyType = contentType;
+    const envelope = readEnvelope(buffer, contentType);
+    if (envelope) {
+      try {
+        ({ body, contentType: bodyType } = decryptEnvelope(envelope, DECRYPTION_SECRETS));
+        decryption = { status: 'decrypted' };
+      } catch (e) {
+        decryption = { status: 'failed', reason: e.message };
       }
-      
-      // Full JSON (truncate base64 data for readability)
-      const logJson = {
-        ...json,
-        files: json.files?.map(f => ({
-          name: f.name,
-          type: f.type,
-          data: f.data ? `[base64, ${f.data.length} chars]` : null
-        }))
-      };
-      console.log('\nFull payload (files truncated):');
-      console.log(JSON.stringify(logJson, null, 2));
-      
-    } catch (e) {
-      console.log(`  (raw): ${body.slice(0, 500)}${body.length > 500 ? '...' : ''}`);
+      console.log(`\nEncryption: ${envelope.encryption}, ${decryption.status}${decryption.reason ? ` (${decryption.reason})` : ''}`);
+    }
+    
+    console.log('\nBody:');
+    if (bodyType.startsWith('multipart/form-data')) {
+      await logMultipartBody(body, bodyType);
+    } else {
+      logJsonBody(body.toString());
     }
+    
+    schema = checkSchema(body, bodyType);
+    
+    stub = await handleStub(req, buffer);
+    if (new URL(req.url, 'http://localhost').pathname === '/actions') {
+      actions = await buildActions(body, bodyType);
+    }
+    batch = buildBatchResults(body, bodyType, new URL(req.url, 'http://localhost').pathname === '/partial');
+  }
+
+  // Answer like the real service when the request targets a stub
+  if (stub) {
+    res.writeHead(stub.status, { 'Content-Type': stub.contentType });
+    res.end(stub.body);
+    console.log(`\n✓ Stub response sent: ${stub.status} ${stub.body}`);
+    return;
+  }
+
+  // A v2 body that breaks the schema is a client bug, so it fails like a real receiver would
+  if (schema?.status === 'invalid') {
+    res.writeHead(422, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success: false, message: 'Body does not match the payload schema', errors: schema.errors }));
+    console.log('\n✗ Response sent: 422 (schema errors)');
+    return;
   }
 
   // Send success response
@@ -76,12 +126,247 @@ const server = createServer(async (req, res) => {
   res.end(JSON.stringify({ 
     success: true, 
     message: 'Received!',
-    timestamp 
+    timestamp,
+    signature: signature?.status,
+    decryption: decryption?.status,
+    schema: schema?.status,
+    ...(repeat ? { duplicate: true } : {}),
+    ...batch,
+    ...actions,
   }));
   
   console.log('\n✓ Response sent: 200 OK');
 });
 
+// /actions answers with every response action the PWA understands, filled in from the share
+async function buildActions(body, contentType) {
+  let share = {};
+  try {
+    share = contentType.startsWith('multipart/form-data')
+      ? Object.fromEntries(await new Response(body, { headers: { 'Content-Type': contentType } }).formData())
+      : JSON.parse(body.toString());
+    share = share.share ?? share;
+  } catch {
+    // Not a share body (template or encrypted without the key); answer with placeholders
+  }
+  const link = share.url || share.text?.match(/https?:\/\/\S+/)?.[0];
+  return {
+    message: `Received "${share.title || share.text || 'share'}"`,
+    copyText: link || share.text || 'nothing to copy',
+    ...(link ? { openUrl: link } : {}),
+    share: { title: share.title || 'Relayed share', text: `Relayed: ${link || share.text || ''}` },
+  };
+}
+
+// Batches get a result per share; /partial rejects every second one to try the PWA's per-share handling
+function buildBatchResults(body, contentType, partial) {
+  if (!contentType.startsWith('application/json')) return undefined;
+  let json;
+  try {
+    json = JSON.parse(body.toString());
+  } catch {
+    return undefined;
+  }
+  if (!Array.isArray(json)) return undefined;
+  
+  const results = json.map((item, i) =>
+    partial && i % 2 === 1 ? { id: item?.id, ok: false, error: 'Rejected by /partial', retryable: true } : { id: item?.id, ok: true }
+  );
+  if (partial) console.log(`\nBatch: rejected ${results.filter((result) => !result.ok).length} of ${results.length}`);
+  return { results };
+}
+
+// v2 bodies are checked against the schema the PWA serves; v1 bodies have none
+function checkSchema(body, contentType) {
+  if (!contentType.startsWith('application/json')) return undefined;
+  let json;
+  try {
+    json = JSON.parse(body.toString());
+  } catch {
+    return undefined;
+  }
+  // Batches are arrays of the same bodies
+  const items = Array.isArray(json) ? json : [json];
+  const versions = [...new Set(items.map((item) => item?.schemaVersion).filter((version) => version !== undefined))];
+  if (versions.length === 0) return undefined;
+  
+  const errors = items.flatMap((item, i) => {
+    const prefix = Array.isArray(json) ? `[${i}] ` : '';
+    const problems =
+      item?.schemaVersion === 2 ? validatePayload(item) : [`unknown schemaVersion ${item?.schemaVersion}`];
+    return problems.map((problem) => `${prefix}${problem}`);
+  });
+  console.log(`\nSchema: v${versions.join(', v')}, ${errors.length === 0 ? 'valid' : 'invalid'}`);
+  for (const error of errors) console.log(`  - ${error}`);
+  return { status: errors.length === 0 ? 'valid' : 'invalid', errors };
+}
+
+// A real receiver would return its stored result for a repeated key instead of processing it again
+function checkIdempotencyKey(key) {
+  if (!key) return false;
+  const now = Date.now();
+  for (const [seenKey, seenAt] of seenKeys) {
+    if (now - seenAt > IDEMPOTENCY_TTL_MS) seenKeys.delete(seenKey);
+  }
+  const firstSeen = seenKeys.get(key);
+  if (firstSeen) {
+    console.log(`\nIdempotency-Key: ${key} (repeat of a delivery at ${new Date(firstSeen).toISOString()})`);
+    return true;
+  }
+  seenKeys.set(key, now);
+  console.log(`\nIdempotency-Key: ${key} (new)`);
+  return false;
+}
+
+// Structured fields the PWA parsed from map links, vCards and iCalendar files
+function logDetails({ location, contacts, events }) {
+  if (location) console.log(`  location: ${location.lat}, ${location.lon}${location.label ? ` (${location.label})` : ''}`);
+  for (const contact of contacts || []) {
+    console.log(`  contact: ${[contact.name, ...contact.phones, ...contact.emails].filter(Boolean).join(', ')}`);
+  }
+  for (const event of events || []) {
+    console.log(`  event: ${[event.summary, event.start, event.location].filter(Boolean).join(', ')}`);
+  }
+}
+
+// Recompute the HMAC over "<timestamp>.<raw body>" and compare
+function verifySignature(req, buffer) {
+  const header = req.headers['x-relay-signature'];
+  const timestamp = req.headers['x-relay-timestamp'];
+  
+  if (!HMAC_SECRET) return { status: 'unchecked', reason: 'RELAY_HMAC_SECRET not set' };
+  if (!header || !timestamp) return { status: 'missing' };
+  
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > SIGNATURE_TOLERANCE_SECONDS) {
+    return { status: 'invalid', reason: `timestamp outside ${SIGNATURE_TOLERANCE_SECONDS}s window` };
+  }
+  
+  const expected = createHmac('sha256', HMAC_SECRET)
+    .update(`${timestamp}.`)
+    .update(buffer)
+    .digest('hex');
+  const received = String(header).replace(/^sha256=/, '');
+  
+  const valid =
+    received.length === expected.length &&
+    timingSafeEqual(Buffer.from(received), Buffer.from(expected));
+  return valid ? { status: 'valid' } : { status: 'invalid', reason: 'signature mismatch' };
+}
+
+function logJsonBody(body) {
+  let payload;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    console.log(`  (raw): ${body.slice(0, 500)}${body.length > 500 ? '...' : ''}`);
+    return;
+  }
+  if (!Array.isArray(payload)) {
+    logJsonPayload(payload);
+    return;
+  }
+  console.log(`  batch of ${payload.length} shares`);
+  payload.forEach((item, i) => {
+    console.log(`\n  [${i}]`);
+    logJsonPayload(item);
+  });
+}
+
+function logJsonPayload(payload) {
+  if (typeof payload !== 'object' || payload === null) {
+    console.log(`  (not an object): ${JSON.stringify(payload)}`);
+    return;
+  }
+  
+  // v2 bodies carry the share under `share`, with metadata around it
+  const json = payload.schemaVersion === 2 && payload.share ? { id: payload.id, ...payload.share } : payload;
+  if (json !== payload) {
+    console.log(`  shared: ${payload.sharedAt}, relayed: ${payload.relayedAt}`);
+    console.log(`  client: ${payload.client?.name} ${payload.client?.version}, device: ${payload.device || '(none)'}`);
+  }
+  
+  // Log payload summary
+  if (json.test) console.log('  (connection test from the PWA settings)');
+  console.log(`  id: ${json.id || '(none)'}`);
+  console.log(`  title: ${json.title || '(none)'}`);
+  console.log(`  text: ${json.text || '(none)'}`);
+  console.log(`  url: ${json.url || '(none)'}`);
+  console.log(`  files: ${json.files?.length || 0}`);
+  if (json.kind) console.log(`  kind: ${json.kind}`);
+  logDetails(json);
+  if (json.tags?.length) console.log(`  tags: ${json.tags.join(', ')}`);
+  if (json.note) console.log(`  note: ${json.note}`);
+  if (json.urls?.length) console.log(`  urls: ${json.urls.join(' ')}`);
+  logUploads(json.uploads || []);
+  
+  // Log file details if present
+  if (json.files?.length > 0) {
+    console.log('\n  File details:');
+    for (const file of json.files) {
+      const sizeKB = (file.data?.length * 0.75 / 1024).toFixed(2);
+      console.log(`    - ${file.name} (${file.type}, ~${sizeKB} KB)${file.sha256 ? ` sha256 ${file.sha256}` : ''}`);
+    }
+  }
+  
+  // Full JSON (truncate base64 data for readability)
+  const files = json.files?.map(f => ({
+    ...f,
+    data: f.data ? `[base64, ${f.data.length} chars]` : null
+  }));
+  const logJson = json === payload ? { ...payload, files } : { ...payload, share: { ...payload.share, files } };
+  console.log('\nFull payload (files truncated):');
+  console.log(JSON.stringify(logJson, null, 2));
+}
+
+function logUploads(uploads) {
+  if (uploads.length === 0) return;
+  console.log(`  uploads: ${uploads.length}`);
+  for (const upload of uploads) {
+    console.log(`    - ${upload.name} (${upload.type}, ${upload.size} bytes) ${upload.url}: ${describeUpload(upload.url)}`);
+  }
+}
+
+async function logMultipartBody(buffer, contentType) {
+  try {
+    // Let the built-in fetch Response parse the multipart body
+    const formData = await new Response(buffer, {
+      headers: { 'Content-Type': contentType },
+    }).formData();
+    
+    if (formData.get('test')) console.log('  (connection test from the PWA settings)');
+    console.log(`  id: ${formData.get('id') || '(none)'}`);
+    console.log(`  title: ${formData.get('title') || '(none)'}`);
+    console.log(`  text: ${formData.get('text') || '(none)'}`);
+    console.log(`  url: ${formData.get('url') || '(none)'}`);
+    const tags = formData.getAll('tags');
+    if (tags.length > 0) console.log(`  tags: ${tags.join(', ')}`);
+    if (formData.get('note')) console.log(`  note: ${formData.get('note')}`);
+    const urls = formData.getAll('urls');
+    if (urls.length > 0) console.log(`  urls: ${urls.join(' ')}`);
+    if (formData.get('kind')) console.log(`  kind: ${formData.get('kind')}`);
+    logDetails(Object.fromEntries(
+      ['location', 'contacts', 'events']
+        .filter((key) => formData.get(key))
+        .map((key) => [key, JSON.parse(formData.get(key))])
+    ));
+    logUploads(formData.getAll('uploads').map((upload) => JSON.parse(upload)));
+    
+    const files = formData.getAll('files');
+    console.log(`  files: ${files.length}`);
+    
+    if (files.length > 0) {
+      console.log('\n  File details:');
+      for (const file of files) {
+        const sizeKB = (file.size / 1024).toFixed(2);
+        console.log(`    - ${file.name} (${file.type}, ${sizeKB} KB)`);
+      }
+    }
+  } catch (e) {
+    console.log(`  (unparseable multipart, ${buffer.length} bytes): ${e.message}`);
+  }
+}
+
 server.listen(PORT, () => {
   console.log(`\n🚀 Debug server running at http://localhost:${PORT}`);
   console.log(`\nTo expose via ngrok:`);
@@ -0,0 +1,82 @@
+// Validation of v2 payloads against the JSON Schema the PWA serves
+//
+// Covers the keywords the generated schema uses (type, const, enum, anyOf,
+// properties, required, additionalProperties, items); receivers in other
+// languages would use a full JSON Schema validator instead.
+
+import { readFileSync } from 'fs';
+
+const SCHEMA_PATH = new URL('../public/schemas/payload-v2.json', import.meta.url);
+
+let schema;
+
+function loadSchema() {
+  schema ??= JSON.parse(readFileSync(SCHEMA_PATH, 'utf8'));
+  return schema;
+}
+
+function typeOf(value) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value, type) {
+  if (type === 'integer') return Number.isInteger(value);
+  return typeOf(value) === type;
+}
+
+function check(value, rule, path, errors) {
+  const label = path || 'body';
+
+  if (rule.anyOf) {
+    if (!rule.anyOf.some((option) => validate(value, option, path).length === 0)) {
+      errors.push(`${label} matches none of the allowed forms`);
+    }
+    return;
+  }
+  if ('const' in rule && value !== rule.const) {
+    errors.push(`${label} must be ${JSON.stringify(rule.const)}`);
+    return;
+  }
+  if (rule.enum && !rule.enum.includes(value)) {
+    errors.push(`${label} must be one of ${rule.enum.map((item) => JSON.stringify(item)).join(', ')}`);
+    return;
+  }
+  if (rule.type) {
+    const types = [].concat(rule.type);
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push(`${label} must be ${types.join(' or ')}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+
+  if (Array.isArray(value) && rule.items) {
+    value.forEach((item, i) => check(item, rule.items, `${label}[${i}]`, errors));
+  }
+
+  if (typeOf(value) === 'object' && rule.properties) {
+    const prefix = path ? `${path}.` : '';
+    for (const key of rule.required || []) {
+      if (!(key in value)) errors.push(`${prefix}${key} is missing`);
+    }
+    for (const [key, item] of Object.entries(value)) {
+      if (rule.properties[key]) {
+        check(item, rule.properties[key], `${prefix}${key}`, errors);
+      } else if (rule.additionalProperties === false) {
+        errors.push(`${prefix}${key} is not allowed`);
+      }
+    }
+  }
+}
+
+function validate(value, rule, path = '') {
+  const errors = [];
+  check(value, rule, path, errors);
+  return errors;
+}
+
+// Problems with a v2 body, empty when it is valid
+export function validatePayload(body) {
+  return validate(body, loadSchema());
+}
@@ -0,0 +1,121 @@
+// Minimal stand-ins for the webhook services the PWA has adapters for.
+// Point a destination at http://localhost:3001/stub/<service>/... to try an
+// adapter locally. Each stub checks the limits and required fields the real
+// service enforces and answers with that service's success or error shape.
+
+let nextId = 1;
+
+async function parseBody(req, buffer) {
+  const contentType = req.headers['content-type'] || '';
+  if (contentType.startsWith('multipart/form-data')) {
+    return new Response(buffer, { headers: { 'Content-Type': contentType } }).formData();
+  }
+  if (contentType.startsWith('application/json')) {
+    try {
+      return JSON.parse(buffer.toString());
+    } catch {
+      return undefined;
+    }
+  }
+  return buffer.toString();
+}
+
+const json = (status, body) => ({ status, contentType: 'application/json', body: JSON.stringify(body) });
+const text = (status, body) => ({ status, contentType: 'text/plain', body });
+
+function discord(req, body) {
+  const payload = body instanceof FormData ? JSON.parse(body.get('payload_json') || '{}') : body;
+  if (!payload) return json(400, { message: 'Invalid JSON', code: 50109 });
+  if (payload.content?.length > 2000) {
+    return json(400, { message: 'Invalid Form Body', code: 50035, errors: { content: 'Must be 2000 or fewer in length.' } });
+  }
+  const files = body instanceof FormData ? [...body.keys()].filter((key) => key.startsWith('files[')) : [];
+  if (!payload.content && !payload.embeds?.length && files.length === 0) {
+    return json(400, { message: 'Cannot send an empty message', code: 50006 });
+  }
+  return json(200, { id: String(nextId++), content: payload.content || '', embeds: payload.embeds || [], attachments: files });
+}
+
+function slack(req, body) {
+  if (!body || typeof body !== 'object') return text(400, 'invalid_payload');
+  if (!body.text && !body.blocks?.length) return text(400, 'no_text');
+  return text(200, 'ok');
+}
+
+function ntfy(req, body, path) {
+  const topic = path || body?.topic;
+  if (!topic) return json(400, { code: 40010, http: 400, error: 'invalid request: topic invalid' });
+  const message = typeof body === 'object' ? body.message : req.headers['message'];
+  return json(200, {
+    id: String(nextId++),
+    time: Math.floor(Date.now() / 1000),
+    event: 'message',
+    topic,
+    title: typeof body === 'object' ? body.title : req.headers['title'],
+    message: message || 'triggered',
+    attachment: req.headers['filename'] ? { name: req.headers['filename'] } : undefined,
+  });
+}
+
+function gotify(req, body, path, query) {
+  if (!req.headers['x-gotify-key'] && !query.get('token')) {
+    return json(401, {
+      error: 'Unauthorized',
+      errorCode: 401,
+      errorDescription: 'you need to provide a valid access token or user credentials to access this api',
+    });
+  }
+  if (path !== 'message') return json(404, { error: 'Not Found', errorCode: 404, errorDescription: 'page not found' });
+  if (!body?.message) {
+    return json(400, { error: 'Bad Request', errorCode: 400, errorDescription: "Field 'message' is required" });
+  }
+  return json(200, { id: nextId++, appid: 1, message: body.message, title: body.title || '', priority: body.priority ?? 0, date: new Date().toISOString() });
+}
+
+function matrix(req, body, path) {
+  if (!req.headers['authorization']?.startsWith('Bearer ')) {
+    return json(401, { errcode: 'M_MISSING_TOKEN', error: 'Missing access token' });
+  }
+  if (path === '_matrix/media/v3/upload') {
+    return json(200, { content_uri: `mxc://localhost/${nextId++}` });
+  }
+  if (/^_matrix\/client\/v3\/rooms\/[^/]+\/send\/m\.room\.message\/[^/]+$/.test(path)) {
+    if (!body?.msgtype) return json(400, { errcode: 'M_BAD_JSON', error: 'Missing msgtype' });
+    return json(200, { event_id: `$event${nextId++}` });
+  }
+  return json(404, { errcode: 'M_UNRECOGNIZED', error: 'Unrecognized request' });
+}
+
+function telegram(req, body, path) {
+  const [, method] = path.match(/^bot[^/]+\/(\w+)$/) || [];
+  const fail = (description) => json(400, { ok: false, error_code: 400, description });
+  const field = (name) => (body instanceof FormData ? body.get(name) : body?.[name]);
+
+  if (!method) return json(404, { ok: false, error_code: 404, description: 'Not Found' });
+  if (!field('chat_id')) return fail('Bad Request: chat not found');
+
+  if (method === 'sendMessage') {
+    const messageText = field('text');
+    if (!messageText) return fail('Bad Request: message text is empty');
+    if (messageText.length > 4096) return fail('Bad Request: message is too long');
+  } else if (method === 'sendPhoto' || method === 'sendDocument') {
+    if (!field(method === 'sendPhoto' ? 'photo' : 'document')) return fail('Bad Request: there is no file in the request');
+    if (field('caption')?.length > 1024) return fail('Bad Request: message caption is too long');
+  } else {
+    return json(404, { ok: false, error_code: 404, description: 'Not Found: method not found' });
+  }
+  return json(200, { ok: true, result: { message_id: nextId++, date: Math.floor(Date.now() / 1000) } });
+}
+
+const SERVICES = { discord, slack, ntfy, gotify, matrix, telegram };
+
+// Returns null when the URL is not a stub route
+export async function handleStub(req, buffer) {
+  const url = new URL(req.url, 'http://localhost');
+  const match = url.pathname.match(/^\/stub\/(\w+)\/?(.*)$/);
+  if (!match || !SERVICES[match[1]]) return null;
+
+  const [, service, path] = match;
+  const body = await parseBody(req, buffer);
+  return SERVICES[service](req, body, path.replace(/\/$/, ''), url.searchParams);
+}
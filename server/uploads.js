@@ -0,0 +1,153 @@
+// Receiving side of the PWA's chunked uploads: the core tus 1.0 protocol plus
+// the creation extension (https://tus.io/protocols/resumable-upload).
+// Set a destination's upload URL to http://localhost:3001/files. Each upload
+// is written to UPLOAD_DIR as chunks arrive and can be downloaded again from
+// its upload URL once complete. Upload state is kept in memory, so restarting
+// the server makes the PWA start unfinished uploads over.
+
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, stat } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pipeline } from 'stream/promises';
+
+const UPLOAD_PATH = '/files';
+const UPLOAD_DIR = process.env.UPLOAD_DIR || join(tmpdir(), 'webshare-relay-uploads');
+const MAX_UPLOAD_SIZE = 2 * 1024 * 1024 * 1024;
+const TUS_VERSION = '1.0.0';
+
+const uploads = new Map();
+
+// "key base64value,key base64value" into an object
+function parseMetadata(header = '') {
+  const metadata = {};
+  for (const pair of header.split(',')) {
+    const [key, value] = pair.trim().split(' ');
+    if (key) metadata[key] = value ? Buffer.from(value, 'base64').toString() : '';
+  }
+  return metadata;
+}
+
+function reply(res, status, headers = {}, body) {
+  res.writeHead(status, { 'Tus-Resumable': TUS_VERSION, ...headers });
+  res.end(body);
+}
+
+function log(message) {
+  console.log(`[${new Date().toISOString()}] tus: ${message}`);
+}
+
+async function create(req, res) {
+  const length = Number(req.headers['upload-length']);
+  if (!Number.isInteger(length) || length < 0) {
+    return reply(res, 400, {}, 'Upload-Length must be a non-negative integer');
+  }
+  if (length > MAX_UPLOAD_SIZE) {
+    return reply(res, 413, {}, `Uploads are limited to ${MAX_UPLOAD_SIZE} bytes`);
+  }
+
+  await mkdir(UPLOAD_DIR, { recursive: true });
+  const id = randomUUID();
+  const upload = {
+    id,
+    length,
+    offset: 0,
+    path: join(UPLOAD_DIR, id),
+    metadata: parseMetadata(req.headers['upload-metadata']),
+  };
+  // Create the file so HEAD and GET work before the first chunk
+  await pipeline(req, createWriteStream(upload.path));
+  uploads.set(id, upload);
+
+  log(`created ${id} for ${upload.metadata.filename || '(unnamed)'} (${length} bytes)`);
+  reply(res, 201, { Location: `${UPLOAD_PATH}/${id}` });
+}
+
+async function append(req, res, upload) {
+  if (req.headers['content-type'] !== 'application/offset+octet-stream') {
+    return reply(res, 415, {}, 'Content-Type must be application/offset+octet-stream');
+  }
+  const offset = Number(req.headers['upload-offset']);
+  if (offset !== upload.offset) {
+    return reply(res, 409, { 'Upload-Offset': String(upload.offset) }, `Expected offset ${upload.offset}`);
+  }
+
+  try {
+    await pipeline(req, createWriteStream(upload.path, { flags: 'a' }));
+  } catch (e) {
+    // An interrupted chunk keeps what arrived; the client resumes from there
+    log(`chunk for ${upload.id} interrupted: ${e.message}`);
+  }
+  upload.offset = Math.min((await stat(upload.path)).size, upload.length);
+
+  const done = upload.offset === upload.length;
+  log(`${upload.id} at ${upload.offset}/${upload.length} bytes${done ? ' (complete)' : ''}`);
+  reply(res, 204, { 'Upload-Offset': String(upload.offset) });
+}
+
+function download(res, upload) {
+  if (upload.offset < upload.length) {
+    return reply(res, 409, {}, 'Upload is not complete');
+  }
+  res.writeHead(200, {
+    'Content-Type': upload.metadata.filetype || 'application/octet-stream',
+    'Content-Length': String(upload.length),
+  });
+  createReadStream(upload.path).pipe(res);
+}
+
+// Handle tus requests under /files; returns false for everything else
+export async function handleUpload(req, res) {
+  const { pathname } = new URL(req.url, 'http://localhost');
+  if (pathname !== UPLOAD_PATH && !pathname.startsWith(`${UPLOAD_PATH}/`)) return false;
+
+  // Discovery; also answers CORS preflights for the tus headers
+  if (req.method === 'OPTIONS') {
+    reply(res, 204, {
+      'Tus-Version': TUS_VERSION,
+      'Tus-Extension': 'creation',
+      'Tus-Max-Size': String(MAX_UPLOAD_SIZE),
+    });
+    return true;
+  }
+
+  const upload = uploads.get(pathname.slice(UPLOAD_PATH.length + 1));
+  if (req.method === 'GET') {
+    if (upload) download(res, upload);
+    else reply(res, 404, {}, 'Unknown upload');
+    return true;
+  }
+
+  if (req.headers['tus-resumable'] !== TUS_VERSION) {
+    reply(res, 412, { 'Tus-Version': TUS_VERSION }, 'Unsupported tus version');
+    return true;
+  }
+
+  if (req.method === 'POST' && pathname === UPLOAD_PATH) {
+    await create(req, res);
+  } else if (!upload) {
+    reply(res, 404, {}, 'Unknown upload');
+  } else if (req.method === 'HEAD') {
+    reply(res, 200, {
+      'Upload-Offset': String(upload.offset),
+      'Upload-Length': String(upload.length),
+      'Cache-Control': 'no-store',
+    });
+  } else if (req.method === 'PATCH') {
+    await append(req, res, upload);
+  } else {
+    reply(res, 405, {}, 'Method not allowed');
+  }
+  return true;
+}
+
+// Status line for an upload URL a share refers to
+export function describeUpload(url) {
+  const { pathname } = new URL(url, 'http://localhost');
+  const upload = uploads.get(pathname.slice(UPLOAD_PATH.length + 1));
+  if (!upload) return 'unknown upload';
+  return upload.offset === upload.length
+    ? `complete, saved to ${upload.path}`
+    : `incomplete, ${upload.offset} of ${upload.length} bytes`;
+}
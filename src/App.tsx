@@ -1,49 +1,322 @@
-import { Component, createSignal, createEffect, onMount, Show, For } from 'solid-js';
+import {
+  Component,
+  createSignal,
+  createMemo,
+  createEffect,
+  on,
+  onCleanup,
+  onMount,
+  Show,
+  Index,
+} from 'solid-js';
 import styles from './App.module.css';
 import {
   getConfig,
   setConfig,
-  getLogs,
-  clearLogs,
-  getPendingShareData,
-  clearPendingShareData,
-  type LogEntry,
+  mirrorConfig,
+  getLegacyLogs,
+  clearLegacyLogs,
+  getInboxShares,
+  addInboxShare,
+  rememberTags,
+  removeInboxShare,
+  DEFAULT_HISTORY_RETENTION,
+  type Destination,
+  type HistoryRetention,
+  type RelayConfig,
+  type RoutingRule,
   type ShareData,
 } from './lib/storage';
-import { forwardShare, type ForwardResult } from './lib/forwarder';
+import {
+  forwardShare,
+  forwardToDestination,
+  findRecentDuplicate,
+  prepareShare,
+  type ForwardResult,
+} from './lib/forwarder';
+import { resolveDestinations } from './lib/routing';
+import {
+  getOutboxItems,
+  retryOutboxItem,
+  dropOutboxItem,
+  requestOutboxDrain,
+  OUTBOX_UPDATED_MESSAGE,
+  type OutboxItem,
+} from './lib/outbox';
+import { getLogEntry, importLogEntries, pruneHistory } from './lib/history';
+import { dropBatchItem, flushBatch, getBatchItems, type BatchItem } from './lib/batches';
+import { NOTIFICATION_CLICK_MESSAGE, NOTIFICATION_PARAM } from './lib/notifications';
+import { parseResponseActions } from './lib/responseActions';
+import { createLinkShare, readShareLink, SHARE_PATH } from './lib/shareLinks';
+import { DEFAULT_URL_CLEANING, extractShareUrls, type UrlCleaning } from './lib/urls';
+import {
+  createFingerprintCache,
+  DEFAULT_DUPLICATE_DETECTION,
+  type DuplicateDetection,
+  type DuplicateMatch,
+} from './lib/duplicates';
+import {
+  decideAutoRelay,
+  DEFAULT_AUTO_RELAY,
+  isRefused,
+  relaysAutomatically,
+  sendsAutomatically,
+  type AutoRelaySettings,
+  type PolicyDecision,
+} from './lib/policies';
+import { configProblems, readProvisionHash, restoreSecrets } from './lib/config';
+import DestinationsEditor from './components/DestinationsEditor';
+import RulesEditor from './components/RulesEditor';
+import AutoRelayEditor from './components/AutoRelayEditor';
+import HistoryRetentionEditor from './components/HistoryRetentionEditor';
+import UrlCleaningEditor from './components/UrlCleaningEditor';
+import DuplicateDetectionEditor from './components/DuplicateDetectionEditor';
+import OutboxPanel from './components/OutboxPanel';
+import LogsView from './components/LogsView';
+import ComposeView from './components/ComposeView';
+import ConfigTransfer from './components/ConfigTransfer';
+import ProvisionPrompt, { type Provision } from './components/ProvisionPrompt';
+import DesktopSharing from './components/DesktopSharing';
+import ShareCard, { IDLE_RELAY_STATE, type ShareRelayState } from './components/ShareCard';
+
+// How often the open app retries the outbox when Background Sync is unavailable
+const OUTBOX_POLL_INTERVAL = 60 * 1000;
 
-type View = 'config' | 'share' | 'logs';
+type View = 'config' | 'compose' | 'share' | 'logs';
+
+// Typed, pasted and dropped shares are the user's own, so they aren't marked as coming from a /share link
+const emptyDraft = (): ShareData => ({
+  id: crypto.randomUUID(),
+  title: '',
+  text: '',
+  url: '',
+  files: [],
+  timestamp: Date.now(),
+});
 
 const App: Component = () => {
   const [activeView, setActiveView] = createSignal<View>('config');
-  const [relayUrl, setRelayUrl] = createSignal('');
-  const [autoRelay, setAutoRelay] = createSignal(false);
+  const [destinations, setDestinations] = createSignal<Destination[]>([]);
+  const [rules, setRules] = createSignal<RoutingRule[]>([]);
+  const [autoRelay, setAutoRelay] = createSignal<AutoRelaySettings>({ ...DEFAULT_AUTO_RELAY });
   const [saved, setSaved] = createSignal(false);
-  const [logs, setLogs] = createSignal<LogEntry[]>([]);
-  const [pendingShare, setPendingShare] = createSignal<ShareData | null>(null);
-  const [forwardStatus, setForwardStatus] = createSignal<'idle' | 'pending' | 'success' | 'error'>('idle');
-  const [forwardResult, setForwardResult] = createSignal<ForwardResult | null>(null);
+  const [historyRetention, setHistoryRetention] = createSignal<HistoryRetention>({
+    ...DEFAULT_HISTORY_RETENTION,
+  });
+  const [urlCleaning, setUrlCleaning] = createSignal<UrlCleaning>({ ...DEFAULT_URL_CLEANING });
+  const [deviceName, setDeviceName] = createSignal('');
+  const [duplicateDetection, setDuplicateDetection] = createSignal<DuplicateDetection>({
+    ...DEFAULT_DUPLICATE_DETECTION,
+  });
+  // Bumped to make the Logs view reload the history
+  const [historyVersion, setHistoryVersion] = createSignal(0);
+  const [inbox, setInbox] = createSignal<ShareData[]>([]);
+  const [relayStates, setRelayStates] = createSignal<Record<string, ShareRelayState>>({});
+  // Inbox shares that repeat a recent share; their card asks before relaying
+  const [duplicates, setDuplicates] = createSignal<Record<string, DuplicateMatch>>({});
+  const [outbox, setOutbox] = createSignal<OutboxItem[]>([]);
+  const [batches, setBatches] = createSignal<BatchItem[]>([]);
+  const [provision, setProvision] = createSignal<Provision | null>(null);
+  const [notice, setNotice] = createSignal('');
+  // Kept here so switching tabs doesn't lose what's being composed
+  const [draft, setDraft] = createSignal<ShareData>(emptyDraft());
+  const [notificationPermission, setNotificationPermission] = createSignal(
+    typeof Notification === 'undefined' ? 'unsupported' : Notification.permission
+  );
+
+  const currentConfig = (): RelayConfig => ({
+    destinations: destinations(),
+    rules: rules(),
+    autoRelay: autoRelay(),
+    history: historyRetention(),
+    urlCleaning: urlCleaning(),
+    duplicates: duplicateDetection(),
+    deviceName: deviceName(),
+  });
+
+  const applyConfig = (config: RelayConfig) => {
+    setDestinations(config.destinations);
+    setRules(config.rules);
+    setAutoRelay(config.autoRelay);
+    setHistoryRetention(config.history);
+    setUrlCleaning(config.urlCleaning);
+    setDuplicateDetection(config.duplicates);
+    setDeviceName(config.deviceName);
+  };
+
+  const hasDestinations = () => destinations().some((destination) => destination.url);
+
+  const relayState = (share: ShareData) => relayStates()[share.id] || IDLE_RELAY_STATE;
+
+  const setRelayState = (id: string, state: ShareRelayState) => {
+    setRelayStates((states) => ({ ...states, [id]: state }));
+  };
+
+  // Shares that haven't been relayed or discarded yet
+  const unrelayed = createMemo(() => inbox().filter((share) => relayState(share).status === 'idle'));
+
+  const policyDecision = (share: ShareData): PolicyDecision => decideAutoRelay(share, autoRelay());
+
+  const canRelay = (share: ShareData) =>
+    !isRefused(policyDecision(share)) && resolveDestinations(share, currentConfig()).length > 0;
+
+  const inboxFingerprints = createFingerprintCache();
+
+  const checkDuplicate = async (share: ShareData): Promise<DuplicateMatch | null> => {
+    const match = await findRecentDuplicate(share, inbox(), currentConfig(), inboxFingerprints.fingerprint);
+    setDuplicates(({ [share.id]: _, ...others }) => (match ? { ...others, [share.id]: match } : others));
+    return match;
+  };
+
+  // Recheck whenever shares arrive or are edited; the counter drops results of an outdated run
+  let duplicateRun = 0;
+  createEffect(
+    on([inbox, duplicateDetection], async ([shares]) => {
+      const run = ++duplicateRun;
+      inboxFingerprints.retain(shares);
+      const matches = await Promise.all(
+        shares.map((share) => findRecentDuplicate(share, shares, currentConfig(), inboxFingerprints.fingerprint))
+      );
+      if (run !== duplicateRun) return;
+      setDuplicates(
+        Object.fromEntries(
+          shares.flatMap((share, i) => (matches[i] ? [[share.id, matches[i]] as const] : []))
+        )
+      );
+    })
+  );
+
+  const refreshOutbox = async () => {
+    setOutbox(await getOutboxItems());
+    setBatches(await getBatchItems());
+    setHistoryVersion((version) => version + 1);
+  };
+
+  const drainOutbox = async () => {
+    await requestOutboxDrain(currentConfig());
+    await refreshOutbox();
+  };
+
+  const showNotice = (message: string) => {
+    setNotice(message);
+    setTimeout(() => setNotice(''), 3000);
+  };
+
+  // Opened from a relay notification: show the history, copying the response if asked
+  const handleNotificationClick = async (action: string, logId?: string | null) => {
+    setActiveView('logs');
+    if (action !== 'copy' || !logId) return;
+    const entry = await getLogEntry(logId);
+    const destination = destinations().find((item) => item.id === entry?.destinationId);
+    const actions = destination && parseResponseActions(entry?.response, destination.responseActions);
+    try {
+      await navigator.clipboard.writeText(actions?.copyText || entry?.response || '');
+      showNotice('Response copied');
+    } catch {
+      showNotice("Couldn't copy the response; it's in the history below");
+    }
+  };
+
+  // Background relays need notifications to report back; without them the app opens instead
+  const requestNotifications = async () => {
+    if (notificationPermission() === 'default') {
+      setNotificationPermission(await Notification.requestPermission());
+    }
+  };
+
+  // Asks once, when the first policy starts relaying on its own
+  const handleAutoRelayChange = async (settings: AutoRelaySettings) => {
+    const wasSending = sendsAutomatically(autoRelay());
+    setAutoRelay(settings);
+    if (!wasSending && sendsAutomatically(settings)) await requestNotifications();
+  };
+
+  // Keep the outbox moving while the app is open
+  onMount(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === OUTBOX_UPDATED_MESSAGE) refreshOutbox();
+      if (event.data?.type === NOTIFICATION_CLICK_MESSAGE) {
+        handleNotificationClick(event.data.action, event.data.logId);
+      }
+    };
+    navigator.serviceWorker?.addEventListener('message', handleMessage);
+    window.addEventListener('online', drainOutbox);
+    const interval = setInterval(drainOutbox, OUTBOX_POLL_INTERVAL);
+    drainOutbox();
+
+    onCleanup(() => {
+      navigator.serviceWorker?.removeEventListener('message', handleMessage);
+      window.removeEventListener('online', drainOutbox);
+      clearInterval(interval);
+    });
+  });
 
   // Load initial data
   onMount(async () => {
     const config = getConfig();
-    setRelayUrl(config.relayUrl);
-    setAutoRelay(config.autoRelay);
-    setLogs(getLogs());
+    applyConfig(config);
+    // Also brings the service worker's copy up to date after an update
+    mirrorConfig(config).catch((e) => console.error('Error mirroring config:', e));
+
+    // A provisioning link waits for confirmation in the Config view
+    try {
+      const provisioned = await readProvisionHash(window.location.hash);
+      if (provisioned) setProvision({ config: provisioned });
+    } catch (e) {
+      setProvision({ problems: configProblems(e) });
+    }
+
+    try {
+      await importLogEntries(getLegacyLogs());
+      clearLegacyLogs();
+    } catch (e) {
+      console.error('Error moving logs to IndexedDB:', e);
+    }
+    await pruneHistory(config.history);
+
+    // Share links reach the app itself when no service worker is in control yet;
+    // from here they take the same path as a share the service worker stored
+    if (window.location.pathname === SHARE_PATH) {
+      const fields = readShareLink(new URLSearchParams(window.location.search));
+      const share = fields && createLinkShare(fields);
+      const dropped = share && decideAutoRelay(share, config.autoRelay).action === 'drop';
+      if (share && !dropped) await addInboxShare(share);
+      window.history.replaceState({}, '', share && !dropped ? `/?share-target=pending&id=${share.id}` : '/');
+    }
+    
+    const shares = await getInboxShares();
+    setInbox(shares);
+    if (shares.length > 0 && !provision()) {
+      setActiveView('share');
+    }
     
-    // Check for pending share data from URL
+    // Check for the share that opened the app
     const params = new URLSearchParams(window.location.search);
+    if (params.get(NOTIFICATION_PARAM)) {
+      window.history.replaceState({}, '', '/');
+      await handleNotificationClick(params.get(NOTIFICATION_PARAM)!, params.get('log'));
+      return;
+    }
     if (params.get('share-target') === 'pending') {
-      const shareData = await getPendingShareData();
+      const shareData = shares.find((share) => share.id === params.get('id'));
       if (shareData) {
-        setPendingShare(shareData);
-        setActiveView('share');
-        
-        // Auto-relay if enabled and URL is configured
-        if (config.autoRelay && config.relayUrl) {
-          const result = await performRelay(shareData, config.relayUrl);
+        const decision = decideAutoRelay(shareData, config.autoRelay);
+        // Dropped shares leave no trace; blocked ones and those to confirm wait in the Share view
+        if (decision.action === 'drop') {
+          await removeInboxShare(shareData.id);
+          setInbox((shares) => shares.filter((share) => share.id !== shareData.id));
+          window.history.back();
+          return;
+        }
+        // Auto-relay if a policy allows it, a destination matches and it doesn't repeat a recent share
+        if (
+          relaysAutomatically(shareData, decision) &&
+          resolveDestinations(shareData, config).length > 0 &&
+          !(await checkDuplicate(shareData))
+        ) {
+          const results = await performRelay(shareData, config);
           // Return to previous app after successful auto-forward
-          if (result.success) {
+          if (results.every((result) => result.success)) {
             window.history.back();
             return;
           }
@@ -54,59 +327,141 @@ const App: Component = () => {
     }
   });
 
-  // Refresh logs when switching to logs view
-  createEffect(() => {
-    if (activeView() === 'logs') {
-      setLogs(getLogs());
-    }
-  });
-
   const handleSaveConfig = () => {
-    setConfig({ relayUrl: relayUrl(), autoRelay: autoRelay() });
+    setConfig(currentConfig());
     setSaved(true);
     setTimeout(() => setSaved(false), 2000);
   };
 
-  const performRelay = async (share: ShareData, url: string): Promise<ForwardResult> => {
-    setForwardStatus('pending');
-    const result = await forwardShare(share, url);
-    setForwardResult(result);
-    setForwardStatus(result.success ? 'success' : 'error');
+  const dismissProvision = () => {
+    setProvision(null);
+    window.history.replaceState({}, '', window.location.pathname + window.location.search);
+  };
+
+  const handleProvision = (config: RelayConfig) => {
+    applyConfig(restoreSecrets(config, currentConfig()));
+    handleSaveConfig();
+    dismissProvision();
+  };
+
+  const performRelay = async (share: ShareData, config: RelayConfig): Promise<ForwardResult[]> => {
+    setRelayState(share.id, { status: 'pending', results: [] });
+    rememberTags(share.tags || []);
+    const results = await forwardShare(share, config, (progress) => {
+      setRelayStates((states) => {
+        const state = states[share.id];
+        const uploads = state.uploads || [];
+        const index = uploads.findIndex(
+          (upload) => upload.destinationId === progress.destinationId && upload.fileIndex === progress.fileIndex
+        );
+        return {
+          ...states,
+          [share.id]: {
+            ...state,
+            uploads: index === -1 ? [...uploads, progress] : uploads.map((upload, i) => (i === index ? progress : upload)),
+          },
+        };
+      });
+    });
+    setRelayState(share.id, {
+      status: results.every((result) => result.success) ? 'success' : 'error',
+      results,
+    });
+
+    // Most browsers allow this without a tap; the Copy button on the result covers the others
+    const copyText = results.find((result) => result.actions?.copyText)?.actions?.copyText;
+    if (copyText) {
+      navigator.clipboard.writeText(copyText).then(
+        () => showNotice('Copied to the clipboard'),
+        () => {}
+      );
+    }
     
-    // Clear pending share data
-    await clearPendingShareData();
+    // Remove from the inbox; failed relays live on in the outbox
+    await removeInboxShare(share.id);
+    await refreshOutbox();
     
-    return result;
+    return results;
   };
 
-  const handleForward = async () => {
-    const share = pendingShare();
-    const url = relayUrl();
-    
-    if (!share || !url) return;
+  // Edits are saved to the inbox right away so they survive a reload
+  const handleEditShare = async (share: ShareData) => {
+    setInbox((shares) => shares.map((item) => (item.id === share.id ? share : item)));
+    await addInboxShare(share);
+  };
+
+  const handleForward = async (share: ShareData) => {
+    if (!canRelay(share)) return;
+    // A duplicate is only sent once its card has shown the warning
+    if (!duplicates()[share.id] && (await checkDuplicate(share))) return;
     
-    await performRelay(share, url);
+    await performRelay(share, currentConfig());
+  };
+
+  // A composed share joins the inbox like a shared one, so the Share view shows its relay
+  const handleRelayDraft = async () => {
+    const share = { ...draft(), timestamp: Date.now() };
+    setDraft(emptyDraft());
+    await addInboxShare(share);
+    setInbox((shares) => [...shares, share]);
+    setActiveView('share');
+    await handleForward(share);
+  };
+
+  // Duplicates are left for the user to confirm one by one
+  const handleRelayAll = async () => {
+    for (const share of unrelayed().filter((share) => canRelay(share) && !duplicates()[share.id])) {
+      await handleForward(share);
+    }
+  };
+
+  const handleClearShare = async (share: ShareData) => {
+    await removeInboxShare(share.id);
+    setInbox((shares) => shares.filter((item) => item.id !== share.id));
+    setRelayStates(({ [share.id]: _, ...states }) => states);
   };
 
-  const handleClearShare = async () => {
-    await clearPendingShareData();
-    setPendingShare(null);
-    setForwardStatus('idle');
-    setForwardResult(null);
+  const handleResend = async (share: ShareData, destination: Destination) => {
+    rememberTags(share.tags || []);
+    await forwardToDestination(await prepareShare(share, currentConfig()), destination);
+    await refreshOutbox();
   };
 
-  const handleClearLogs = () => {
-    clearLogs();
-    setLogs([]);
+  // Put a copy back in the inbox so it can be relayed from the Share view
+  const handleDuplicate = async (share: ShareData) => {
+    const copy = { ...share, id: crypto.randomUUID(), timestamp: Date.now() };
+    await addInboxShare(copy);
+    setInbox((shares) => [...shares, copy]);
+    setActiveView('share');
   };
 
-  const formatTime = (timestamp: number) => {
-    return new Date(timestamp).toLocaleString();
+  const handleRetryQueued = async (item: OutboxItem) => {
+    await retryOutboxItem(item.id);
+    await refreshOutbox();
   };
 
-  const truncate = (str: string, len: number) => {
-    if (!str) return '';
-    return str.length > len ? str.slice(0, len) + '...' : str;
+  const handleDropQueued = async (item: OutboxItem) => {
+    await dropOutboxItem(item);
+    await refreshOutbox();
+  };
+
+  const handleSendBatch = async (destinationId: string) => {
+    const destination = destinations().find((item) => item.id === destinationId);
+    if (!destination) return;
+    const outcome = await flushBatch(destination, { force: true });
+    await refreshOutbox();
+    if (outcome) {
+      showNotice(
+        outcome.failed > 0
+          ? `Batch sent: ${outcome.sent} delivered, ${outcome.failed} failed`
+          : `Batch sent: ${outcome.sent} delivered`
+      );
+    }
+  };
+
+  const handleDropBatched = async (item: BatchItem) => {
+    await dropBatchItem(item);
+    await refreshOutbox();
   };
 
   return (
@@ -123,13 +478,19 @@ const App: Component = () => {
         >
           Config
         </button>
+        <button
+          class={`${styles.tab} ${activeView() === 'compose' ? styles.tabActive : ''}`}
+          onClick={() => setActiveView('compose')}
+        >
+          Compose
+        </button>
         <button
           class={`${styles.tab} ${activeView() === 'share' ? styles.tabActive : ''}`}
           onClick={() => setActiveView('share')}
         >
           Share
-          <Show when={pendingShare()}>
-            {' '}•
+          <Show when={unrelayed().length > 0}>
+            {' '}({unrelayed().length})
           </Show>
         </button>
         <button
@@ -137,45 +498,94 @@ const App: Component = () => {
           onClick={() => setActiveView('logs')}
         >
           Logs
+          <Show when={outbox().length + batches().length > 0}>
+            {' '}({outbox().length + batches().length})
+          </Show>
         </button>
       </nav>
 
       <main class={styles.content}>
+        <Show when={notice()}>
+          <p class={styles.savedMessage}>{notice()}</p>
+        </Show>
         {/* Config View */}
         <Show when={activeView() === 'config'}>
           <div class={styles.configView}>
+            <Show when={provision()}>
+              {(provision) => (
+                <ProvisionPrompt
+                  provision={provision()}
+                  current={currentConfig()}
+                  onLoad={handleProvision}
+                  onDismiss={dismissProvision}
+                />
+              )}
+            </Show>
+            <DestinationsEditor destinations={destinations()} onChange={setDestinations} />
+            <RulesEditor rules={rules()} destinations={destinations()} onChange={setRules} />
+            <AutoRelayEditor settings={autoRelay()} onChange={handleAutoRelayChange} />
+            <UrlCleaningEditor cleaning={urlCleaning()} onChange={setUrlCleaning} />
+            <DuplicateDetectionEditor detection={duplicateDetection()} onChange={setDuplicateDetection} />
+            <HistoryRetentionEditor retention={historyRetention()} onChange={setHistoryRetention} />
             <div class={styles.inputGroup}>
-              <label for="relayUrl">Relay URL</label>
+              <label for="deviceName">Device name</label>
               <input
-                id="relayUrl"
-                type="url"
+                id="deviceName"
+                type="text"
                 class={styles.input}
-                placeholder="https://your-api.com/webhook"
-                value={relayUrl()}
-                onInput={(e) => setRelayUrl(e.currentTarget.value)}
-              />
-            </div>
-            <div class={styles.checkboxGroup}>
-              <input
-                id="autoRelay"
-                type="checkbox"
-                class={styles.checkbox}
-                checked={autoRelay()}
-                onChange={(e) => setAutoRelay(e.currentTarget.checked)}
+                placeholder="Pixel 8"
+                value={deviceName()}
+                onInput={(e) => setDeviceName(e.currentTarget.value)}
               />
-              <label for="autoRelay">Auto-relay (skip confirmation)</label>
+              <p class={styles.hint}>Sent with v2 payloads so receivers can tell your devices apart.</p>
             </div>
+            <Show when={sendsAutomatically(autoRelay())}>
+              <p class={styles.hint}>
+                {notificationPermission() === 'granted'
+                  ? 'Shares are relayed in the background and the result shows as a notification.'
+                  : 'Allow notifications to relay in the background; until then the app opens to relay each share.'}
+              </p>
+              <Show when={notificationPermission() === 'default'}>
+                <button
+                  class={`${styles.button} ${styles.buttonSecondary} ${styles.buttonSmall}`}
+                  onClick={requestNotifications}
+                >
+                  Allow notifications
+                </button>
+              </Show>
+            </Show>
             <button class={styles.button} onClick={handleSaveConfig}>
               Save Configuration
             </button>
             <Show when={saved()}>
               <p class={styles.savedMessage}>Configuration saved!</p>
             </Show>
-            <Show when={!relayUrl()}>
+            <Show when={!hasDestinations()}>
               <p style={{ color: '#f59e0b', 'font-size': '0.875rem', 'text-align': 'center' }}>
-                Configure a relay URL to enable sharing
+                Configure a destination to enable sharing
               </p>
             </Show>
+            <ConfigTransfer config={currentConfig()} onImport={applyConfig} />
+            <DesktopSharing />
+          </div>
+        </Show>
+
+        {/* Compose View */}
+        <Show when={activeView() === 'compose'}>
+          <div class={styles.shareView}>
+            <Show when={!hasDestinations()}>
+              <div class={`${styles.statusMessage} ${styles.statusError}`}>
+                No destination configured. Go to Config tab to add one.
+              </div>
+            </Show>
+            <ComposeView
+              share={draft()}
+              destinations={resolveDestinations(draft(), currentConfig())}
+              hasDestinations={hasDestinations()}
+              onChange={setDraft}
+              onRelay={handleRelayDraft}
+              onClear={() => setDraft(emptyDraft())}
+            />
           </div>
         </Show>
 
@@ -183,7 +593,7 @@ const App: Component = () => {
         <Show when={activeView() === 'share'}>
           <div class={styles.shareView}>
             <Show
-              when={pendingShare()}
+              when={inbox().length > 0}
               fallback={
                 <div class={styles.noShare}>
                   <p>No pending share</p>
@@ -193,98 +603,43 @@ const App: Component = () => {
                 </div>
               }
             >
-              {(share) => (
-                <>
-                  <div class={styles.shareCard}>
-                    <h3>Shared Content</h3>
-                    
-                    <div class={styles.shareField}>
-                      <div class={styles.shareLabel}>Title</div>
-                      <div class={`${styles.shareValue} ${!share().title ? styles.shareValueEmpty : ''}`}>
-                        {share().title || 'No title'}
-                      </div>
-                    </div>
-                    
-                    <div class={styles.shareField}>
-                      <div class={styles.shareLabel}>Text</div>
-                      <div class={`${styles.shareValue} ${!share().text ? styles.shareValueEmpty : ''}`}>
-                        {share().text || 'No text'}
-                      </div>
-                    </div>
-                    
-                    <div class={styles.shareField}>
-                      <div class={styles.shareLabel}>URL</div>
-                      <div class={`${styles.shareValue} ${!share().url ? styles.shareValueEmpty : ''}`}>
-                        {share().url || 'No URL'}
-                      </div>
-                    </div>
-                    
-                    <Show when={share().files && share().files.length > 0}>
-                      <div class={styles.shareField}>
-                        <div class={styles.shareLabel}>Files ({share().files.length})</div>
-                        <div class={styles.filesList}>
-                          <For each={share().files}>
-                            {(file) => (
-                              <div class={styles.fileItem}>
-                                <span class={styles.fileIcon}>📎</span>
-                                <span class={styles.fileName}>{file.name}</span>
-                                <span class={styles.fileType}>{file.type}</span>
-                              </div>
-                            )}
-                          </For>
-                        </div>
-                      </div>
-                    </Show>
-                  </div>
-
-                  <Show when={forwardStatus() !== 'idle'}>
-                    <div
-                      class={`${styles.statusMessage} ${
-                        forwardStatus() === 'success'
-                          ? styles.statusSuccess
-                          : forwardStatus() === 'error'
-                          ? styles.statusError
-                          : styles.statusPending
-                      }`}
-                    >
-                      <Show when={forwardStatus() === 'pending'}>Forwarding...</Show>
-                      <Show when={forwardStatus() === 'success'}>
-                        Successfully forwarded!
-                        <Show when={forwardResult()?.response}>
-                          <br />
-                          <small>Response: {truncate(forwardResult()?.response || '', 100)}</small>
-                        </Show>
-                      </Show>
-                      <Show when={forwardStatus() === 'error'}>
-                        Error: {forwardResult()?.error}
-                      </Show>
-                    </div>
-                  </Show>
-
-                  <Show when={!relayUrl()}>
-                    <div class={`${styles.statusMessage} ${styles.statusError}`}>
-                      No relay URL configured. Go to Config tab to set one.
-                    </div>
-                  </Show>
-
-                  <Show when={forwardStatus() === 'idle'}>
-                    <button
-                      class={styles.button}
-                      onClick={handleForward}
-                      disabled={!relayUrl()}
-                    >
-                      Relay to {relayUrl() ? new URL(relayUrl()).hostname : 'API'}
-                    </button>
-                  </Show>
-
-                  <button
-                    class={`${styles.button} ${styles.buttonSecondary}`}
-                    onClick={handleClearShare}
-                  >
-                    {forwardStatus() === 'idle' ? 'Discard' : 'Clear'}
-                  </button>
-                </>
-              )}
+              <Show when={!hasDestinations()}>
+                <div class={`${styles.statusMessage} ${styles.statusError}`}>
+                  No destination configured. Go to Config tab to add one.
+                </div>
+              </Show>
+
+              <Show when={unrelayed().length > 1}>
+                <button
+                  class={styles.button}
+                  onClick={handleRelayAll}
+                  disabled={!unrelayed().some(canRelay)}
+                >
+                  Relay all ({unrelayed().length})
+                </button>
+              </Show>
+
+              {/* Index keeps each card mounted while its share is being edited */}
+              <Index each={inbox()}>
+                {(share) => (
+                  <ShareCard
+                    share={share()}
+                    destinations={resolveDestinations(share(), currentConfig())}
+                    hasDestinations={hasDestinations()}
+                    state={relayState(share())}
+                    cleanedUrls={
+                      urlCleaning().extractUrls
+                        ? extractShareUrls(share(), urlCleaning().stripParams)
+                        : []
+                    }
+                    duplicate={duplicates()[share().id]}
+                    policy={policyDecision(share())}
+                    onChange={handleEditShare}
+                    onRelay={() => handleForward(share())}
+                    onDiscard={() => handleClearShare(share())}
+                  />
+                )}
+              </Index>
             </Show>
           </div>
         </Show>
@@ -292,78 +647,22 @@ const App: Component = () => {
         {/* Logs View */}
         <Show when={activeView() === 'logs'}>
           <div class={styles.logsView}>
-            <div class={styles.logsHeader}>
-              <h2>Forward History</h2>
-              <Show when={logs().length > 0}>
-                <button
-                  class={`${styles.button} ${styles.buttonDanger}`}
-                  style={{ padding: '0.5rem 0.75rem', 'font-size': '0.75rem' }}
-                  onClick={handleClearLogs}
-                >
-                  Clear
-                </button>
-              </Show>
-            </div>
+            <OutboxPanel
+              items={outbox()}
+              batches={batches()}
+              destinations={destinations()}
+              onRetry={handleRetryQueued}
+              onDrop={handleDropQueued}
+              onSendBatch={handleSendBatch}
+              onDropBatched={handleDropBatched}
+            />
 
-            <Show
-              when={logs().length > 0}
-              fallback={<div class={styles.noLogs}>No forwarding history yet</div>}
-            >
-              <div class={styles.logsList}>
-                <For each={logs()}>
-                  {(log) => (
-                    <div
-                      class={`${styles.logEntry} ${
-                        log.status === 'success'
-                          ? styles.logEntrySuccess
-                          : log.status === 'error'
-                          ? styles.logEntryError
-                          : styles.logEntryPending
-                      }`}
-                    >
-                      <div class={styles.logHeader}>
-                        <span
-                          class={`${styles.logStatus} ${
-                            log.status === 'success'
-                              ? styles.logStatusSuccess
-                              : log.status === 'error'
-                              ? styles.logStatusError
-                              : styles.logStatusPending
-                          }`}
-                        >
-                          {log.status}
-                        </span>
-                        <span class={styles.logTime}>{formatTime(log.timestamp)}</span>
-                      </div>
-                      <div class={styles.logPayload}>
-                        <Show when={log.payload.title}>
-                          <p><strong>Title:</strong> {truncate(log.payload.title, 50)}</p>
-                        </Show>
-                        <Show when={log.payload.text}>
-                          <p><strong>Text:</strong> {truncate(log.payload.text, 100)}</p>
-                        </Show>
-                        <Show when={log.payload.url}>
-                          <p><strong>URL:</strong> {truncate(log.payload.url, 50)}</p>
-                        </Show>
-                        <Show when={log.payload.filesCount > 0}>
-                          <p><strong>Files:</strong> {log.payload.filesCount}</p>
-                        </Show>
-                      </div>
-                      <Show when={log.error}>
-                        <div class={styles.logResponse} style={{ color: '#f87171' }}>
-                          Error: {log.error}
-                        </div>
-                      </Show>
-                      <Show when={log.response && !log.error}>
-                        <div class={styles.logResponse}>
-                          Response: {truncate(log.response || '', 150)}
-                        </div>
-                      </Show>
-                    </div>
-                  )}
-                </For>
-              </div>
-            </Show>
+            <LogsView
+              version={historyVersion()}
+              destinations={destinations().filter((destination) => destination.url)}
+              onResend={handleResend}
+              onDuplicate={handleDuplicate}
+            />
           </div>
         </Show>
       </main>
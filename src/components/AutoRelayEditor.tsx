@@ -0,0 +1,135 @@
+import { Component, For, Index, Show } from 'solid-js';
+import styles from '../App.module.css';
+import { generateId } from '../lib/storage';
+import { SHARE_KINDS } from '../lib/classify';
+import {
+  POLICY_ACTIONS,
+  type AutoRelayPolicy,
+  type AutoRelaySettings,
+  type PolicyAction,
+  type PolicyType,
+} from '../lib/policies';
+
+interface AutoRelayEditorProps {
+  settings: AutoRelaySettings;
+  onChange: (settings: AutoRelaySettings) => void;
+}
+
+const PLACEHOLDERS: Record<PolicyType, string> = {
+  domain: 'github.com',
+  files: '',
+  size: '10',
+  regex: 'password|invoice',
+  kind: '',
+};
+
+const AutoRelayEditor: Component<AutoRelayEditorProps> = (props) => {
+  const setPolicies = (policies: AutoRelayPolicy[]) => {
+    props.onChange({ ...props.settings, policies });
+  };
+
+  const update = (index: number, changes: Partial<AutoRelayPolicy>) => {
+    const next = [...props.settings.policies];
+    next[index] = { ...next[index], ...changes };
+    setPolicies(next);
+  };
+
+  const remove = (index: number) => {
+    setPolicies(props.settings.policies.filter((_, i) => i !== index));
+  };
+
+  const add = () => {
+    setPolicies([...props.settings.policies, { id: generateId(), type: 'domain', pattern: '', action: 'send' }]);
+  };
+
+  return (
+    <div class={styles.section}>
+      <div class={styles.sectionHeader}>
+        <h2>Auto-relay</h2>
+        <button class={`${styles.button} ${styles.buttonSmall}`} onClick={add}>
+          Add
+        </button>
+      </div>
+      <p class={styles.hint}>
+        Policies decide what happens to a share when it arrives. When several match, the strictest
+        wins: drop, then block, ask, relay.
+      </p>
+
+      <Index each={props.settings.policies}>
+        {(policy, index) => (
+          <div class={styles.card}>
+            <div class={styles.inputRow}>
+              <select
+                class={styles.input}
+                value={policy().type}
+                onChange={(e) => update(index, { type: e.currentTarget.value as PolicyType, pattern: '' })}
+              >
+                <option value="domain">Link domain</option>
+                <option value="files">Files attached</option>
+                <option value="size">Larger than (MB)</option>
+                <option value="regex">Regex</option>
+                <option value="kind">Content kind</option>
+              </select>
+              <select
+                class={styles.input}
+                value={policy().action}
+                onChange={(e) => update(index, { action: e.currentTarget.value as PolicyAction })}
+              >
+                <For each={Object.entries(POLICY_ACTIONS)}>
+                  {([action, label]) => <option value={action}>{label}</option>}
+                </For>
+              </select>
+            </div>
+            <Show when={policy().type === 'kind'}>
+              <select
+                class={styles.input}
+                value={policy().pattern}
+                onChange={(e) => update(index, { pattern: e.currentTarget.value })}
+              >
+                <option value="" disabled>
+                  Pick a kind
+                </option>
+                <For each={SHARE_KINDS}>
+                  {(item) => <option value={item.kind}>{item.label}</option>}
+                </For>
+              </select>
+            </Show>
+            <Show when={policy().type === 'domain' || policy().type === 'regex' || policy().type === 'size'}>
+              <input
+                type={policy().type === 'size' ? 'number' : 'text'}
+                min="0"
+                class={styles.input}
+                placeholder={PLACEHOLDERS[policy().type]}
+                value={policy().pattern}
+                onInput={(e) => update(index, { pattern: e.currentTarget.value })}
+              />
+            </Show>
+            <button
+              class={`${styles.button} ${styles.buttonDanger} ${styles.buttonSmall}`}
+              onClick={() => remove(index)}
+            >
+              Remove
+            </button>
+          </div>
+        )}
+      </Index>
+
+      <div class={styles.inputGroup}>
+        <label for="auto-relay-fallback">Shares no policy matches</label>
+        <select
+          id="auto-relay-fallback"
+          class={styles.input}
+          value={props.settings.fallback}
+          onChange={(e) =>
+            props.onChange({ ...props.settings, fallback: e.currentTarget.value as AutoRelaySettings['fallback'] })
+          }
+        >
+          <option value="confirm">{POLICY_ACTIONS.confirm}</option>
+          <option value="send">{POLICY_ACTIONS.send}</option>
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default AutoRelayEditor;
@@ -0,0 +1,80 @@
+import { Component, Show } from 'solid-js';
+import styles from '../App.module.css';
+import type { BatchDelivery } from '../lib/batches';
+
+interface BatchDeliveryEditorProps {
+  id: string;
+  batching: BatchDelivery;
+  onChange: (batching: BatchDelivery) => void;
+}
+
+const BatchDeliveryEditor: Component<BatchDeliveryEditorProps> = (props) => {
+  const update = (changes: Partial<BatchDelivery>) => {
+    props.onChange({ ...props.batching, ...changes });
+  };
+
+  // Empty or negative means no limit
+  const limit = (value: number) => (Number.isFinite(value) ? Math.max(0, value) : 0);
+
+  return (
+    <details class={styles.details}>
+      <summary>Batching</summary>
+
+      <div class={styles.checkboxGroup}>
+        <input
+          id={`${props.id}-batching-enabled`}
+          type="checkbox"
+          class={styles.checkbox}
+          checked={props.batching.enabled}
+          onChange={(e) => update({ enabled: e.currentTarget.checked })}
+        />
+        <label for={`${props.id}-batching-enabled`}>Collect shares and send them together</label>
+      </div>
+
+      <Show when={props.batching.enabled}>
+        <div class={styles.inputRow}>
+          <div class={styles.inputGroup}>
+            <label for={`${props.id}-batching-items`}>Max shares</label>
+            <input
+              id={`${props.id}-batching-items`}
+              type="number"
+              min="0"
+              class={styles.input}
+              value={props.batching.maxItems}
+              onChange={(e) => update({ maxItems: limit(e.currentTarget.valueAsNumber) })}
+            />
+          </div>
+          <div class={styles.inputGroup}>
+            <label for={`${props.id}-batching-size`}>Max size (MB)</label>
+            <input
+              id={`${props.id}-batching-size`}
+              type="number"
+              min="0"
+              class={styles.input}
+              value={props.batching.maxSizeMB}
+              onChange={(e) => update({ maxSizeMB: limit(e.currentTarget.valueAsNumber) })}
+            />
+          </div>
+          <div class={styles.inputGroup}>
+            <label for={`${props.id}-batching-interval`}>Every (minutes)</label>
+            <input
+              id={`${props.id}-batching-interval`}
+              type="number"
+              min="0"
+              class={styles.input}
+              value={props.batching.intervalMinutes}
+              onChange={(e) => update({ intervalMinutes: limit(e.currentTarget.valueAsNumber) })}
+            />
+          </div>
+        </div>
+        <p class={styles.hint}>
+          Shares wait in the outbox and go out as one JSON array when either limit is reached, when the
+          oldest has waited the given minutes, or with Send now. Use 0 to turn a limit off. Connection
+          tests are always sent on their own.
+        </p>
+      </Show>
+    </details>
+  );
+};
+
+export default BatchDeliveryEditor;
@@ -0,0 +1,65 @@
+import { Component, Show } from 'solid-js';
+import styles from '../App.module.css';
+import type { ChunkedUploads } from '../lib/uploads';
+
+interface ChunkedUploadsEditorProps {
+  id: string;
+  uploads: ChunkedUploads;
+  onChange: (uploads: ChunkedUploads) => void;
+}
+
+const ChunkedUploadsEditor: Component<ChunkedUploadsEditorProps> = (props) => {
+  const update = (changes: Partial<ChunkedUploads>) => {
+    props.onChange({ ...props.uploads, ...changes });
+  };
+
+  return (
+    <details class={styles.details}>
+      <summary>Chunked uploads</summary>
+
+      <div class={styles.checkboxGroup}>
+        <input
+          id={`${props.id}-uploads-enabled`}
+          type="checkbox"
+          class={styles.checkbox}
+          checked={props.uploads.enabled}
+          onChange={(e) => update({ enabled: e.currentTarget.checked })}
+        />
+        <label for={`${props.id}-uploads-enabled`}>Upload files separately with tus</label>
+      </div>
+
+      <Show when={props.uploads.enabled}>
+        <div class={styles.inputRow}>
+          <div class={styles.inputGroup}>
+            <label for={`${props.id}-uploads-endpoint`}>Upload URL</label>
+            <input
+              id={`${props.id}-uploads-endpoint`}
+              type="url"
+              class={styles.input}
+              placeholder="https://your-api.com/files"
+              value={props.uploads.endpoint}
+              onInput={(e) => update({ endpoint: e.currentTarget.value })}
+            />
+          </div>
+          <div class={styles.inputGroup}>
+            <label for={`${props.id}-uploads-chunk-size`}>Chunk size (MB)</label>
+            <input
+              id={`${props.id}-uploads-chunk-size`}
+              type="number"
+              min="1"
+              class={styles.input}
+              value={props.uploads.chunkSizeMB}
+              onChange={(e) => update({ chunkSizeMB: Math.max(1, e.currentTarget.valueAsNumber || 1) })}
+            />
+          </div>
+        </div>
+        <p class={styles.hint}>
+          Files are uploaded first and the share is sent with an uploads list of their URLs instead of
+          file contents. Interrupted uploads continue where they stopped.
+        </p>
+      </Show>
+    </details>
+  );
+};
+
+export default ChunkedUploadsEditor;
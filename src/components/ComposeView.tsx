@@ -0,0 +1,173 @@
+import { Component, createSignal, Show } from 'solid-js';
+import styles from '../App.module.css';
+import { getDestinationLabel, type Destination, type ShareData, type SharedFile } from '../lib/storage';
+import { fieldsFromText } from '../lib/shareLinks';
+import ShareEditor from './ShareEditor';
+
+interface ComposeViewProps {
+  share: ShareData;
+  // Destinations the routing rules pick for the draft
+  destinations: Destination[];
+  hasDestinations: boolean;
+  onChange: (share: ShareData) => void;
+  onRelay: () => void;
+  onClear: () => void;
+}
+
+function toSharedFile(file: File): SharedFile {
+  return { name: file.name, type: file.type, data: file };
+}
+
+// Clipboard images have no name, so one is made up from their type
+function clipboardFile(blob: Blob, index: number): SharedFile {
+  const extension = blob.type.split('/')[1]?.split('+')[0] || 'bin';
+  return { name: `clipboard-${index + 1}.${extension}`, type: blob.type, data: blob };
+}
+
+const ComposeView: Component<ComposeViewProps> = (props) => {
+  const [error, setError] = createSignal('');
+  const [dragging, setDragging] = createSignal(false);
+  let fileInput: HTMLInputElement | undefined;
+
+  const isEmpty = () =>
+    !props.share.title && !props.share.text && !props.share.url && props.share.files.length === 0;
+
+  const addFiles = (files: SharedFile[]) => {
+    if (files.length > 0) props.onChange({ ...props.share, files: [...props.share.files, ...files] });
+  };
+
+  // A link fills an empty URL field; other text is appended to the text
+  const addText = (value: string) => {
+    const fields = fieldsFromText(value);
+    if (!fields) return;
+    if (fields.url && !props.share.url) {
+      props.onChange({ ...props.share, url: fields.url });
+    } else {
+      const text = fields.url || fields.text;
+      props.onChange({ ...props.share, text: props.share.text ? `${props.share.text}\n${text}` : text });
+    }
+  };
+
+  const readClipboard = async () => {
+    setError('');
+    try {
+      // Firefox and older browsers only offer text
+      if (!navigator.clipboard.read) {
+        addText(await navigator.clipboard.readText());
+        return;
+      }
+      const files: SharedFile[] = [];
+      let text = '';
+      for (const item of await navigator.clipboard.read()) {
+        const image = item.types.find((type) => type.startsWith('image/'));
+        if (image) {
+          files.push(clipboardFile(await item.getType(image), props.share.files.length + files.length));
+        } else if (item.types.includes('text/plain') && !text) {
+          text = await (await item.getType('text/plain')).text();
+        }
+      }
+      addFiles(files);
+      addText(text);
+      if (files.length === 0 && !text.trim()) setError('The clipboard has no text or images');
+    } catch (e) {
+      const denied = e instanceof DOMException && e.name === 'NotAllowedError';
+      setError(denied ? 'Clipboard access was denied' : `Could not read the clipboard: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const handleDrop = (event: DragEvent) => {
+    event.preventDefault();
+    setDragging(false);
+    const transfer = event.dataTransfer;
+    if (!transfer) return;
+    if (transfer.files.length > 0) {
+      addFiles(Array.from(transfer.files).map(toSharedFile));
+    } else {
+      // uri-list allows comment lines starting with #
+      const link = transfer.getData('text/uri-list').split(/\r?\n/).find((line) => line && !line.startsWith('#'));
+      addText(link || transfer.getData('text/plain'));
+    }
+  };
+
+  // Pasted files land in the draft; pasted text goes wherever the cursor is
+  const handlePaste = (event: ClipboardEvent) => {
+    const files = Array.from(event.clipboardData?.files || []);
+    if (files.length === 0) return;
+    event.preventDefault();
+    addFiles(files.map(toSharedFile));
+  };
+
+  return (
+    <div class={styles.shareCard} onPaste={handlePaste}>
+      <h3>Compose</h3>
+      <p class={styles.hint}>
+        Type or paste something to relay, or drop files here. It goes through the same routing,
+        history and retries as a shared item.
+      </p>
+
+      <div class={styles.buttonRow}>
+        <button class={`${styles.button} ${styles.buttonSecondary}`} onClick={readClipboard}>
+          Paste from clipboard
+        </button>
+        <button class={`${styles.button} ${styles.buttonSecondary}`} onClick={() => fileInput?.click()}>
+          Add files
+        </button>
+      </div>
+      <input
+        ref={fileInput}
+        type="file"
+        multiple
+        hidden
+        onChange={(e) => {
+          addFiles(Array.from(e.currentTarget.files || []).map(toSharedFile));
+          e.currentTarget.value = '';
+        }}
+      />
+      <Show when={error()}>
+        <p class={`${styles.hint} ${styles.hintError}`}>{error()}</p>
+      </Show>
+
+      <div
+        class={`${styles.dropZone} ${dragging() ? styles.dropZoneActive : ''}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragging(false);
+        }}
+        onDrop={handleDrop}
+      >
+        <ShareEditor share={props.share} onChange={props.onChange} />
+      </div>
+
+      <Show when={props.hasDestinations && !isEmpty() && props.destinations.length === 0}>
+        <div class={`${styles.statusMessage} ${styles.statusError}`}>
+          No destination matches this share. Add a routing rule or a default destination.
+        </div>
+      </Show>
+
+      <div class={styles.buttonRow}>
+        <button
+          class={styles.button}
+          onClick={() => props.onRelay()}
+          disabled={isEmpty() || props.destinations.length === 0}
+        >
+          Relay to{' '}
+          {props.destinations.length > 0
+            ? props.destinations.map(getDestinationLabel).join(', ')
+            : 'API'}
+        </button>
+        <button
+          class={`${styles.button} ${styles.buttonSecondary}`}
+          onClick={() => props.onClear()}
+          disabled={isEmpty()}
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ComposeView;
@@ -0,0 +1,152 @@
+import { Component, createResource, createSignal, For, Show } from 'solid-js';
+import qrcode from 'qrcode-generator';
+import styles from '../App.module.css';
+import type { RelayConfig } from '../lib/storage';
+import { buildProvisionLink, configProblems, exportConfig, parseConfigText, restoreSecrets } from '../lib/config';
+import { downloadFile } from '../lib/files';
+
+interface ConfigTransferProps {
+  config: RelayConfig;
+  onImport: (config: RelayConfig) => void;
+}
+
+const EXPORT_FILE_NAME = 'webshare-relay-config.json';
+
+// SVG markup of a QR code, or null when the text doesn't fit in one
+function renderQrCode(text: string): string | null {
+  try {
+    const qr = qrcode(0, 'L');
+    qr.addData(text);
+    qr.make();
+    return qr.createSvgTag({ cellSize: 4, margin: 4, scalable: true });
+  } catch {
+    return null;
+  }
+}
+
+const ConfigTransfer: Component<ConfigTransferProps> = (props) => {
+  const [includeSecrets, setIncludeSecrets] = createSignal(false);
+  const [showLink, setShowLink] = createSignal(false);
+  const [problems, setProblems] = createSignal<string[]>([]);
+  const [message, setMessage] = createSignal('');
+  let fileInput: HTMLInputElement | undefined;
+
+  const exported = () => exportConfig(props.config, { includeSecrets: includeSecrets() });
+
+  const appUrl = () => new URL(import.meta.env.BASE_URL, window.location.origin).toString();
+
+  // Rebuilt whenever the config being edited changes
+  const [link] = createResource(
+    () => showLink() && exported(),
+    (config) => buildProvisionLink(config, appUrl())
+  );
+  const qrCode = () => (link() ? renderQrCode(link()!) : null);
+
+  const handleExport = () => {
+    downloadFile(JSON.stringify(exported(), null, 2), EXPORT_FILE_NAME);
+  };
+
+  const handleImport = async (file: File) => {
+    setProblems([]);
+    setMessage('');
+    try {
+      const imported = restoreSecrets(parseConfigText(await file.text()), props.config);
+      props.onImport(imported);
+      setMessage(`Imported ${imported.destinations.length} destination(s) from ${file.name}`);
+    } catch (e) {
+      setProblems(configProblems(e));
+    }
+  };
+
+  return (
+    <div class={styles.section}>
+      <div class={styles.sectionHeader}>
+        <h2>Backup & Provisioning</h2>
+      </div>
+
+      <div class={styles.checkboxGroup}>
+        <input
+          id="config-include-secrets"
+          type="checkbox"
+          class={styles.checkbox}
+          checked={includeSecrets()}
+          onChange={(e) => setIncludeSecrets(e.currentTarget.checked)}
+        />
+        <label for="config-include-secrets">Include secrets</label>
+      </div>
+      <p class={styles.hint}>
+        {includeSecrets()
+          ? 'Tokens, passwords and keys are included: anyone with the file, link or QR code can use them.'
+          : 'Tokens, passwords and keys are left out. Importing keeps the ones already set for the same destinations on the same host. URLs are always included, so tokens inside webhook URLs travel with them.'}
+      </p>
+
+      <div class={styles.buttonRow}>
+        <button class={`${styles.button} ${styles.buttonSecondary}`} onClick={handleExport}>
+          Export file
+        </button>
+        <button class={`${styles.button} ${styles.buttonSecondary}`} onClick={() => fileInput?.click()}>
+          Import file
+        </button>
+        <button class={`${styles.button} ${styles.buttonSecondary}`} onClick={() => setShowLink(!showLink())}>
+          {showLink() ? 'Hide link' : 'Provisioning link'}
+        </button>
+      </div>
+      <input
+        ref={fileInput}
+        type="file"
+        accept=".json,application/json"
+        hidden
+        onChange={(e) => {
+          const file = e.currentTarget.files?.[0];
+          e.currentTarget.value = '';
+          if (file) handleImport(file);
+        }}
+      />
+
+      <Show when={message()}>
+        <p class={styles.hint}>{message()} — review it and save the configuration.</p>
+      </Show>
+      <Show when={problems().length > 0}>
+        <div class={`${styles.statusMessage} ${styles.statusError}`}>
+          The file was not imported:
+          <ul class={styles.problemList}>
+            <For each={problems()}>{(problem) => <li>{problem}</li>}</For>
+          </ul>
+        </div>
+      </Show>
+
+      <Show when={showLink()}>
+        <Show when={link()} fallback={<p class={styles.hint}>{link.error ? link.error.message : 'Building link...'}</p>}>
+          {(url) => (
+            <>
+              <div class={styles.buttonRow}>
+                <input class={styles.input} readOnly value={url()} onFocus={(e) => e.currentTarget.select()} />
+                <button
+                  class={`${styles.button} ${styles.buttonSecondary} ${styles.buttonSmall}`}
+                  onClick={() => navigator.clipboard.writeText(url())}
+                >
+                  Copy
+                </button>
+              </div>
+              <Show
+                when={qrCode()}
+                fallback={
+                  <p class={styles.hint}>
+                    The config is too large for a QR code; share the link instead.
+                  </p>
+                }
+              >
+                {(svg) => <div class={styles.qrCode} innerHTML={svg()} />}
+              </Show>
+              <p class={styles.hint}>
+                Opening the link on another device offers to load this configuration there.
+              </p>
+            </>
+          )}
+        </Show>
+      </Show>
+    </div>
+  );
+};
+
+export default ConfigTransfer;
@@ -0,0 +1,70 @@
+import { Component, createSignal, Show } from 'solid-js';
+import styles from '../App.module.css';
+import { buildBookmarklet, PROTOCOL_PARAM, RELAY_PROTOCOL, SHARE_PATH } from '../lib/shareLinks';
+
+const DesktopSharing: Component = () => {
+  const appUrl = new URL(import.meta.env.BASE_URL, window.location.origin).toString();
+  const shareUrl = new URL(SHARE_PATH.slice(1), appUrl).toString();
+  const [registered, setRegistered] = createSignal(false);
+
+  // For browsers that don't read protocol handlers from the manifest
+  const registerProtocol = () => {
+    navigator.registerProtocolHandler(RELAY_PROTOCOL, `${shareUrl}?${PROTOCOL_PARAM}=%s`);
+    setRegistered(true);
+  };
+
+  return (
+    <div class={styles.section}>
+      <div class={styles.sectionHeader}>
+        <h2>Share from Desktop</h2>
+      </div>
+      <p class={styles.hint}>
+        Browsers without share target support can still send shares here. They land in the Share
+        tab and the history like any other share.
+      </p>
+
+      <div class={styles.inputGroup}>
+        <label>Bookmarklet</label>
+        <a
+          class={`${styles.button} ${styles.buttonSecondary} ${styles.bookmarklet}`}
+          href={buildBookmarklet(appUrl)}
+          onClick={(e) => e.preventDefault()}
+        >
+          Relay this page
+        </a>
+        <p class={styles.hint}>
+          Drag it to the bookmarks bar. It sends the page title, its URL and any selected text.
+        </p>
+      </div>
+
+      <div class={styles.inputGroup}>
+        <label for="share-link-format">Share link</label>
+        <input
+          id="share-link-format"
+          class={`${styles.input} ${styles.codeInput}`}
+          readOnly
+          value={`${shareUrl}?title=…&text=…&url=…`}
+        />
+      </div>
+
+      <div class={styles.inputGroup}>
+        <label>{RELAY_PROTOCOL}: links</label>
+        <p class={styles.hint}>
+          Links like {RELAY_PROTOCOL}:https://example.com open this app with the link as a share.
+          Installed apps handle them once the browser asks; otherwise register them here.
+        </p>
+        <Show when={'registerProtocolHandler' in navigator}>
+          <button
+            class={`${styles.button} ${styles.buttonSecondary} ${styles.buttonSmall}`}
+            disabled={registered()}
+            onClick={registerProtocol}
+          >
+            {registered() ? 'Registered' : `Register ${RELAY_PROTOCOL}: links`}
+          </button>
+        </Show>
+      </div>
+    </div>
+  );
+};
+
+export default DesktopSharing;
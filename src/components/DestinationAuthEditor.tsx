@@ -0,0 +1,129 @@
+import { Component, Index, Show } from 'solid-js';
+import styles from '../App.module.css';
+import type { CustomHeader, Destination, DestinationAuth } from '../lib/storage';
+
+interface DestinationAuthEditorProps {
+  id: string;
+  destination: Destination;
+  onChange: (changes: Partial<Destination>) => void;
+}
+
+const DestinationAuthEditor: Component<DestinationAuthEditorProps> = (props) => {
+  const updateAuth = (changes: Partial<DestinationAuth>) => {
+    props.onChange({ auth: { ...props.destination.auth, ...changes } });
+  };
+
+  const updateHeader = (index: number, changes: Partial<CustomHeader>) => {
+    const headers = [...props.destination.headers];
+    headers[index] = { ...headers[index], ...changes };
+    props.onChange({ headers });
+  };
+
+  const removeHeader = (index: number) => {
+    props.onChange({ headers: props.destination.headers.filter((_, i) => i !== index) });
+  };
+
+  const addHeader = () => {
+    props.onChange({ headers: [...props.destination.headers, { name: '', value: '' }] });
+  };
+
+  return (
+    <details class={styles.details}>
+      <summary>Authentication</summary>
+
+      <div class={styles.inputGroup}>
+        <label for={`${props.id}-auth-type`}>Auth type</label>
+        <select
+          id={`${props.id}-auth-type`}
+          class={styles.input}
+          value={props.destination.auth.type}
+          onChange={(e) => updateAuth({ type: e.currentTarget.value as DestinationAuth['type'] })}
+        >
+          <option value="none">None</option>
+          <option value="bearer">Bearer token</option>
+          <option value="basic">Basic auth</option>
+        </select>
+      </div>
+
+      <Show when={props.destination.auth.type === 'bearer'}>
+        <input
+          type="password"
+          class={styles.input}
+          placeholder="Token"
+          autocomplete="off"
+          value={props.destination.auth.token}
+          onInput={(e) => updateAuth({ token: e.currentTarget.value })}
+        />
+      </Show>
+
+      <Show when={props.destination.auth.type === 'basic'}>
+        <div class={styles.inputRow}>
+          <input
+            type="text"
+            class={styles.input}
+            placeholder="Username"
+            autocomplete="off"
+            value={props.destination.auth.username}
+            onInput={(e) => updateAuth({ username: e.currentTarget.value })}
+          />
+          <input
+            type="password"
+            class={styles.input}
+            placeholder="Password"
+            autocomplete="off"
+            value={props.destination.auth.password}
+            onInput={(e) => updateAuth({ password: e.currentTarget.value })}
+          />
+        </div>
+      </Show>
+
+      <div class={styles.inputGroup}>
+        <label for={`${props.id}-hmac`}>HMAC-SHA256 signing secret</label>
+        <input
+          id={`${props.id}-hmac`}
+          type="password"
+          class={styles.input}
+          placeholder="Leave empty to disable signing"
+          autocomplete="off"
+          value={props.destination.hmacSecret}
+          onInput={(e) => props.onChange({ hmacSecret: e.currentTarget.value })}
+        />
+      </div>
+
+      <div class={styles.sectionHeader}>
+        <div class={styles.shareLabel}>Custom headers</div>
+        <button class={`${styles.button} ${styles.buttonSecondary} ${styles.buttonSmall}`} onClick={addHeader}>
+          Add header
+        </button>
+      </div>
+      <Index each={props.destination.headers}>
+        {(header, index) => (
+          <div class={styles.inputRow}>
+            <input
+              type="text"
+              class={styles.input}
+              placeholder="X-Api-Key"
+              value={header().name}
+              onInput={(e) => updateHeader(index, { name: e.currentTarget.value })}
+            />
+            <input
+              type="text"
+              class={styles.input}
+              placeholder="Value"
+              value={header().value}
+              onInput={(e) => updateHeader(index, { value: e.currentTarget.value })}
+            />
+            <button
+              class={`${styles.button} ${styles.buttonDanger} ${styles.buttonSmall}`}
+              onClick={() => removeHeader(index)}
+            >
+              ✕
+            </button>
+          </div>
+        )}
+      </Index>
+    </details>
+  );
+};
+
+export default DestinationAuthEditor;
@@ -0,0 +1,79 @@
+import { Component, createSignal, For, Show } from 'solid-js';
+import styles from '../App.module.css';
+import type { Destination } from '../lib/storage';
+import { testDestination, type CheckResult, type DestinationDiagnosis } from '../lib/diagnostics';
+import { FAILURE_LABELS } from '../lib/failures';
+import { truncate } from '../lib/format';
+
+interface DestinationTestProps {
+  destination: Destination;
+}
+
+const RESULT_MARKS: Record<CheckResult, string> = {
+  pass: '✓',
+  warn: '!',
+  fail: '✗',
+  skipped: '–',
+};
+
+const RESULT_CLASSES: Record<CheckResult, string> = {
+  pass: styles.checkPass,
+  warn: styles.checkWarn,
+  fail: styles.checkFail,
+  skipped: styles.checkSkipped,
+};
+
+const DestinationTest: Component<DestinationTestProps> = (props) => {
+  const [testing, setTesting] = createSignal(false);
+  const [diagnosis, setDiagnosis] = createSignal<DestinationDiagnosis | null>(null);
+
+  const run = async () => {
+    setTesting(true);
+    setDiagnosis(null);
+    try {
+      setDiagnosis(await testDestination(props.destination));
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        class={`${styles.button} ${styles.buttonSecondary} ${styles.buttonSmall}`}
+        disabled={testing() || !props.destination.url}
+        onClick={run}
+      >
+        {testing() ? 'Testing...' : 'Test destination'}
+      </button>
+      <Show when={diagnosis()}>
+        {(diagnosis) => (
+          <div class={styles.diagnosis}>
+            <div
+              class={`${styles.statusMessage} ${diagnosis().ok ? styles.statusSuccess : styles.statusError}`}
+            >
+              {diagnosis().ok
+                ? 'Test share delivered'
+                : `${FAILURE_LABELS[diagnosis().category!]}: ${diagnosis().error || 'test failed'}`}
+            </div>
+            <ul class={styles.checkList}>
+              <For each={diagnosis().checks}>
+                {(check) => (
+                  <li class={RESULT_CLASSES[check.result]}>
+                    <span>{RESULT_MARKS[check.result]}</span>
+                    <strong>{check.name}</strong> {check.detail}
+                  </li>
+                )}
+              </For>
+            </ul>
+            <Show when={diagnosis().response}>
+              <p class={styles.hint}>Response: {truncate(diagnosis().response!, 150)}</p>
+            </Show>
+          </div>
+        )}
+      </Show>
+    </>
+  );
+};
+
+export default DestinationTest;
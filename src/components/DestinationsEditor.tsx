@@ -0,0 +1,239 @@
+import { Component, Index, Show } from 'solid-js';
+import styles from '../App.module.css';
+import {
+  createDestination,
+  type AdapterType,
+  type Destination,
+  type DestinationAdapter,
+  type RelayFormat,
+} from '../lib/storage';
+import { ADAPTERS, getAdapter } from '../lib/adapters';
+import { payloadSchemaUrl, type PayloadSchema } from '../lib/payloadSchema';
+import BatchDeliveryEditor from './BatchDeliveryEditor';
+import ChunkedUploadsEditor from './ChunkedUploadsEditor';
+import DestinationAuthEditor from './DestinationAuthEditor';
+import DestinationTest from './DestinationTest';
+import EncryptionEditor from './EncryptionEditor';
+import ImageOptionsEditor from './ImageOptionsEditor';
+import ResponseActionsEditor from './ResponseActionsEditor';
+import TemplateEditor from './TemplateEditor';
+
+interface DestinationsEditorProps {
+  destinations: Destination[];
+  onChange: (destinations: Destination[]) => void;
+}
+
+const DestinationsEditor: Component<DestinationsEditorProps> = (props) => {
+  const schemaUrl = payloadSchemaUrl();
+
+  const update = (index: number, changes: Partial<Destination>) => {
+    const next = [...props.destinations];
+    next[index] = { ...next[index], ...changes };
+    props.onChange(next);
+  };
+
+  const updateAdapter = (index: number, changes: Partial<DestinationAdapter>) => {
+    const destination = props.destinations[index];
+    const adapter = { ...destination.adapter, ...changes };
+    const defaultUrl = getAdapter(adapter.type)?.defaultUrl;
+    // Only generic webhooks can carry encrypted bodies, so other services start out unencrypted
+    const encryption =
+      adapter.type === 'generic' ? destination.encryption : { ...destination.encryption, mode: 'none' as const };
+    update(index, { adapter, url: destination.url || defaultUrl || '', encryption });
+  };
+
+  const remove = (index: number) => {
+    props.onChange(props.destinations.filter((_, i) => i !== index));
+  };
+
+  const add = () => {
+    props.onChange([...props.destinations, createDestination()]);
+  };
+
+  return (
+    <div class={styles.section}>
+      <div class={styles.sectionHeader}>
+        <h2>Destinations</h2>
+        <button class={`${styles.button} ${styles.buttonSmall}`} onClick={add}>
+          Add
+        </button>
+      </div>
+
+      <Show when={props.destinations.length === 0}>
+        <p class={styles.hint}>Add a destination to start relaying shares.</p>
+      </Show>
+
+      <Index each={props.destinations}>
+        {(destination, index) => (
+          <div class={styles.card}>
+            <div class={styles.inputGroup}>
+              <label for={`destination-name-${index}`}>Name</label>
+              <input
+                id={`destination-name-${index}`}
+                type="text"
+                class={styles.input}
+                placeholder="Bookmarks"
+                value={destination().name}
+                onInput={(e) => update(index, { name: e.currentTarget.value })}
+              />
+            </div>
+            <div class={styles.inputGroup}>
+              <label for={`destination-service-${index}`}>Service</label>
+              <select
+                id={`destination-service-${index}`}
+                class={styles.input}
+                value={destination().adapter.type}
+                onChange={(e) => updateAdapter(index, { type: e.currentTarget.value as AdapterType })}
+              >
+                <option value="generic">Generic webhook</option>
+                {Object.entries(ADAPTERS).map(([type, adapter]) => (
+                  <option value={type}>{adapter.label}</option>
+                ))}
+              </select>
+            </div>
+            <div class={styles.inputGroup}>
+              <label for={`destination-url-${index}`}>
+                {getAdapter(destination().adapter.type)?.urlLabel ?? 'Relay URL'}
+              </label>
+              <input
+                id={`destination-url-${index}`}
+                type="url"
+                class={styles.input}
+                placeholder={
+                  getAdapter(destination().adapter.type)?.urlPlaceholder ?? 'https://your-api.com/webhook'
+                }
+                value={destination().url}
+                onInput={(e) => update(index, { url: e.currentTarget.value })}
+              />
+            </div>
+            <Show when={getAdapter(destination().adapter.type)?.tokenLabel}>
+              {(label) => (
+                <div class={styles.inputGroup}>
+                  <label for={`destination-token-${index}`}>{label()}</label>
+                  <input
+                    id={`destination-token-${index}`}
+                    type="password"
+                    class={styles.input}
+                    autocomplete="off"
+                    value={destination().adapter.token}
+                    onInput={(e) => updateAdapter(index, { token: e.currentTarget.value })}
+                  />
+                </div>
+              )}
+            </Show>
+            <Show when={getAdapter(destination().adapter.type)?.targetLabel}>
+              {(label) => (
+                <div class={styles.inputGroup}>
+                  <label for={`destination-target-${index}`}>{label()}</label>
+                  <input
+                    id={`destination-target-${index}`}
+                    type="text"
+                    class={styles.input}
+                    value={destination().adapter.target}
+                    onInput={(e) => updateAdapter(index, { target: e.currentTarget.value })}
+                  />
+                </div>
+              )}
+            </Show>
+            <Show when={destination().adapter.type === 'generic'}>
+              <div class={styles.inputGroup}>
+                <label for={`destination-format-${index}`}>Body format</label>
+                <select
+                  id={`destination-format-${index}`}
+                  class={styles.input}
+                  value={destination().format}
+                  onChange={(e) => update(index, { format: e.currentTarget.value as RelayFormat })}
+                >
+                  <option value="json">JSON with base64 files</option>
+                  <option value="multipart">multipart/form-data (binary files)</option>
+                  <option value="template">Custom template</option>
+                </select>
+              </div>
+              <Show when={destination().format === 'json'}>
+                <div class={styles.inputGroup}>
+                  <label for={`destination-payload-${index}`}>Payload version</label>
+                  <select
+                    id={`destination-payload-${index}`}
+                    class={styles.input}
+                    value={destination().payloadSchema}
+                    onChange={(e) => update(index, { payloadSchema: e.currentTarget.value as PayloadSchema })}
+                  >
+                    <option value="v1">v1: share fields only</option>
+                    <option value="v2">v2: versioned, with metadata and file hashes</option>
+                  </select>
+                  <Show when={destination().payloadSchema === 'v2'}>
+                    <p class={styles.hint}>
+                      Bodies follow the JSON Schema at{' '}
+                      <a href={schemaUrl} target="_blank" rel="noopener">
+                        {schemaUrl}
+                      </a>
+                    </p>
+                  </Show>
+                </div>
+                <BatchDeliveryEditor
+                  id={`destination-${index}`}
+                  batching={destination().batching}
+                  onChange={(batching) => update(index, { batching })}
+                />
+              </Show>
+              <Show when={destination().format === 'template'}>
+                <TemplateEditor
+                  id={`destination-${index}`}
+                  template={destination().template}
+                  onChange={(template) => update(index, { template })}
+                />
+              </Show>
+              <ChunkedUploadsEditor
+                id={`destination-${index}`}
+                uploads={destination().uploads}
+                onChange={(uploads) => update(index, { uploads })}
+              />
+              <EncryptionEditor
+                id={`destination-${index}`}
+                encryption={destination().encryption}
+                uploadsEnabled={destination().uploads.enabled}
+                onChange={(encryption) => update(index, { encryption })}
+              />
+              <ResponseActionsEditor
+                id={`destination-${index}`}
+                settings={destination().responseActions}
+                onChange={(responseActions) => update(index, { responseActions })}
+              />
+            </Show>
+            <DestinationAuthEditor
+              id={`destination-${index}`}
+              destination={destination()}
+              onChange={(changes) => update(index, changes)}
+            />
+            <ImageOptionsEditor
+              id={`destination-${index}`}
+              options={destination().images}
+              onChange={(images) => update(index, { images })}
+            />
+            <div class={styles.checkboxGroup}>
+              <input
+                id={`destination-default-${index}`}
+                type="checkbox"
+                class={styles.checkbox}
+                checked={destination().isDefault}
+                onChange={(e) => update(index, { isDefault: e.currentTarget.checked })}
+              />
+              <label for={`destination-default-${index}`}>
+                Default (receives shares no rule matches)
+              </label>
+            </div>
+            <DestinationTest destination={destination()} />
+            <button
+              class={`${styles.button} ${styles.buttonDanger} ${styles.buttonSmall}`}
+              onClick={() => remove(index)}
+            >
+              Remove
+            </button>
+          </div>
+        )}
+      </Index>
+    </div>
+  );
+};
+
+export default DestinationsEditor;
@@ -0,0 +1,52 @@
+import { Component, createResource, For, Show } from 'solid-js';
+import styles from '../App.module.css';
+import type { ShareData } from '../lib/storage';
+import { classifyShare, parseShareDetails, SHARE_KINDS } from '../lib/classify';
+
+interface DetectedContentProps {
+  share: ShareData;
+}
+
+function joinParts(parts: Array<string | undefined>): string {
+  return parts.filter(Boolean).join(' · ');
+}
+
+// The kind and structured fields the relay will send, as routing rules see them
+const DetectedContent: Component<DetectedContentProps> = (props) => {
+  const kind = () => SHARE_KINDS.find((item) => item.kind === classifyShare(props.share))?.label;
+  const [details] = createResource(() => props.share, parseShareDetails);
+
+  return (
+    <div class={styles.shareField}>
+      <div class={styles.shareLabel}>Detected</div>
+      <div class={styles.shareValue}>{kind()}</div>
+      <Show when={details()?.location}>
+        {(location) => (
+          <div class={styles.fileType}>
+            {joinParts([`${location().lat}, ${location().lon}`, location().label])}
+          </div>
+        )}
+      </Show>
+      <For each={details()?.contacts}>
+        {(contact) => (
+          <div class={styles.fileType}>
+            {joinParts([contact.name, contact.organization, ...contact.phones, ...contact.emails])}
+          </div>
+        )}
+      </For>
+      <For each={details()?.events}>
+        {(event) => (
+          <div class={styles.fileType}>
+            {joinParts([
+              event.summary,
+              event.start && (event.end ? `${event.start} – ${event.end}` : event.start),
+              event.location,
+            ])}
+          </div>
+        )}
+      </For>
+    </div>
+  );
+};
+
+export default DetectedContent;
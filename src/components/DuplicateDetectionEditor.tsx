@@ -0,0 +1,37 @@
+import { Component } from 'solid-js';
+import styles from '../App.module.css';
+import type { DuplicateDetection } from '../lib/duplicates';
+
+interface DuplicateDetectionEditorProps {
+  detection: DuplicateDetection;
+  onChange: (detection: DuplicateDetection) => void;
+}
+
+const DuplicateDetectionEditor: Component<DuplicateDetectionEditorProps> = (props) => (
+  <div class={styles.section}>
+    <div class={styles.sectionHeader}>
+      <h2>Duplicates</h2>
+    </div>
+    <p class={styles.hint}>
+      A share with the same link, text and files as one received within this window waits for
+      confirmation instead of being relayed, even when a policy would relay it automatically. Use 0
+      to turn this off.
+    </p>
+    <div class={styles.inputGroup}>
+      <label for="duplicates-window">Window (minutes)</label>
+      <input
+        id="duplicates-window"
+        type="number"
+        min="0"
+        class={styles.input}
+        value={props.detection.windowMinutes}
+        onChange={(e) => {
+          const value = e.currentTarget.valueAsNumber;
+          props.onChange({ ...props.detection, windowMinutes: Number.isFinite(value) ? Math.max(0, value) : 0 });
+        }}
+      />
+    </div>
+  </div>
+);
+
+export default DuplicateDetectionEditor;
@@ -0,0 +1,89 @@
+import { Component, Show } from 'solid-js';
+import styles from '../App.module.css';
+import { detectKeyAgreement, type EncryptionMode, type EncryptionSettings } from '../lib/encryption';
+
+interface EncryptionEditorProps {
+  id: string;
+  encryption: EncryptionSettings;
+  // Chunked uploads send files outside the encrypted body
+  uploadsEnabled: boolean;
+  onChange: (encryption: EncryptionSettings) => void;
+}
+
+const KEY_LABELS = { x25519: 'X25519 key', p256: 'P-256 key' };
+
+const EncryptionEditor: Component<EncryptionEditorProps> = (props) => {
+  const update = (changes: Partial<EncryptionSettings>) => {
+    props.onChange({ ...props.encryption, ...changes });
+  };
+
+  const keyAgreement = () => detectKeyAgreement(props.encryption.publicKey);
+
+  return (
+    <details class={styles.details}>
+      <summary>Encryption</summary>
+
+      <div class={styles.inputGroup}>
+        <label for={`${props.id}-encryption-mode`}>Mode</label>
+        <select
+          id={`${props.id}-encryption-mode`}
+          class={styles.input}
+          value={props.encryption.mode}
+          onChange={(e) => update({ mode: e.currentTarget.value as EncryptionMode })}
+        >
+          <option value="none">Off</option>
+          <option value="passphrase">Passphrase</option>
+          <option value="publicKey">Receiver's public key</option>
+        </select>
+      </div>
+
+      <Show when={props.encryption.mode === 'passphrase'}>
+        <div class={styles.inputGroup}>
+          <label for={`${props.id}-encryption-passphrase`}>Passphrase</label>
+          <input
+            id={`${props.id}-encryption-passphrase`}
+            type="password"
+            class={styles.input}
+            autocomplete="off"
+            value={props.encryption.passphrase}
+            onInput={(e) => update({ passphrase: e.currentTarget.value })}
+          />
+        </div>
+      </Show>
+
+      <Show when={props.encryption.mode === 'publicKey'}>
+        <div class={styles.inputGroup}>
+          <label for={`${props.id}-encryption-key`}>
+            Public key (base64){keyAgreement() ? ` · ${KEY_LABELS[keyAgreement()!]}` : ''}
+          </label>
+          <textarea
+            id={`${props.id}-encryption-key`}
+            class={`${styles.input} ${styles.codeInput}`}
+            rows={2}
+            value={props.encryption.publicKey}
+            onInput={(e) => update({ publicKey: e.currentTarget.value })}
+          />
+        </div>
+        <Show when={props.encryption.publicKey.trim() && !keyAgreement()}>
+          <p class={`${styles.hint} ${styles.hintError}`}>
+            Expected a raw X25519 (32 bytes) or uncompressed P-256 (65 bytes) key.
+          </p>
+        </Show>
+      </Show>
+
+      <Show when={props.encryption.mode !== 'none'}>
+        <p class={styles.hint}>
+          The request body is sent as an encrypted envelope that only the receiver can open.
+          Headers and the URL stay readable.
+        </p>
+        <Show when={props.uploadsEnabled}>
+          <p class={`${styles.hint} ${styles.hintError}`}>
+            Chunked uploads can't be encrypted; relays fail until one of them is off.
+          </p>
+        </Show>
+      </Show>
+    </details>
+  );
+};
+
+export default EncryptionEditor;
@@ -0,0 +1,262 @@
+import { Component, createSignal, For, Show } from 'solid-js';
+import styles from '../App.module.css';
+import { getArchivedShare, type LogEntry } from '../lib/history';
+import type { HttpExchange } from '../lib/http';
+import { getDestinationLabel, type Destination, type ShareData } from '../lib/storage';
+import { formatBytes, formatTime, truncate } from '../lib/format';
+import { downloadFile } from '../lib/files';
+import { FAILURE_HINTS, FAILURE_LABELS } from '../lib/failures';
+import { shortBatchId } from '../lib/batches';
+import ShareEditor from './ShareEditor';
+
+interface HistoryEntryProps {
+  entry: LogEntry;
+  // Configured destinations the share can be sent to again
+  destinations: Destination[];
+  onResend: (share: ShareData, destination: Destination) => Promise<void>;
+  onDuplicate: (share: ShareData) => Promise<void>;
+}
+
+// Text bodies larger than this are cut in the preview; the download has everything
+const MAX_BODY_PREVIEW = 4000;
+
+const STATUS_CLASSES: Record<LogEntry['status'], [string, string]> = {
+  success: [styles.logEntrySuccess, styles.logStatusSuccess],
+  error: [styles.logEntryError, styles.logStatusError],
+  pending: [styles.logEntryPending, styles.logStatusPending],
+  queued: [styles.logEntryQueued, styles.logStatusQueued],
+  batched: [styles.logEntryBatched, styles.logStatusBatched],
+};
+
+function formatHeaders(headers: Record<string, string> = {}): string {
+  return Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n');
+}
+
+const BodyPreview: Component<{ body: string | Blob | null | undefined; name: string }> = (props) => (
+  <Show when={props.body} fallback={<p class={styles.hint}>No body</p>}>
+    {(body) => (
+      <>
+        <Show
+          when={typeof body() === 'string' && (body() as string)}
+          fallback={
+            <p class={styles.hint}>
+              {(body() as Blob).type || 'Binary'} · {formatBytes((body() as Blob).size)}
+            </p>
+          }
+        >
+          {(text) => <pre class={styles.preview}>{truncate(text(), MAX_BODY_PREVIEW)}</pre>}
+        </Show>
+        <button
+          class={`${styles.button} ${styles.buttonSecondary} ${styles.buttonSmall}`}
+          onClick={() => downloadFile(body(), props.name)}
+        >
+          Download
+        </button>
+      </>
+    )}
+  </Show>
+);
+
+const ExchangeDetails: Component<{ exchange: HttpExchange; index: number }> = (props) => (
+  <div class={styles.exchange}>
+    <div class={styles.exchangeLine}>
+      {props.exchange.method} {props.exchange.url}
+    </div>
+    <p class={styles.hint}>
+      {props.exchange.status ? `HTTP ${props.exchange.status}` : 'No response'} ·{' '}
+      {props.exchange.duration} ms
+    </p>
+    <div class={styles.shareLabel}>Request headers</div>
+    <pre class={styles.preview}>{formatHeaders(props.exchange.requestHeaders) || '(none)'}</pre>
+    <div class={styles.shareLabel}>Request body</div>
+    <BodyPreview body={props.exchange.requestBody} name={`request-${props.index + 1}`} />
+    <Show when={props.exchange.status}>
+      <div class={styles.shareLabel}>Response headers</div>
+      <pre class={styles.preview}>{formatHeaders(props.exchange.responseHeaders) || '(none exposed)'}</pre>
+      <div class={styles.shareLabel}>Response body</div>
+      <BodyPreview body={props.exchange.responseBody} name={`response-${props.index + 1}`} />
+    </Show>
+  </div>
+);
+
+const HistoryEntry: Component<HistoryEntryProps> = (props) => {
+  const log = () => props.entry;
+  const [targetId, setTargetId] = createSignal(props.entry.destinationId || '');
+  const [draft, setDraft] = createSignal<ShareData | null>(null);
+  const [busy, setBusy] = createSignal(false);
+  const [missing, setMissing] = createSignal(false);
+
+  // Falls back to the first destination when the original one was removed
+  const target = () =>
+    props.destinations.find((destination) => destination.id === targetId()) || props.destinations[0];
+  const canReplay = () =>
+    Boolean(log().shareId) && (log().status === 'success' || log().status === 'error');
+
+  const loadShare = async () => {
+    const share = log().shareId ? await getArchivedShare(log().shareId!) : null;
+    setMissing(!share);
+    return share;
+  };
+
+  const run = async (action: (share: ShareData) => Promise<void>, share?: ShareData) => {
+    setBusy(true);
+    try {
+      const resolved = share || (await loadShare());
+      if (resolved) await action(resolved);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // A resend is asked for on purpose, so it gets its own ID and with it its own Idempotency-Key;
+  // receivers would otherwise drop it as a repeat of the original
+  const resend = (share?: ShareData) =>
+    run(async (resolved) => {
+      const destination = target();
+      if (!destination) return;
+      await props.onResend({ ...resolved, id: crypto.randomUUID() }, destination);
+      setDraft(null);
+    }, share);
+
+  const edit = async () => setDraft(await loadShare());
+
+  // An edited share is new content, so it also counts as shared now
+  const sendDraft = () => resend({ ...draft()!, timestamp: Date.now() });
+
+  return (
+    <div class={`${styles.logEntry} ${STATUS_CLASSES[log().status][0]}`}>
+      <div class={styles.logHeader}>
+        <span class={`${styles.logStatus} ${STATUS_CLASSES[log().status][1]}`}>{log().status}</span>
+        <span class={styles.logTime}>{formatTime(log().timestamp)}</span>
+      </div>
+      <Show when={log().destinationName}>
+        <div class={styles.logDestination}>
+          → {log().destinationName}
+          <Show when={log().httpStatus}> · HTTP {log().httpStatus}</Show>
+          <Show when={log().duration !== undefined && log().exchanges?.length}> · {log().duration} ms</Show>
+          <Show when={(log().attempts || 0) > 1}> · {log().attempts} attempts</Show>
+        </div>
+      </Show>
+      <Show when={log().batchId}>
+        {(batchId) => (
+          <div class={styles.logDestination}>
+            Batch {shortBatchId(batchId())} · {log().batchSize} share{log().batchSize === 1 ? '' : 's'}
+          </div>
+        )}
+      </Show>
+      <div class={styles.logPayload}>
+        <Show when={log().payload.title}>
+          <p><strong>Title:</strong> {truncate(log().payload.title, 50)}</p>
+        </Show>
+        <Show when={log().payload.text}>
+          <p><strong>Text:</strong> {truncate(log().payload.text, 100)}</p>
+        </Show>
+        <Show when={log().payload.url}>
+          <p><strong>URL:</strong> {truncate(log().payload.url, 50)}</p>
+        </Show>
+        <Show when={log().payload.filesCount > 0}>
+          <p><strong>Files:</strong> {log().payload.filesCount}</p>
+        </Show>
+      </div>
+      <Show when={log().error}>
+        <div class={styles.logResponse} style={{ color: '#f87171' }}>
+          <Show when={log().errorCategory} fallback="Error">
+            {(category) => `${FAILURE_LABELS[category()]} error`}
+          </Show>
+          : {log().error}
+          <Show when={log().errorCategory}>
+            {(category) => <p class={styles.hint}>{FAILURE_HINTS[category()]}</p>}
+          </Show>
+        </div>
+      </Show>
+      <Show when={log().response && !log().error}>
+        <div class={styles.logResponse}>
+          Response: {truncate(log().response || '', 150)}
+        </div>
+      </Show>
+      <Show when={canReplay()}>
+        <div class={`${styles.replay} ${styles.logResponse}`}>
+          <Show when={draft()}>
+            {(share) => <ShareEditor share={share()} onChange={setDraft} />}
+          </Show>
+          <Show
+            when={props.destinations.length > 0}
+            fallback={<p class={styles.hint}>Configure a destination to resend this share.</p>}
+          >
+            <select
+              class={styles.input}
+              value={target()?.id}
+              onChange={(e) => setTargetId(e.currentTarget.value)}
+            >
+              <For each={props.destinations}>
+                {(destination) => (
+                  <option value={destination.id}>{getDestinationLabel(destination)}</option>
+                )}
+              </For>
+            </select>
+          </Show>
+          <Show when={missing()}>
+            <p class={styles.hint}>The original share is no longer in the history.</p>
+          </Show>
+          <div class={styles.buttonRow}>
+            <Show
+              when={draft()}
+              fallback={
+                <>
+                  <button
+                    class={`${styles.button} ${styles.buttonSmall}`}
+                    onClick={() => resend()}
+                    disabled={busy() || !target()}
+                  >
+                    Resend
+                  </button>
+                  <button
+                    class={`${styles.button} ${styles.buttonSecondary} ${styles.buttonSmall}`}
+                    onClick={edit}
+                    disabled={busy()}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    class={`${styles.button} ${styles.buttonSecondary} ${styles.buttonSmall}`}
+                    onClick={() => run(props.onDuplicate)}
+                    disabled={busy()}
+                  >
+                    Duplicate
+                  </button>
+                </>
+              }
+            >
+              <button
+                class={`${styles.button} ${styles.buttonSmall}`}
+                onClick={sendDraft}
+                disabled={busy() || !target()}
+              >
+                Send edited
+              </button>
+              <button
+                class={`${styles.button} ${styles.buttonSecondary} ${styles.buttonSmall}`}
+                onClick={() => setDraft(null)}
+                disabled={busy()}
+              >
+                Cancel
+              </button>
+            </Show>
+          </div>
+        </div>
+      </Show>
+      <Show when={log().exchanges?.length}>
+        <details class={`${styles.details} ${styles.logResponse}`}>
+          <summary>Requests ({log().exchanges!.length})</summary>
+          <For each={log().exchanges}>
+            {(exchange, index) => <ExchangeDetails exchange={exchange} index={index()} />}
+          </For>
+        </details>
+      </Show>
+    </div>
+  );
+};
+
+export default HistoryEntry;
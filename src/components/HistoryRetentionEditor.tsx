@@ -0,0 +1,48 @@
+import { Component } from 'solid-js';
+import styles from '../App.module.css';
+import type { HistoryRetention } from '../lib/storage';
+
+interface HistoryRetentionEditorProps {
+  retention: HistoryRetention;
+  onChange: (retention: HistoryRetention) => void;
+}
+
+const FIELDS: Array<{ key: keyof HistoryRetention; label: string }> = [
+  { key: 'maxEntries', label: 'Max entries' },
+  { key: 'maxAgeDays', label: 'Max age (days)' },
+  { key: 'maxSizeMB', label: 'Max size (MB)' },
+];
+
+const HistoryRetentionEditor: Component<HistoryRetentionEditorProps> = (props) => {
+  const update = (key: keyof HistoryRetention, value: number) => {
+    props.onChange({ ...props.retention, [key]: Number.isFinite(value) ? Math.max(0, value) : 0 });
+  };
+
+  return (
+    <div class={styles.section}>
+      <div class={styles.sectionHeader}>
+        <h2>History</h2>
+      </div>
+      <p class={styles.hint}>
+        Older entries are removed once any limit is reached. Use 0 for no limit.
+      </p>
+      <div class={styles.inputRow}>
+        {FIELDS.map((field) => (
+          <div class={styles.inputGroup}>
+            <label for={`retention-${field.key}`}>{field.label}</label>
+            <input
+              id={`retention-${field.key}`}
+              type="number"
+              min="0"
+              class={styles.input}
+              value={props.retention[field.key]}
+              onChange={(e) => update(field.key, e.currentTarget.valueAsNumber)}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryRetentionEditor;
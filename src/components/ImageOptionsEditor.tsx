@@ -0,0 +1,100 @@
+import { Component, Show } from 'solid-js';
+import styles from '../App.module.css';
+import type { ImageFormat, ImageOptions, MetadataMode } from '../lib/images';
+
+interface ImageOptionsEditorProps {
+  id: string;
+  options: ImageOptions;
+  onChange: (options: ImageOptions) => void;
+}
+
+const ImageOptionsEditor: Component<ImageOptionsEditorProps> = (props) => {
+  const update = (changes: Partial<ImageOptions>) => {
+    props.onChange({ ...props.options, ...changes });
+  };
+
+  const reencodes = () => props.options.maxDimension > 0 || props.options.format !== 'original';
+
+  return (
+    <details class={styles.details}>
+      <summary>Images</summary>
+
+      <div class={styles.inputRow}>
+        <div class={styles.inputGroup}>
+          <label for={`${props.id}-max-dimension`}>Max size (px)</label>
+          <input
+            id={`${props.id}-max-dimension`}
+            type="number"
+            min="0"
+            step="100"
+            class={styles.input}
+            placeholder="Original"
+            value={props.options.maxDimension || ''}
+            onChange={(e) => update({ maxDimension: Math.max(0, e.currentTarget.valueAsNumber || 0) })}
+          />
+        </div>
+        <div class={styles.inputGroup}>
+          <label for={`${props.id}-image-format`}>Format</label>
+          <select
+            id={`${props.id}-image-format`}
+            class={styles.input}
+            value={props.options.format}
+            onChange={(e) => update({ format: e.currentTarget.value as ImageFormat })}
+          >
+            <option value="original">Original</option>
+            <option value="jpeg">JPEG</option>
+            <option value="webp">WebP</option>
+          </select>
+        </div>
+      </div>
+
+      <Show when={reencodes()}>
+        <div class={styles.inputGroup}>
+          <label for={`${props.id}-image-quality`}>Quality ({props.options.quality})</label>
+          <input
+            id={`${props.id}-image-quality`}
+            type="range"
+            min="10"
+            max="100"
+            step="5"
+            value={props.options.quality}
+            onInput={(e) => update({ quality: e.currentTarget.valueAsNumber })}
+          />
+        </div>
+      </Show>
+
+      <div class={styles.inputGroup}>
+        <label for={`${props.id}-image-metadata`}>Metadata</label>
+        <select
+          id={`${props.id}-image-metadata`}
+          class={styles.input}
+          value={props.options.metadata}
+          onChange={(e) => update({ metadata: e.currentTarget.value as MetadataMode })}
+        >
+          <option value="location">Remove location</option>
+          <option value="all">Remove all</option>
+          <option value="keep">Keep</option>
+        </select>
+      </div>
+
+      <Show when={props.options.metadata !== 'keep'}>
+        <div class={styles.checkboxGroup}>
+          <input
+            id={`${props.id}-strict-metadata`}
+            type="checkbox"
+            class={styles.checkbox}
+            checked={props.options.strictMetadata}
+            onChange={(e) => update({ strictMetadata: e.currentTarget.checked })}
+          />
+          <label for={`${props.id}-strict-metadata`}>Refuse images whose metadata can't be removed</label>
+        </div>
+      </Show>
+
+      <Show when={reencodes()}>
+        <p class={styles.hint}>Resized or converted images never carry metadata.</p>
+      </Show>
+    </details>
+  );
+};
+
+export default ImageOptionsEditor;
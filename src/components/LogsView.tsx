@@ -0,0 +1,162 @@
+import { Component, createEffect, createMemo, createSignal, For, Show } from 'solid-js';
+import styles from '../App.module.css';
+import {
+  clearHistory,
+  queryHistory,
+  type HistoryPage,
+  type HistoryQuery,
+  type LogStatus,
+} from '../lib/history';
+import type { Destination, ShareData } from '../lib/storage';
+import HistoryEntry from './HistoryEntry';
+
+interface LogsViewProps {
+  // Changes whenever a relay or the outbox wrote to the history
+  version: number;
+  destinations: Destination[];
+  onResend: (share: ShareData, destination: Destination) => Promise<void>;
+  onDuplicate: (share: ShareData) => Promise<void>;
+}
+
+const PAGE_SIZE = 20;
+
+const LogsView: Component<LogsViewProps> = (props) => {
+  const [search, setSearch] = createSignal('');
+  const [status, setStatus] = createSignal<LogStatus | ''>('');
+  const [destinationId, setDestinationId] = createSignal('');
+  const [page, setPage] = createSignal(0);
+  const [reloads, setReloads] = createSignal(0);
+  const [history, setHistory] = createSignal<HistoryPage>({
+    entries: [],
+    total: 0,
+    destinations: [],
+  });
+
+  const query = createMemo<HistoryQuery>(() => ({
+    search: search().trim(),
+    status: status(),
+    destinationId: destinationId(),
+    offset: page() * PAGE_SIZE,
+    limit: PAGE_SIZE,
+  }));
+
+  const pageCount = () => Math.max(1, Math.ceil(history().total / PAGE_SIZE));
+  const isFiltered = () => Boolean(query().search || query().status || query().destinationId);
+
+  createEffect(() => {
+    props.version;
+    reloads();
+    const current = query();
+    queryHistory(current).then((result) => {
+      // Ignore answers to queries the filters have moved past
+      if (query() === current) setHistory(result);
+    });
+  });
+
+  // Any filter change starts over on the first page
+  const applyFilter = (apply: () => void) => {
+    apply();
+    setPage(0);
+  };
+
+  const handleClear = async () => {
+    await clearHistory();
+    setPage(0);
+    setReloads((count) => count + 1);
+  };
+
+  return (
+    <>
+      <div class={styles.logsHeader}>
+        <h2>Forward History</h2>
+        <Show when={history().total > 0 && !isFiltered()}>
+          <button
+            class={`${styles.button} ${styles.buttonDanger}`}
+            style={{ padding: '0.5rem 0.75rem', 'font-size': '0.75rem' }}
+            onClick={handleClear}
+          >
+            Clear
+          </button>
+        </Show>
+      </div>
+
+      <input
+        type="search"
+        class={styles.input}
+        placeholder="Search title, text, URL, response, batch..."
+        value={search()}
+        onInput={(e) => applyFilter(() => setSearch(e.currentTarget.value))}
+      />
+      <div class={styles.inputRow}>
+        <select
+          class={styles.input}
+          value={status()}
+          onChange={(e) => applyFilter(() => setStatus(e.currentTarget.value as LogStatus | ''))}
+        >
+          <option value="">Any status</option>
+          <option value="success">Success</option>
+          <option value="error">Error</option>
+          <option value="queued">Queued</option>
+          <option value="batched">Batched</option>
+          <option value="pending">Pending</option>
+        </select>
+        <select
+          class={styles.input}
+          value={destinationId()}
+          onChange={(e) => applyFilter(() => setDestinationId(e.currentTarget.value))}
+        >
+          <option value="">Any destination</option>
+          <For each={history().destinations}>
+            {(destination) => <option value={destination.id}>{destination.name}</option>}
+          </For>
+        </select>
+      </div>
+
+      <Show
+        when={history().entries.length > 0}
+        fallback={
+          <div class={styles.noLogs}>
+            {isFiltered() ? 'No history entries match' : 'No forwarding history yet'}
+          </div>
+        }
+      >
+        <div class={styles.logsList}>
+          <For each={history().entries}>
+            {(entry) => (
+              <HistoryEntry
+                entry={entry}
+                destinations={props.destinations}
+                onResend={props.onResend}
+                onDuplicate={props.onDuplicate}
+              />
+            )}
+          </For>
+        </div>
+      </Show>
+
+      <Show when={pageCount() > 1}>
+        <div class={styles.pagination}>
+          <button
+            class={`${styles.button} ${styles.buttonSecondary} ${styles.buttonSmall}`}
+            onClick={() => setPage((current) => current - 1)}
+            disabled={page() === 0}
+          >
+            Newer
+          </button>
+          <span class={styles.logTime}>
+            Page {page() + 1} of {pageCount()} · {history().total} entries
+          </span>
+          <button
+            class={`${styles.button} ${styles.buttonSecondary} ${styles.buttonSmall}`}
+            onClick={() => setPage((current) => current + 1)}
+            disabled={page() + 1 >= pageCount()}
+          >
+            Older
+          </button>
+        </div>
+      </Show>
+    </>
+  );
+};
+
+export default LogsView;
@@ -0,0 +1,164 @@
+import { Component, For, Show } from 'solid-js';
+import styles from '../App.module.css';
+import { getDestinationLabel, type Destination, type ShareData } from '../lib/storage';
+import { formatBytes, truncate } from '../lib/format';
+import type { OutboxItem } from '../lib/outbox';
+import { batchBytes, scheduledFlush, shortBatchId, type BatchItem } from '../lib/batches';
+
+interface OutboxPanelProps {
+  items: OutboxItem[];
+  // Shares waiting for their destination's next batch
+  batches: BatchItem[];
+  destinations: Destination[];
+  onRetry: (item: OutboxItem) => void;
+  onDrop: (item: OutboxItem) => void;
+  onSendBatch: (destinationId: string) => void;
+  onDropBatched: (item: BatchItem) => void;
+}
+
+function describe(share: ShareData): string {
+  return truncate(share.title || share.url || share.text, 100) || `${share.files.length} file(s)`;
+}
+
+interface BatchGroupProps {
+  items: BatchItem[];
+  destination?: Destination;
+  onSend: () => void;
+  onDrop: (item: BatchItem) => void;
+}
+
+const BatchGroup: Component<BatchGroupProps> = (props) => {
+  const scheduled = () => props.destination && scheduledFlush(props.items, props.destination.batching);
+  const limits = () => {
+    const batching = props.destination?.batching;
+    return [
+      batching?.maxItems
+        ? `${props.items.length}/${batching.maxItems} shares`
+        : `${props.items.length} share${props.items.length === 1 ? '' : 's'}`,
+      batching?.maxSizeMB
+        ? `${formatBytes(batchBytes(props.items))} of ${batching.maxSizeMB} MB`
+        : formatBytes(batchBytes(props.items)),
+    ].join(' · ');
+  };
+
+  return (
+    <div class={`${styles.logEntry} ${styles.logEntryBatched}`}>
+      <div class={styles.logHeader}>
+        <span class={`${styles.logStatus} ${styles.logStatusBatched}`}>batch</span>
+        <span class={styles.logTime}>
+          <Show when={scheduled()} fallback="Sent when a limit is reached">
+            {(time) => `Sends at ${new Date(time()).toLocaleTimeString()}`}
+          </Show>
+        </span>
+      </div>
+      <div class={styles.logDestination}>
+        → {props.destination ? getDestinationLabel(props.destination) : props.items[0].destinationName} · {limits()}
+      </div>
+      <For each={props.items}>
+        {(item) => (
+          <div class={styles.logPayload}>
+            <p>{describe(item.share)}</p>
+            <Show when={item.lastError}>
+              <p class={styles.hint} style={{ color: '#f87171' }}>
+                Failed in batch {shortBatchId(item.lastBatchId || '')}: {item.lastError} · retry after{' '}
+                {new Date(item.nextAttemptAt).toLocaleTimeString()}
+              </p>
+            </Show>
+            <button
+              class={`${styles.button} ${styles.buttonSecondary} ${styles.buttonSmall}`}
+              onClick={() => props.onDrop(item)}
+            >
+              Drop
+            </button>
+          </div>
+        )}
+      </For>
+      <div class={styles.inputRow}>
+        <button
+          class={`${styles.button} ${styles.buttonSmall}`}
+          onClick={() => props.onSend()}
+          disabled={!props.destination}
+        >
+          Send now
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const OutboxPanel: Component<OutboxPanelProps> = (props) => {
+  const batchGroups = () => {
+    const groups = new Map<string, BatchItem[]>();
+    for (const item of props.batches) {
+      groups.set(item.destinationId, [...(groups.get(item.destinationId) || []), item]);
+    }
+    return [...groups.values()];
+  };
+
+  const destinationLabel = (item: OutboxItem) => {
+    const destination = props.destinations.find((entry) => entry.id === item.destinationId);
+    return destination ? getDestinationLabel(destination) : item.destinationName;
+  };
+
+  return (
+    <Show when={props.items.length + props.batches.length > 0}>
+      <div class={styles.section}>
+        <div class={styles.sectionHeader}>
+          <h2>Outbox ({props.items.length + props.batches.length})</h2>
+        </div>
+        <For each={batchGroups()}>
+          {(items) => (
+            <BatchGroup
+              items={items}
+              destination={props.destinations.find((destination) => destination.id === items[0].destinationId)}
+              onSend={() => props.onSendBatch(items[0].destinationId)}
+              onDrop={props.onDropBatched}
+            />
+          )}
+        </For>
+        <For each={props.items}>
+          {(item) => (
+            <div class={`${styles.logEntry} ${item.status === 'failed' ? styles.logEntryError : styles.logEntryQueued}`}>
+              <div class={styles.logHeader}>
+                <span
+                  class={`${styles.logStatus} ${
+                    item.status === 'failed' ? styles.logStatusError : styles.logStatusQueued
+                  }`}
+                >
+                  {item.status}
+                </span>
+                <span class={styles.logTime}>
+                  {item.status === 'failed'
+                    ? `Gave up after ${item.attempts} attempts`
+                    : `Attempt ${item.attempts + 1} at ${new Date(item.nextAttemptAt).toLocaleTimeString()}`}
+                </span>
+              </div>
+              <div class={styles.logDestination}>→ {destinationLabel(item)}</div>
+              <div class={styles.logPayload}>
+                <p>{describe(item.share)}</p>
+              </div>
+              <Show when={item.lastError}>
+                <div class={styles.logResponse} style={{ color: '#f87171' }}>
+                  Error: {item.lastError}
+                </div>
+              </Show>
+              <div class={styles.inputRow}>
+                <button class={`${styles.button} ${styles.buttonSmall}`} onClick={() => props.onRetry(item)}>
+                  Retry now
+                </button>
+                <button
+                  class={`${styles.button} ${styles.buttonSecondary} ${styles.buttonSmall}`}
+                  onClick={() => props.onDrop(item)}
+                >
+                  Drop
+                </button>
+              </div>
+            </div>
+          )}
+        </For>
+      </div>
+    </Show>
+  );
+};
+
+export default OutboxPanel;
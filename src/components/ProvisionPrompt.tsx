@@ -0,0 +1,83 @@
+import { Component, For, Show } from 'solid-js';
+import styles from '../App.module.css';
+import { changedDestinationUrl } from '../lib/config';
+import { getDestinationLabel, type RelayConfig } from '../lib/storage';
+
+// A provisioning link that opened the app: its config, or why it couldn't be read
+export type Provision = { config: RelayConfig } | { problems: string[] };
+
+interface ProvisionPromptProps {
+  provision: Provision;
+  // The config in use, to point out destinations the link moves to another URL
+  current: RelayConfig;
+  onLoad: (config: RelayConfig) => void;
+  onDismiss: () => void;
+}
+
+const ProvisionPrompt: Component<ProvisionPromptProps> = (props) => {
+  const config = () => ('config' in props.provision ? props.provision.config : null);
+  const problems = () => ('problems' in props.provision ? props.provision.problems : []);
+
+  return (
+    <div class={styles.card}>
+      <div class={styles.sectionHeader}>
+        <h2>Provisioning link</h2>
+      </div>
+      <Show
+        when={config()}
+        fallback={
+          <div class={`${styles.statusMessage} ${styles.statusError}`}>
+            The link's configuration can't be loaded:
+            <ul class={styles.problemList}>
+              <For each={problems()}>{(problem) => <li>{problem}</li>}</For>
+            </ul>
+          </div>
+        }
+      >
+        {(config) => (
+          <>
+            <p class={styles.hint}>
+              Replace the current configuration with the one from this link? Secrets it leaves out
+              are kept for destinations you already have, as long as they stay on the same host.
+            </p>
+            <ul class={`${styles.hint} ${styles.problemList}`}>
+              <For each={config().destinations}>
+                {(destination) => {
+                  const previousUrl = changedDestinationUrl(destination, props.current);
+                  return (
+                    <li>
+                      {getDestinationLabel(destination)}: <code>{destination.url || '(no URL)'}</code>
+                      <Show when={previousUrl !== null}>
+                        <div class={styles.statusError}>
+                          URL changed from <code>{previousUrl}</code>; saved secrets are not reused
+                        </div>
+                      </Show>
+                    </li>
+                  );
+                }}
+              </For>
+            </ul>
+            <p class={styles.hint}>
+              {config().rules.length} routing rule(s), {config().autoRelay.policies.length} auto-relay
+              policy(ies), other shares {config().autoRelay.fallback === 'send' ? 'relayed automatically' : 'ask first'}
+            </p>
+          </>
+        )}
+      </Show>
+      <div class={styles.buttonRow}>
+        <Show when={config()}>
+          {(config) => (
+            <button class={styles.button} onClick={() => props.onLoad(config())}>
+              Load
+            </button>
+          )}
+        </Show>
+        <button class={`${styles.button} ${styles.buttonSecondary}`} onClick={props.onDismiss}>
+          {config() ? 'Ignore' : 'Dismiss'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ProvisionPrompt;
@@ -0,0 +1,41 @@
+import { Component } from 'solid-js';
+import styles from '../App.module.css';
+import type { ResponseActionSettings } from '../lib/responseActions';
+
+interface ResponseActionsEditorProps {
+  id: string;
+  settings: ResponseActionSettings;
+  onChange: (settings: ResponseActionSettings) => void;
+}
+
+const FIELDS: Array<{ key: keyof ResponseActionSettings; label: string }> = [
+  { key: 'message', label: 'Show message' },
+  { key: 'copyText', label: 'Copy copyText to the clipboard' },
+  { key: 'openUrl', label: 'Open openUrl' },
+  { key: 'share', label: 'Share share onwards' },
+];
+
+const ResponseActionsEditor: Component<ResponseActionsEditorProps> = (props) => (
+  <details class={styles.details}>
+    <summary>Response actions</summary>
+
+    {FIELDS.map((field) => (
+      <div class={styles.checkboxGroup}>
+        <input
+          id={`${props.id}-response-${field.key}`}
+          type="checkbox"
+          class={styles.checkbox}
+          checked={props.settings[field.key]}
+          onChange={(e) => props.onChange({ ...props.settings, [field.key]: e.currentTarget.checked })}
+        />
+        <label for={`${props.id}-response-${field.key}`}>{field.label}</label>
+      </div>
+    ))}
+    <p class={styles.hint}>
+      A JSON response with message, copyText, openUrl or share fields can drive the app after a
+      relay. Only allow what you trust this endpoint to do.
+    </p>
+  </details>
+);
+
+export default ResponseActionsEditor;
@@ -0,0 +1,151 @@
+import { Component, For, Index, Show } from 'solid-js';
+import styles from '../App.module.css';
+import {
+  generateId,
+  getDestinationLabel,
+  type Destination,
+  type RoutingRule,
+  type RoutingRuleType,
+} from '../lib/storage';
+import { SHARE_KINDS } from '../lib/classify';
+
+interface RulesEditorProps {
+  rules: RoutingRule[];
+  destinations: Destination[];
+  onChange: (rules: RoutingRule[]) => void;
+}
+
+const PLACEHOLDERS: Record<RoutingRuleType, string> = {
+  mime: 'image/*',
+  domain: 'github.com',
+  regex: '^https://.*\\.pdf$',
+  kind: '',
+};
+
+const RulesEditor: Component<RulesEditorProps> = (props) => {
+  const update = (index: number, changes: Partial<RoutingRule>) => {
+    const next = [...props.rules];
+    next[index] = { ...next[index], ...changes };
+    props.onChange(next);
+  };
+
+  const toggleDestination = (index: number, destinationId: string, enabled: boolean) => {
+    const ids = props.rules[index].destinationIds.filter((id) => id !== destinationId);
+    update(index, { destinationIds: enabled ? [...ids, destinationId] : ids });
+  };
+
+  const remove = (index: number) => {
+    props.onChange(props.rules.filter((_, i) => i !== index));
+  };
+
+  const add = () => {
+    props.onChange([
+      ...props.rules,
+      { id: generateId(), type: 'domain', pattern: '', field: 'any', destinationIds: [] },
+    ]);
+  };
+
+  return (
+    <div class={styles.section}>
+      <div class={styles.sectionHeader}>
+        <h2>Routing Rules</h2>
+        <button class={`${styles.button} ${styles.buttonSmall}`} onClick={add}>
+          Add
+        </button>
+      </div>
+
+      <Show when={props.rules.length === 0}>
+        <p class={styles.hint}>Without rules, every share goes to the default destinations.</p>
+      </Show>
+
+      <Index each={props.rules}>
+        {(rule, index) => (
+          <div class={styles.card}>
+            <div class={styles.inputRow}>
+              <select
+                class={styles.input}
+                value={rule().type}
+                onChange={(e) => {
+                  const type = e.currentTarget.value as RoutingRuleType;
+                  // Kinds come from a list, so patterns don't carry over to or from them
+                  const reset = type === 'kind' || rule().type === 'kind';
+                  update(index, reset ? { type, pattern: '' } : { type });
+                }}
+              >
+                <option value="mime">File type</option>
+                <option value="domain">URL domain</option>
+                <option value="regex">Regex</option>
+                <option value="kind">Content kind</option>
+              </select>
+              <Show when={rule().type === 'regex'}>
+                <select
+                  class={styles.input}
+                  value={rule().field}
+                  onChange={(e) =>
+                    update(index, { field: e.currentTarget.value as RoutingRule['field'] })
+                  }
+                >
+                  <option value="any">text or url</option>
+                  <option value="text">text</option>
+                  <option value="url">url</option>
+                </select>
+              </Show>
+            </div>
+            <Show
+              when={rule().type === 'kind'}
+              fallback={
+                <input
+                  type="text"
+                  class={styles.input}
+                  placeholder={PLACEHOLDERS[rule().type]}
+                  value={rule().pattern}
+                  onInput={(e) => update(index, { pattern: e.currentTarget.value })}
+                />
+              }
+            >
+              <select
+                class={styles.input}
+                value={rule().pattern}
+                onChange={(e) => update(index, { pattern: e.currentTarget.value })}
+              >
+                <option value="" disabled>
+                  Pick a kind
+                </option>
+                <For each={SHARE_KINDS}>
+                  {(item) => <option value={item.kind}>{item.label}</option>}
+                </For>
+              </select>
+            </Show>
+            <div class={styles.shareLabel}>Send to</div>
+            <For each={props.destinations}>
+              {(destination) => (
+                <div class={styles.checkboxGroup}>
+                  <input
+                    id={`rule-${rule().id}-${destination.id}`}
+                    type="checkbox"
+                    class={styles.checkbox}
+                    checked={rule().destinationIds.includes(destination.id)}
+                    onChange={(e) =>
+                      toggleDestination(index, destination.id, e.currentTarget.checked)
+                    }
+                  />
+                  <label for={`rule-${rule().id}-${destination.id}`}>
+                    {getDestinationLabel(destination)}
+                  </label>
+                </div>
+              )}
+            </For>
+            <button
+              class={`${styles.button} ${styles.buttonDanger} ${styles.buttonSmall}`}
+              onClick={() => remove(index)}
+            >
+              Remove
+            </button>
+          </div>
+        )}
+      </Index>
+    </div>
+  );
+};
+
+export default RulesEditor;
@@ -0,0 +1,344 @@
+import { Component, createMemo, createResource, For, Show } from 'solid-js';
+import styles from '../App.module.css';
+import { getDestinationLabel, type Destination, type ShareData } from '../lib/storage';
+import type { ForwardResult } from '../lib/forwarder';
+import type { ExtractedUrl } from '../lib/urls';
+import type { UploadProgress } from '../lib/uploads';
+import type { ResponseActions } from '../lib/responseActions';
+import type { DuplicateMatch } from '../lib/duplicates';
+import { describePolicy, isRefused, POLICY_ACTIONS, type PolicyDecision } from '../lib/policies';
+import { isProcessableImage, needsImageProcessing } from '../lib/images';
+import { processShareImages } from '../lib/imageProcessor';
+import { formatBytes, formatTime, truncate } from '../lib/format';
+import ShareEditor from './ShareEditor';
+import DetectedContent from './DetectedContent';
+
+export interface ShareRelayState {
+  status: 'idle' | 'pending' | 'success' | 'error';
+  results: ForwardResult[];
+  // Chunked uploads in progress, one per destination and file
+  uploads?: UploadProgress[];
+}
+
+export const IDLE_RELAY_STATE: ShareRelayState = { status: 'idle', results: [] };
+
+interface ShareCardProps {
+  share: ShareData;
+  // Destinations the routing rules pick for this share
+  destinations: Destination[];
+  hasDestinations: boolean;
+  state: ShareRelayState;
+  // Links the relay will send in the urls field, empty when extraction is off
+  cleanedUrls: ExtractedUrl[];
+  // A recent share with the same content; relaying once it is shown sends the share anyway
+  duplicate?: DuplicateMatch;
+  // The auto-relay policy that applies; refused shares can only be discarded
+  policy: PolicyDecision;
+  onChange: (share: ShareData) => void;
+  onRelay: () => void;
+  onDiscard: () => void;
+}
+
+interface ImageSizePreview {
+  destinationName: string;
+  sizes: Array<{ name: string; before: number; after: number }>;
+}
+
+// Opening links and sharing need a tap, so they are offered as buttons
+const ResponseActionButtons: Component<{ actions: ResponseActions }> = (props) => (
+  <Show when={props.actions.copyText || props.actions.openUrl || props.actions.share}>
+    <div class={styles.buttonRow}>
+      <Show when={props.actions.copyText}>
+        {(text) => (
+          <button
+            class={`${styles.button} ${styles.buttonSecondary} ${styles.buttonSmall}`}
+            onClick={() => navigator.clipboard.writeText(text())}
+          >
+            Copy
+          </button>
+        )}
+      </Show>
+      <Show when={props.actions.openUrl}>
+        {(url) => (
+          <button
+            class={`${styles.button} ${styles.buttonSecondary} ${styles.buttonSmall}`}
+            onClick={() => window.open(url(), '_blank', 'noopener')}
+          >
+            Open link
+          </button>
+        )}
+      </Show>
+      <Show when={props.actions.share && 'share' in navigator}>
+        <button
+          class={`${styles.button} ${styles.buttonSecondary} ${styles.buttonSmall}`}
+          onClick={() => navigator.share(props.actions.share!).catch(() => {})}
+        >
+          Share
+        </button>
+      </Show>
+    </div>
+  </Show>
+);
+
+const ShareCard: Component<ShareCardProps> = (props) => {
+  // Only recompute when the files or a destination's image settings change, not on every edit
+  const imageFiles = createMemo(() => props.share.files.filter(isProcessableImage));
+  const imageDestinations = createMemo(
+    () => props.destinations.filter((destination) => needsImageProcessing(destination.images)),
+    [],
+    {
+      equals: (a, b) =>
+        a.length === b.length && a.every((destination, i) => destination.images === b[i].images),
+    }
+  );
+
+  const [imageSizes] = createResource(
+    () => imageFiles().length > 0 && imageDestinations().length > 0 && { files: imageFiles(), destinations: imageDestinations() },
+    ({ files, destinations }): Promise<ImageSizePreview[]> =>
+      Promise.all(
+        destinations.map(async (destination) => {
+          const processed = await processShareImages({ ...props.share, files }, destination.images);
+          return {
+            destinationName: getDestinationLabel(destination),
+            sizes: files.map((file, i) => ({
+              name: file.name,
+              before: file.data.size,
+              after: processed.files[i].data.size,
+            })),
+          };
+        })
+      )
+  );
+
+  const destinationName = (id: string) => {
+    const destination = props.destinations.find((item) => item.id === id);
+    return destination ? getDestinationLabel(destination) : '';
+  };
+
+  return (
+    <div class={styles.section}>
+      <div class={styles.shareCard}>
+        <div class={styles.sectionHeader}>
+          <h3>Shared Content</h3>
+          <span class={styles.logTime}>{formatTime(props.share.timestamp)}</span>
+        </div>
+
+        {/* Editable until relayed, then shows what was sent */}
+        <Show
+          when={props.state.status !== 'idle'}
+          fallback={<ShareEditor share={props.share} onChange={props.onChange} />}
+        >
+          <>
+            <div class={styles.shareField}>
+              <div class={styles.shareLabel}>Title</div>
+              <div class={`${styles.shareValue} ${!props.share.title ? styles.shareValueEmpty : ''}`}>
+                {props.share.title || 'No title'}
+              </div>
+            </div>
+
+            <div class={styles.shareField}>
+              <div class={styles.shareLabel}>Text</div>
+              <div class={`${styles.shareValue} ${!props.share.text ? styles.shareValueEmpty : ''}`}>
+                {props.share.text || 'No text'}
+              </div>
+            </div>
+
+            <div class={styles.shareField}>
+              <div class={styles.shareLabel}>URL</div>
+              <div class={`${styles.shareValue} ${!props.share.url ? styles.shareValueEmpty : ''}`}>
+                {props.share.url || 'No URL'}
+              </div>
+            </div>
+
+            <Show when={props.share.files && props.share.files.length > 0}>
+              <div class={styles.shareField}>
+                <div class={styles.shareLabel}>Files ({props.share.files.length})</div>
+                <div class={styles.filesList}>
+                  <For each={props.share.files}>
+                    {(file) => (
+                      <div class={styles.fileItem}>
+                        <span class={styles.fileIcon}>📎</span>
+                        <span class={styles.fileName}>{file.name}</span>
+                        <span class={styles.fileType}>
+                          {file.type} · {formatBytes(file.data.size)}
+                        </span>
+                      </div>
+                    )}
+                  </For>
+                </div>
+              </div>
+            </Show>
+
+            <Show when={props.share.tags?.length}>
+              <div class={styles.shareField}>
+                <div class={styles.shareLabel}>Tags</div>
+                <div class={styles.shareValue}>{props.share.tags!.map((tag) => `#${tag}`).join(' ')}</div>
+              </div>
+            </Show>
+
+            <Show when={props.share.note}>
+              <div class={styles.shareField}>
+                <div class={styles.shareLabel}>Note</div>
+                <div class={styles.shareValue}>{props.share.note}</div>
+              </div>
+            </Show>
+          </>
+        </Show>
+
+        <DetectedContent share={props.share} />
+
+        <Show when={imageSizes()?.length}>
+          <div class={styles.shareField}>
+            <div class={styles.shareLabel}>Image sizes</div>
+            <For each={imageSizes()}>
+              {(preview) => (
+                <For each={preview.sizes}>
+                  {(size) => (
+                    <div class={styles.fileType}>
+                      {size.name}: {formatBytes(size.before)} → {formatBytes(size.after)}
+                      {imageDestinations().length > 1 ? ` (${preview.destinationName})` : ''}
+                    </div>
+                  )}
+                </For>
+              )}
+            </For>
+          </div>
+        </Show>
+
+        <Show when={props.cleanedUrls.length > 0}>
+          <div class={styles.shareField}>
+            <div class={styles.shareLabel}>Cleaned links</div>
+            <For each={props.cleanedUrls}>
+              {(url) => (
+                <div class={styles.cleanedUrl}>
+                  <div class={styles.shareValue}>{url.cleaned}</div>
+                  <Show when={url.cleaned !== url.original}>
+                    <div class={styles.originalUrl}>{url.original}</div>
+                  </Show>
+                </div>
+              )}
+            </For>
+          </div>
+        </Show>
+      </div>
+
+      <Show when={props.state.status !== 'idle'}>
+        <div
+          class={`${styles.statusMessage} ${
+            props.state.status === 'success'
+              ? styles.statusSuccess
+              : props.state.status === 'error'
+              ? styles.statusError
+              : styles.statusPending
+          }`}
+        >
+          <Show when={props.state.status === 'pending'}>
+            Forwarding...
+            <For each={props.state.uploads}>
+              {(upload) => (
+                <div class={styles.uploadProgress}>
+                  <span class={styles.fileName}>
+                    {upload.name}
+                    {props.destinations.length > 1 ? ` → ${destinationName(upload.destinationId)}` : ''}
+                  </span>
+                  <progress max={upload.total || 1} value={upload.total ? upload.sent : 1} />
+                  <span class={styles.fileType}>
+                    {formatBytes(upload.sent)} / {formatBytes(upload.total)}
+                  </span>
+                </div>
+              )}
+            </For>
+          </Show>
+          <Show when={props.state.status === 'success'}>
+            {props.state.results.every((result) => result.batched)
+              ? 'Added to the next batch'
+              : 'Successfully forwarded!'}
+          </Show>
+          <Show when={props.state.status === 'error'}>
+            {props.state.results.every((result) => result.success || result.queued)
+              ? 'Queued for retry'
+              : 'Some destinations failed'}
+          </Show>
+          <For each={props.state.results}>
+            {(result) => (
+              <>
+                <br />
+                <small>
+                  {result.destinationName}:{' '}
+                  {result.batched
+                    ? 'Waiting for the next batch'
+                    : result.success
+                    ? result.actions?.message ?? truncate(result.response || 'OK', 100)
+                    : `${result.queued ? 'Queued' : 'Error'}: ${result.error}`}
+                </small>
+                <Show when={result.actions}>
+                  {(actions) => <ResponseActionButtons actions={actions()} />}
+                </Show>
+              </>
+            )}
+          </For>
+        </div>
+      </Show>
+
+      <Show when={props.state.status === 'idle' && props.duplicate}>
+        {(duplicate) => (
+          <div class={`${styles.statusMessage} ${styles.statusPending}`}>
+            Same content as a share from {formatTime(duplicate().timestamp)}
+            {duplicate().relayed ? ' that was already relayed' : ' that is still waiting here'}. Relay it
+            again anyway?
+          </div>
+        )}
+      </Show>
+
+      <Show when={props.state.status === 'idle'}>
+        <Show
+          when={isRefused(props.policy)}
+          fallback={
+            <p class={styles.hint}>
+              Auto-relay: {POLICY_ACTIONS[props.policy.action]} (
+              {props.policy.policy ? describePolicy(props.policy.policy) : 'no policy matched'})
+              <Show when={props.policy.action === 'send' && props.share.viaLink}>
+                , but shares from links always wait for you
+              </Show>
+            </p>
+          }
+        >
+          <div class={`${styles.statusMessage} ${styles.statusError}`}>
+            Blocked by the auto-relay policy "{describePolicy(props.policy.policy!)}".
+          </div>
+        </Show>
+      </Show>
+
+      <Show when={props.hasDestinations && props.destinations.length === 0}>
+        <div class={`${styles.statusMessage} ${styles.statusError}`}>
+          No destination matches this share. Add a routing rule or a default destination.
+        </div>
+      </Show>
+
+      <div class={styles.buttonRow}>
+        <Show when={props.state.status === 'idle'}>
+          <button
+            class={styles.button}
+            onClick={() => props.onRelay()}
+            disabled={props.destinations.length === 0 || isRefused(props.policy)}
+          >
+            {props.duplicate ? 'Relay again to' : 'Relay to'}{' '}
+            {props.destinations.length > 0
+              ? props.destinations.map(getDestinationLabel).join(', ')
+              : 'API'}
+          </button>
+        </Show>
+
+        <button
+          class={`${styles.button} ${styles.buttonSecondary}`}
+          onClick={() => props.onDiscard()}
+          disabled={props.state.status === 'pending'}
+        >
+          {props.state.status === 'idle' ? 'Discard' : 'Clear'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ShareCard;
@@ -0,0 +1,114 @@
+import { Component, Index, Show } from 'solid-js';
+import styles from '../App.module.css';
+import type { ShareData } from '../lib/storage';
+import { formatBytes } from '../lib/format';
+import TagInput from './TagInput';
+
+interface ShareEditorProps {
+  share: ShareData;
+  onChange: (share: ShareData) => void;
+}
+
+const ShareEditor: Component<ShareEditorProps> = (props) => {
+  const update = (changes: Partial<ShareData>) => {
+    props.onChange({ ...props.share, ...changes });
+  };
+
+  const removeFile = (index: number) => {
+    update({ files: props.share.files.filter((_, i) => i !== index) });
+  };
+
+  const moveFile = (index: number, offset: number) => {
+    const files = [...props.share.files];
+    const [file] = files.splice(index, 1);
+    files.splice(index + offset, 0, file);
+    update({ files });
+  };
+
+  return (
+    <div class={styles.shareEditor}>
+      <div class={styles.inputGroup}>
+        <label>Title</label>
+        <input
+          type="text"
+          class={styles.input}
+          value={props.share.title}
+          onInput={(e) => update({ title: e.currentTarget.value })}
+        />
+      </div>
+      <div class={styles.inputGroup}>
+        <label>Text</label>
+        <textarea
+          class={styles.input}
+          rows={4}
+          value={props.share.text}
+          onInput={(e) => update({ text: e.currentTarget.value })}
+        />
+      </div>
+      <div class={styles.inputGroup}>
+        <label>URL</label>
+        <input
+          type="url"
+          class={styles.input}
+          value={props.share.url}
+          onInput={(e) => update({ url: e.currentTarget.value })}
+        />
+      </div>
+      <Show when={props.share.files.length > 0}>
+        <div class={styles.filesList}>
+          <Index each={props.share.files}>
+            {(file, index) => (
+              <div class={styles.fileItem}>
+                <span class={styles.fileIcon}>📎</span>
+                <span class={styles.fileName}>{file().name}</span>
+                <span class={styles.fileType}>{formatBytes(file().data.size)}</span>
+                <button
+                  class={`${styles.button} ${styles.buttonSecondary} ${styles.buttonSmall}`}
+                  onClick={() => moveFile(index, -1)}
+                  disabled={index === 0}
+                  aria-label="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  class={`${styles.button} ${styles.buttonSecondary} ${styles.buttonSmall}`}
+                  onClick={() => moveFile(index, 1)}
+                  disabled={index === props.share.files.length - 1}
+                  aria-label="Move down"
+                >
+                  ↓
+                </button>
+                <button
+                  class={`${styles.button} ${styles.buttonSecondary} ${styles.buttonSmall}`}
+                  onClick={() => removeFile(index)}
+                >
+                  Remove
+                </button>
+              </div>
+            )}
+          </Index>
+        </div>
+      </Show>
+      <div class={styles.inputGroup}>
+        <label for={`${props.share.id}-tags`}>Tags</label>
+        <TagInput
+          id={`${props.share.id}-tags`}
+          tags={props.share.tags || []}
+          onChange={(tags) => update({ tags })}
+        />
+      </div>
+      <div class={styles.inputGroup}>
+        <label>Note</label>
+        <textarea
+          class={styles.input}
+          rows={2}
+          placeholder="Sent along as a separate field"
+          value={props.share.note || ''}
+          onInput={(e) => update({ note: e.currentTarget.value })}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ShareEditor;
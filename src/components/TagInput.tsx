@@ -0,0 +1,82 @@
+import { Component, createSignal, For } from 'solid-js';
+import styles from '../App.module.css';
+import { getKnownTags } from '../lib/storage';
+
+interface TagInputProps {
+  id: string;
+  tags: string[];
+  onChange: (tags: string[]) => void;
+}
+
+// Tags are matched and stored without a leading # or surrounding spaces
+function normalizeTag(value: string): string {
+  return value.trim().replace(/^#+/, '').trim();
+}
+
+const TagInput: Component<TagInputProps> = (props) => {
+  const [input, setInput] = createSignal('');
+  const knownTags = getKnownTags();
+
+  const suggestions = () => knownTags.filter((tag) => !props.tags.includes(tag));
+
+  const addTags = (value: string) => {
+    const added = value.split(',').map(normalizeTag).filter(Boolean);
+    const next = [...props.tags];
+    for (const tag of added) {
+      if (!next.includes(tag)) next.push(tag);
+    }
+    if (next.length !== props.tags.length) props.onChange(next);
+    setInput('');
+  };
+
+  const removeTag = (tag: string) => {
+    props.onChange(props.tags.filter((item) => item !== tag));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent & { currentTarget: HTMLInputElement }) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTags(e.currentTarget.value);
+    } else if (e.key === 'Backspace' && !e.currentTarget.value && props.tags.length > 0) {
+      removeTag(props.tags[props.tags.length - 1]);
+    }
+  };
+
+  return (
+    <div class={styles.tagInput}>
+      <For each={props.tags}>
+        {(tag) => (
+          <span class={styles.tag}>
+            #{tag}
+            <button class={styles.tagRemove} onClick={() => removeTag(tag)} aria-label={`Remove ${tag}`}>
+              ×
+            </button>
+          </span>
+        )}
+      </For>
+      <input
+        id={props.id}
+        type="text"
+        class={styles.tagField}
+        list={`${props.id}-suggestions`}
+        placeholder={props.tags.length === 0 ? 'Add tags' : ''}
+        value={input()}
+        onInput={(e) => {
+          // Picking a datalist suggestion fills the input without a key press
+          const value = e.currentTarget.value;
+          setInput(value);
+          if (knownTags.includes(normalizeTag(value)) && e.inputType !== 'insertText') {
+            addTags(value);
+          }
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={(e) => addTags(e.currentTarget.value)}
+      />
+      <datalist id={`${props.id}-suggestions`}>
+        <For each={suggestions()}>{(tag) => <option value={tag} />}</For>
+      </datalist>
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,82 @@
+import { Component, createMemo } from 'solid-js';
+import styles from '../App.module.css';
+import type { ShareData } from '../lib/storage';
+import {
+  renderTemplate,
+  TEMPLATE_FILTERS,
+  type PayloadTemplate,
+  type TemplateType,
+} from '../lib/template';
+
+interface TemplateEditorProps {
+  id: string;
+  template: PayloadTemplate;
+  onChange: (template: PayloadTemplate) => void;
+}
+
+// Typical Android link share, used for the live preview
+const SAMPLE_SHARE: ShareData = {
+  id: 'sample',
+  title: 'Example Domain',
+  text: 'Check this out https://example.com/article?id=42',
+  url: 'https://example.com/article?id=42',
+  files: [{ name: 'photo.jpg', type: 'image/jpeg', data: new Blob([new Uint8Array(2048)]) }],
+  timestamp: Date.now(),
+  tags: ['reading'],
+  note: 'For the weekly digest',
+};
+
+const TemplateEditor: Component<TemplateEditorProps> = (props) => {
+  const preview = createMemo(() => {
+    try {
+      const rendered = renderTemplate(props.template, SAMPLE_SHARE);
+      if (props.template.type === 'json') {
+        return { output: JSON.stringify(JSON.parse(rendered), null, 2) };
+      }
+      if (props.template.type === 'form') {
+        return { output: Array.from(new URLSearchParams(rendered), ([k, v]) => `${k}: ${v}`).join('\n') };
+      }
+      return { output: rendered };
+    } catch (e) {
+      return { error: (e as Error).message };
+    }
+  });
+
+  return (
+    <div class={styles.inputGroup}>
+      <label for={`${props.id}-template`}>Body template</label>
+      <select
+        class={styles.input}
+        value={props.template.type}
+        onChange={(e) => props.onChange({ ...props.template, type: e.currentTarget.value as TemplateType })}
+      >
+        <option value="json">JSON</option>
+        <option value="form">Form (one name=value per line)</option>
+        <option value="text">Plain text</option>
+      </select>
+      <textarea
+        id={`${props.id}-template`}
+        class={`${styles.input} ${styles.codeInput}`}
+        rows={6}
+        spellcheck={false}
+        value={props.template.body}
+        onInput={(e) => props.onChange({ ...props.template, body: e.currentTarget.value })}
+      />
+      <p class={styles.hint}>
+        Fields: <code>title</code> <code>text</code> <code>url</code> <code>files[0].name</code>{' '}
+        <code>filesCount</code> <code>timestamp</code>. Filters:{' '}
+        {TEMPLATE_FILTERS.map((name) => (
+          <>
+            <code>{name}</code>{' '}
+          </>
+        ))}
+      </p>
+      <div class={styles.shareLabel}>Preview with sample share</div>
+      <pre class={`${styles.preview} ${preview().error ? styles.previewError : ''}`}>
+        {preview().error ?? preview().output}
+      </pre>
+    </div>
+  );
+};
+
+export default TemplateEditor;
@@ -0,0 +1,60 @@
+import { Component, Show } from 'solid-js';
+import styles from '../App.module.css';
+import { DEFAULT_STRIP_PARAMS, type UrlCleaning } from '../lib/urls';
+
+interface UrlCleaningEditorProps {
+  cleaning: UrlCleaning;
+  onChange: (cleaning: UrlCleaning) => void;
+}
+
+const UrlCleaningEditor: Component<UrlCleaningEditorProps> = (props) => {
+  const update = (changes: Partial<UrlCleaning>) => {
+    props.onChange({ ...props.cleaning, ...changes });
+  };
+
+  const parseParams = (value: string) =>
+    value
+      .split(/[\n,]/)
+      .map((param) => param.trim())
+      .filter(Boolean);
+
+  return (
+    <div class={styles.section}>
+      <div class={styles.sectionHeader}>
+        <h2>Links</h2>
+      </div>
+      <div class={styles.checkboxGroup}>
+        <input
+          id="extractUrls"
+          type="checkbox"
+          class={styles.checkbox}
+          checked={props.cleaning.extractUrls}
+          onChange={(e) => update({ extractUrls: e.currentTarget.checked })}
+        />
+        <label for="extractUrls">Add cleaned links as a urls field</label>
+      </div>
+      <Show when={props.cleaning.extractUrls}>
+        <div class={styles.inputGroup}>
+          <label for="stripParams">Tracking parameters to remove (one per line, * as suffix wildcard)</label>
+          <textarea
+            id="stripParams"
+            class={`${styles.input} ${styles.codeInput}`}
+            rows={5}
+            value={props.cleaning.stripParams.join('\n')}
+            onChange={(e) => update({ stripParams: parseParams(e.currentTarget.value) })}
+          />
+        </div>
+        <div class={styles.inputRow}>
+          <button
+            class={`${styles.button} ${styles.buttonSecondary} ${styles.buttonSmall}`}
+            onClick={() => update({ stripParams: DEFAULT_STRIP_PARAMS })}
+          >
+            Reset to defaults
+          </button>
+        </div>
+      </Show>
+    </div>
+  );
+};
+
+export default UrlCleaningEditor;
@@ -0,0 +1,126 @@
+// Helpers shared by the service adapters
+
+import type { Destination, ShareData } from '../storage';
+import type { HttpExchange, RelayResponse } from '../http';
+import { openShareDB, requestToPromise, DELIVERY_STORE } from '../db';
+
+// Outbox retries give up well within a day, so older progress is not worth keeping
+const DELIVERY_MAX_AGE = 24 * 60 * 60 * 1000;
+
+export interface ServiceAdapter {
+  label: string;
+  // What the destination URL means for this service
+  urlLabel: string;
+  urlPlaceholder: string;
+  // Prefilled when the service has a well-known API host
+  defaultUrl?: string;
+  // Set when the service needs a token or target besides the URL
+  tokenLabel?: string;
+  targetLabel?: string;
+  send(data: ShareData, destination: Destination): Promise<RelayResponse>;
+}
+
+// Title, text, URL, note and tags as one message, without repeating a URL the text already holds
+export function formatShareText(data: ShareData): string {
+  const parts = [data.title, data.text];
+  if (data.url && !data.text?.includes(data.url)) {
+    parts.push(data.url);
+  }
+  if (data.note) parts.push(data.note);
+  if (data.tags?.length) {
+    parts.push(data.tags.map((tag) => `#${tag}`).join(' '));
+  }
+  return parts.filter(Boolean).join('\n');
+}
+
+export function limitLength(value: string, maxLength: number): string {
+  return value.length > maxLength ? value.slice(0, maxLength - 1) + '…' : value;
+}
+
+export function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+export function missingSetting(message: string): RelayResponse {
+  return { ok: false, error: message, retryable: false };
+}
+
+interface DeliveryProgress {
+  id: string;
+  // Indexes of the requests that went through
+  delivered: number[];
+  updatedAt: number;
+}
+
+// The ID of a share's send to a destination, for sendAll
+export function deliveryId(data: ShareData, destination: Destination): string {
+  return `${data.id}:${destination.id}`;
+}
+
+async function getDeliveryProgress(id: string): Promise<DeliveryProgress | undefined> {
+  try {
+    const db = await openShareDB();
+    const store = db.transaction(DELIVERY_STORE, 'readwrite').objectStore(DELIVERY_STORE);
+    const all = await requestToPromise(store.getAll() as IDBRequest<DeliveryProgress[]>);
+    const cutoff = Date.now() - DELIVERY_MAX_AGE;
+    await Promise.all(
+      all.filter((entry) => entry.updatedAt < cutoff).map((entry) => requestToPromise(store.delete(entry.id)))
+    );
+    return all.find((entry) => entry.id === id && entry.updatedAt >= cutoff);
+  } catch (e) {
+    console.error('Error reading delivery progress:', e);
+    return undefined;
+  }
+}
+
+async function putDeliveryProgress(progress: DeliveryProgress): Promise<void> {
+  const db = await openShareDB();
+  const store = db.transaction(DELIVERY_STORE, 'readwrite').objectStore(DELIVERY_STORE);
+  await requestToPromise(store.put(progress));
+}
+
+async function removeDeliveryProgress(id: string): Promise<void> {
+  try {
+    const db = await openShareDB();
+    const store = db.transaction(DELIVERY_STORE, 'readwrite').objectStore(DELIVERY_STORE);
+    await requestToPromise(store.delete(id));
+  } catch (e) {
+    console.error('Error clearing delivery progress:', e);
+  }
+}
+
+// Run requests in order and stop at the first failure. Requests that went through are
+// remembered under `id`, so a retry continues with the first one that didn't and the
+// service doesn't get the earlier messages twice
+export async function sendAll(
+  id: string,
+  requests: Array<() => Promise<RelayResponse>>
+): Promise<RelayResponse> {
+  if (requests.length === 0) {
+    return { ok: false, error: 'Share has no text or files to send', retryable: false };
+  }
+
+  const delivered = new Set((await getDeliveryProgress(id))?.delivered);
+  const responses: string[] = [];
+  const exchanges: HttpExchange[] = [];
+  let last: RelayResponse = { ok: true, retryable: false };
+
+  for (const [index, request] of requests.entries()) {
+    if (delivered.has(index)) continue;
+    last = await request();
+    exchanges.push(...(last.exchanges || []));
+    if (!last.ok) {
+      return delivered.size > 0
+        ? { ...last, error: `${last.error} (after ${delivered.size} successful requests)`, exchanges }
+        : { ...last, exchanges };
+    }
+    if (last.response) responses.push(last.response);
+    delivered.add(index);
+    if (delivered.size < requests.length) {
+      await putDeliveryProgress({ id, delivered: [...delivered], updatedAt: Date.now() });
+    }
+  }
+
+  await removeDeliveryProgress(id);
+  return { ...last, response: responses.join('\n'), exchanges };
+}
@@ -0,0 +1,86 @@
+// Discord webhook adapter
+// https://discord.com/developers/docs/resources/webhook#execute-webhook
+
+import type { ServiceAdapter } from './common';
+import { formatShareText, limitLength } from './common';
+import { buildAuthHeaders } from '../auth';
+import { sendRequest, type ErrorReader } from '../http';
+
+const MAX_CONTENT = 2000;
+const MAX_EMBED_TITLE = 256;
+const MAX_EMBED_DESCRIPTION = 4096;
+const MAX_FILES = 10;
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+const readError: ErrorReader = (body) => {
+  const error = body as { message?: string; code?: number } | undefined;
+  return error?.message ? `${error.message} (code ${error.code})` : undefined;
+};
+
+export const discordAdapter: ServiceAdapter = {
+  label: 'Discord webhook',
+  urlLabel: 'Webhook URL',
+  urlPlaceholder: 'https://discord.com/api/webhooks/123/abc',
+
+  async send(data, destination) {
+    const payload: Record<string, unknown> = {};
+
+    // A title becomes an embed; otherwise post plain content so links unfurl
+    if (data.title) {
+      const description = formatShareText({ ...data, title: '', url: '' });
+      payload.embeds = [
+        {
+          title: limitLength(data.title, MAX_EMBED_TITLE),
+          description: description ? limitLength(description, MAX_EMBED_DESCRIPTION) : undefined,
+          url: /^https?:\/\//.test(data.url) ? data.url : undefined,
+        },
+      ];
+      if (data.url) payload.content = limitLength(data.url, MAX_CONTENT);
+    } else {
+      payload.content = limitLength(formatShareText(data), MAX_CONTENT);
+    }
+
+    // Attach what fits in one request and mention the rest
+    const attached = [];
+    let totalBytes = 0;
+    for (const file of data.files || []) {
+      if (attached.length >= MAX_FILES || totalBytes + file.data.size > MAX_UPLOAD_BYTES) break;
+      attached.push(file);
+      totalBytes += file.data.size;
+    }
+    const skipped = (data.files?.length || 0) - attached.length;
+    if (skipped > 0) {
+      const note = `(${skipped} file(s) too large or too many to attach)`;
+      payload.content = limitLength([payload.content, note].filter(Boolean).join('\n'), MAX_CONTENT);
+    }
+
+    // wait=true makes Discord return the created message instead of 204
+    const url = new URL(destination.url);
+    url.searchParams.set('wait', 'true');
+    const headers = buildAuthHeaders(destination);
+
+    if (attached.length === 0) {
+      return sendRequest(
+        url.toString(),
+        {
+          method: 'POST',
+          headers: { ...headers, 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload),
+        },
+        readError
+      );
+    }
+
+    const formData = new FormData();
+    formData.append(
+      'payload_json',
+      JSON.stringify({
+        ...payload,
+        attachments: attached.map((file, index) => ({ id: index, filename: file.name })),
+      })
+    );
+    attached.forEach((file, index) => formData.append(`files[${index}]`, file.data, file.name));
+
+    return sendRequest(url.toString(), { method: 'POST', headers, body: formData }, readError);
+  },
+};
@@ -0,0 +1,51 @@
+// Gotify adapter
+// https://gotify.net/api-docs#/message/createMessage
+
+import type { ServiceAdapter } from './common';
+import { formatShareText, missingSetting, trimTrailingSlash } from './common';
+import { buildAuthHeaders } from '../auth';
+import { sendRequest, type ErrorReader } from '../http';
+
+const DEFAULT_PRIORITY = 5;
+
+const readError: ErrorReader = (body) => {
+  const error = body as { error?: string; errorDescription?: string } | undefined;
+  return error?.error ? `${error.error}: ${error.errorDescription || ''}`.trim() : undefined;
+};
+
+export const gotifyAdapter: ServiceAdapter = {
+  label: 'Gotify',
+  urlLabel: 'Server URL',
+  urlPlaceholder: 'https://gotify.example.com',
+  tokenLabel: 'Application token',
+
+  async send(data, destination) {
+    if (!destination.adapter.token) {
+      return missingSetting('Gotify needs an application token');
+    }
+
+    // Gotify has no attachments, so list file names in the message
+    const fileNames = (data.files || []).map((file) => `📎 ${file.name}`);
+    const message = [formatShareText({ ...data, title: '' }), ...fileNames].filter(Boolean).join('\n');
+    const click = /^https?:\/\//.test(data.url) ? data.url : undefined;
+
+    return sendRequest(
+      `${trimTrailingSlash(destination.url)}/message`,
+      {
+        method: 'POST',
+        headers: {
+          ...buildAuthHeaders(destination),
+          'Content-Type': 'application/json',
+          'X-Gotify-Key': destination.adapter.token,
+        },
+        body: JSON.stringify({
+          title: data.title || undefined,
+          message: message || data.title || '(empty share)',
+          priority: DEFAULT_PRIORITY,
+          extras: click ? { 'client::notification': { click: { url: click } } } : undefined,
+        }),
+      },
+      readError
+    );
+  },
+};
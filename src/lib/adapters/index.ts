@@ -0,0 +1,26 @@
+// Built-in adapters for common webhook services
+
+import type { AdapterType } from '../storage';
+import type { ServiceAdapter } from './common';
+import { discordAdapter } from './discord';
+import { slackAdapter } from './slack';
+import { ntfyAdapter } from './ntfy';
+import { gotifyAdapter } from './gotify';
+import { matrixAdapter } from './matrix';
+import { telegramAdapter } from './telegram';
+
+export type { ServiceAdapter } from './common';
+
+export const ADAPTERS: Record<Exclude<AdapterType, 'generic'>, ServiceAdapter> = {
+  discord: discordAdapter,
+  slack: slackAdapter,
+  ntfy: ntfyAdapter,
+  gotify: gotifyAdapter,
+  matrix: matrixAdapter,
+  telegram: telegramAdapter,
+};
+
+// Generic destinations have no adapter and use the configured body format
+export function getAdapter(type: AdapterType): ServiceAdapter | null {
+  return type === 'generic' ? null : ADAPTERS[type];
+}
@@ -0,0 +1,94 @@
+// Matrix client-server adapter
+// https://spec.matrix.org/latest/client-server-api/#mroommessage
+
+import type { ServiceAdapter } from './common';
+import { deliveryId, formatShareText, missingSetting, sendAll, trimTrailingSlash } from './common';
+import { buildAuthHeaders } from '../auth';
+import { sendRequest, type ErrorReader, type RelayResponse } from '../http';
+import type { SharedFile } from '../storage';
+
+const readError: ErrorReader = (body) => {
+  const error = body as { errcode?: string; error?: string } | undefined;
+  return error?.errcode ? `${error.errcode}: ${error.error || ''}`.trim() : undefined;
+};
+
+function messageType(file: SharedFile): string {
+  if (file.type.startsWith('image/')) return 'm.image';
+  if (file.type.startsWith('video/')) return 'm.video';
+  if (file.type.startsWith('audio/')) return 'm.audio';
+  return 'm.file';
+}
+
+export const matrixAdapter: ServiceAdapter = {
+  label: 'Matrix room',
+  urlLabel: 'Homeserver URL',
+  urlPlaceholder: 'https://matrix.example.org',
+  tokenLabel: 'Access token',
+  targetLabel: 'Room ID (!room:server)',
+
+  async send(data, destination) {
+    const { token, target: roomId } = destination.adapter;
+    if (!token || !roomId) {
+      return missingSetting('Matrix needs an access token and a room ID');
+    }
+
+    const homeserver = trimTrailingSlash(destination.url);
+    const headers = { ...buildAuthHeaders(destination), Authorization: `Bearer ${token}` };
+
+    // Derived from the share ID like the Idempotency-Key, so a retry reuses the transaction ID
+    // and isn't posted twice, while a resend (which gets a new ID) is posted again
+    const txnId = (index: number) => encodeURIComponent(`relay-${data.id}-${index}`);
+    const sendEvent = (index: number, content: Record<string, unknown>) =>
+      sendRequest(
+        `${homeserver}/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/send/m.room.message/${txnId(index)}`,
+        {
+          method: 'PUT',
+          headers: { ...headers, 'Content-Type': 'application/json' },
+          body: JSON.stringify(content),
+        },
+        readError
+      );
+
+    // Files are uploaded to the media repository first, then referenced by mxc:// URI
+    const sendFile = async (file: SharedFile, index: number): Promise<RelayResponse> => {
+      const upload = await sendRequest(
+        `${homeserver}/_matrix/media/v3/upload?filename=${encodeURIComponent(file.name)}`,
+        {
+          method: 'POST',
+          headers: { ...headers, 'Content-Type': file.type || 'application/octet-stream' },
+          body: file.data,
+        },
+        readError
+      );
+      if (!upload.ok) return upload;
+
+      const { content_uri } = JSON.parse(upload.response || '{}') as { content_uri?: string };
+      if (!content_uri) {
+        return {
+          ok: false,
+          error: 'Matrix upload returned no content_uri',
+          retryable: false,
+          category: 'serverError',
+          exchanges: upload.exchanges,
+        };
+      }
+
+      const event = await sendEvent(index, {
+        msgtype: messageType(file),
+        body: file.name,
+        url: content_uri,
+        info: { mimetype: file.type, size: file.data.size },
+      });
+      return { ...event, exchanges: [...(upload.exchanges || []), ...(event.exchanges || [])] };
+    };
+
+    const text = formatShareText(data);
+    const requests: Array<() => Promise<RelayResponse>> = [];
+    if (text) {
+      requests.push(() => sendEvent(0, { msgtype: 'm.text', body: text }));
+    }
+    (data.files || []).forEach((file, index) => requests.push(() => sendFile(file, index + 1)));
+
+    return sendAll(deliveryId(data, destination), requests);
+  },
+};
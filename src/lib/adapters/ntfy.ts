@@ -0,0 +1,71 @@
+// ntfy adapter
+// https://docs.ntfy.sh/publish/
+
+import type { ServiceAdapter } from './common';
+import { deliveryId, formatShareText, limitLength, sendAll, trimTrailingSlash } from './common';
+import { buildAuthHeaders } from '../auth';
+import { sendRequest, type ErrorReader } from '../http';
+import { bytesToBase64 } from '../files';
+
+const MAX_MESSAGE = 4096;
+
+const readError: ErrorReader = (body) => {
+  const error = body as { error?: string; code?: number } | undefined;
+  return error?.error ? `${error.error} (code ${error.code})` : undefined;
+};
+
+// Headers are ASCII only; ntfy decodes RFC 2047 encoded words
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  return `=?UTF-8?B?${bytesToBase64(new TextEncoder().encode(value))}?=`;
+}
+
+export const ntfyAdapter: ServiceAdapter = {
+  label: 'ntfy',
+  urlLabel: 'Topic URL',
+  urlPlaceholder: 'https://ntfy.sh/my-topic',
+
+  async send(data, destination) {
+    // The topic is the last path segment; anything before it is the server root
+    const topicUrl = new URL(trimTrailingSlash(destination.url));
+    const topic = topicUrl.pathname.split('/').pop() || '';
+    const serverUrl = new URL('.', topicUrl).toString();
+    // The title has its own field, so keep it out of the message body
+    const message = limitLength(formatShareText({ ...data, title: '' }), MAX_MESSAGE);
+    const headers = buildAuthHeaders(destination);
+    const click = /^https?:\/\//.test(data.url) ? data.url : undefined;
+
+    const files = data.files || [];
+    if (files.length === 0) {
+      // JSON publishing to the server root keeps the message UTF-8 safe
+      return sendRequest(
+        serverUrl,
+        {
+          method: 'POST',
+          headers: { ...headers, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ topic, title: data.title || undefined, message, click }),
+        },
+        readError
+      );
+    }
+
+    // ntfy takes one attachment per message, uploaded as the raw request body
+    return sendAll(
+      deliveryId(data, destination),
+      files.map((file, index) => () => {
+        const fileHeaders: Record<string, string> = { ...headers, Filename: encodeHeader(file.name) };
+        // Only the first attachment carries the share text
+        if (index === 0) {
+          if (data.title) fileHeaders['Title'] = encodeHeader(data.title);
+          if (message) fileHeaders['Message'] = encodeHeader(message.replace(/\n/g, '\\n'));
+          if (click) fileHeaders['Click'] = click;
+        }
+        return sendRequest(
+          topicUrl.toString(),
+          { method: 'PUT', headers: fileHeaders, body: file.data },
+          readError
+        );
+      })
+    );
+  },
+};
@@ -0,0 +1,47 @@
+// Slack incoming webhook adapter
+// https://api.slack.com/messaging/webhooks
+
+import type { ServiceAdapter } from './common';
+import { formatShareText, limitLength } from './common';
+import { buildAuthHeaders } from '../auth';
+import { sendRequest } from '../http';
+
+const MAX_TEXT = 4000;
+const MAX_HEADER = 150;
+const MAX_SECTION = 3000;
+
+export const slackAdapter: ServiceAdapter = {
+  label: 'Slack incoming webhook',
+  urlLabel: 'Webhook URL',
+  urlPlaceholder: 'https://hooks.slack.com/services/T000/B000/XXXX',
+
+  async send(data, destination) {
+    // Incoming webhooks can't upload files, so list them instead
+    const fileNames = (data.files || []).map((file) => `📎 ${file.name}`);
+    const body = [formatShareText({ ...data, title: '' }), ...fileNames].filter(Boolean).join('\n');
+
+    const blocks: unknown[] = [];
+    if (data.title) {
+      blocks.push({
+        type: 'header',
+        text: { type: 'plain_text', text: limitLength(data.title, MAX_HEADER) },
+      });
+    }
+    if (body) {
+      blocks.push({
+        type: 'section',
+        text: { type: 'mrkdwn', text: limitLength(body, MAX_SECTION) },
+      });
+    }
+
+    // text is the notification fallback when blocks are present
+    const text = limitLength([formatShareText(data), ...fileNames].join('\n'), MAX_TEXT);
+
+    // Slack answers with plain-text errors such as "invalid_payload"
+    return sendRequest(destination.url, {
+      method: 'POST',
+      headers: { ...buildAuthHeaders(destination), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text, blocks }),
+    });
+  },
+};
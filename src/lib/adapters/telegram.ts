@@ -0,0 +1,72 @@
+// Telegram Bot API adapter
+// https://core.telegram.org/bots/api#sendmessage
+
+import type { ServiceAdapter } from './common';
+import { deliveryId, formatShareText, limitLength, missingSetting, sendAll, trimTrailingSlash } from './common';
+import { buildAuthHeaders } from '../auth';
+import { sendRequest, type ErrorReader, type RelayResponse } from '../http';
+
+const MAX_TEXT = 4096;
+const MAX_CAPTION = 1024;
+// sendPhoto re-encodes images; anything else goes through sendDocument
+const PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const MAX_PHOTO_BYTES = 10 * 1024 * 1024;
+
+const readError: ErrorReader = (body) => {
+  const error = body as { description?: string; error_code?: number } | undefined;
+  return error?.description ? `${error.description} (code ${error.error_code})` : undefined;
+};
+
+export const telegramAdapter: ServiceAdapter = {
+  label: 'Telegram bot',
+  urlLabel: 'Bot API URL',
+  urlPlaceholder: 'https://api.telegram.org',
+  defaultUrl: 'https://api.telegram.org',
+  tokenLabel: 'Bot token',
+  targetLabel: 'Chat ID',
+
+  async send(data, destination) {
+    const { token, target: chatId } = destination.adapter;
+    if (!token || !chatId) {
+      return missingSetting('Telegram needs a bot token and a chat ID');
+    }
+
+    const apiUrl = `${trimTrailingSlash(destination.url)}/bot${token}`;
+    const headers = buildAuthHeaders(destination);
+    const text = formatShareText(data);
+    const files = data.files || [];
+
+    const sendMessage = () =>
+      sendRequest(
+        `${apiUrl}/sendMessage`,
+        {
+          method: 'POST',
+          headers: { ...headers, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ chat_id: chatId, text: limitLength(text, MAX_TEXT) }),
+        },
+        readError
+      );
+
+    // Short text rides along as the first file's caption, longer text gets its own message
+    const useCaption = files.length > 0 && text.length <= MAX_CAPTION;
+    const requests: Array<() => Promise<RelayResponse>> = [];
+    if (text && !useCaption) requests.push(sendMessage);
+
+    files.forEach((file, index) => {
+      requests.push(() => {
+        const isPhoto = PHOTO_TYPES.includes(file.type) && file.data.size <= MAX_PHOTO_BYTES;
+        const formData = new FormData();
+        formData.append('chat_id', chatId);
+        formData.append(isPhoto ? 'photo' : 'document', file.data, file.name);
+        if (index === 0 && useCaption && text) formData.append('caption', text);
+        return sendRequest(
+          `${apiUrl}/${isPhoto ? 'sendPhoto' : 'sendDocument'}`,
+          { method: 'POST', headers, body: formData },
+          readError
+        );
+      });
+    });
+
+    return sendAll(deliveryId(data, destination), requests);
+  },
+};
@@ -0,0 +1,59 @@
+// Auth module for per-destination credentials and request signing
+
+import type { Destination } from './storage';
+import { bytesToBase64 } from './files';
+
+export const SIGNATURE_HEADER = 'X-Relay-Signature';
+export const TIMESTAMP_HEADER = 'X-Relay-Timestamp';
+
+export function buildAuthHeaders(destination: Destination): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const header of destination.headers) {
+    if (header.name.trim()) headers[header.name.trim()] = header.value;
+  }
+
+  const { auth } = destination;
+  if (auth.type === 'bearer' && auth.token) {
+    headers['Authorization'] = `Bearer ${auth.token}`;
+  } else if (auth.type === 'basic' && auth.username) {
+    // Encode as UTF-8 first; btoa only accepts Latin-1
+    const credentials = new TextEncoder().encode(`${auth.username}:${auth.password}`);
+    headers['Authorization'] = `Basic ${bytesToBase64(credentials)}`;
+  }
+
+  return headers;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Signs "<timestamp>.<body>" so a captured request can't be replayed later
+export async function buildSignatureHeaders(
+  secret: string,
+  body: Uint8Array
+): Promise<Record<string, string>> {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const encoder = new TextEncoder();
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  const prefix = encoder.encode(`${timestamp}.`);
+  const message = new Uint8Array(prefix.length + body.length);
+  message.set(prefix);
+  message.set(body, prefix.length);
+
+  const signature = await crypto.subtle.sign('HMAC', key, message);
+
+  return {
+    [TIMESTAMP_HEADER]: timestamp,
+    [SIGNATURE_HEADER]: `sha256=${toHex(signature)}`,
+  };
+}
@@ -0,0 +1,303 @@
+// Batched delivery: shares collected per destination and sent as one JSON array
+//
+// A batch goes out when enough shares are waiting (by count or file size), when
+// the oldest has waited for the interval, or when the user sends it by hand.
+// Receivers can answer with a result per share. Shares the receiver rejected
+// with `retryable: true`, or that couldn't be prepared for a retryable reason,
+// wait for the next batch with the outbox's backoff and attempt limit; other
+// rejections are final.
+
+import { openShareDB, requestToPromise, BATCH_STORE } from './db';
+import { sendBatch, type BatchRelayResponse } from './relay';
+import type { RelayResponse } from './http';
+import { describeRelayResult, updateLogEntry } from './history';
+import { CLAIM_TIMEOUT, getRetryDelay, MAX_ATTEMPTS, renewClaims } from './outbox';
+import { getDestinationLabel, type Destination, type RelayConfig, type ShareData } from './storage';
+
+const MB = 1024 * 1024;
+const MINUTE = 60 * 1000;
+
+export interface BatchDelivery {
+  enabled: boolean;
+  // Send once this many shares are waiting; 0 for no limit
+  maxItems: number;
+  // Send once the waiting files add up to this; 0 for no limit
+  maxSizeMB: number;
+  // Send once the oldest share has waited this long; 0 to wait for a limit or a manual send
+  intervalMinutes: number;
+}
+
+export const DEFAULT_BATCH_DELIVERY: BatchDelivery = {
+  enabled: false,
+  maxItems: 10,
+  maxSizeMB: 10,
+  intervalMinutes: 60,
+};
+
+export interface BatchItem {
+  // Same as the ID of the history entry that reports it
+  id: string;
+  logId: string;
+  share: ShareData;
+  destinationId: string;
+  // Kept for display once the destination is renamed or removed
+  destinationName: string;
+  createdAt: number;
+  attempts: number;
+  // Earliest time it goes out again after a failed attempt
+  nextAttemptAt: number;
+  // Set while a flush is sending it, so a concurrent flush leaves it alone
+  sendingSince?: number;
+  // Batch of the last failed attempt and why it failed
+  lastBatchId?: string;
+  lastError?: string;
+}
+
+export interface BatchOutcome {
+  batchId: string;
+  destinationId: string;
+  sent: number;
+  failed: number;
+}
+
+// Optional per-share answer: { "results": [{ "id": "...", "ok": false, "error": "...", "retryable": true }] }
+// Only `ok: false` rejects a share; entries without it count as delivered. A
+// rejection is final unless the receiver sets `retryable: true`
+interface ReceiverResult {
+  id: string;
+  ok?: boolean;
+  error?: string;
+  retryable?: boolean;
+}
+
+// Batching needs the JSON body; the other formats and the service adapters send one share per request
+export function isBatched(destination: Destination): boolean {
+  return (
+    destination.batching.enabled &&
+    destination.adapter.type === 'generic' &&
+    destination.format === 'json'
+  );
+}
+
+// Enough of the ID to tell batches apart in the app; searching the history finds the full one
+export function shortBatchId(batchId: string): string {
+  return batchId.slice(0, 8);
+}
+
+export async function getBatchItems(): Promise<BatchItem[]> {
+  try {
+    const db = await openShareDB();
+    const store = db.transaction(BATCH_STORE, 'readonly').objectStore(BATCH_STORE);
+    const items = await requestToPromise(store.getAll() as IDBRequest<BatchItem[]>);
+    return items.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (e) {
+    console.error('Error reading batches:', e);
+    return [];
+  }
+}
+
+async function putBatchItem(item: BatchItem): Promise<void> {
+  const db = await openShareDB();
+  const store = db.transaction(BATCH_STORE, 'readwrite').objectStore(BATCH_STORE);
+  await requestToPromise(store.put(item));
+}
+
+async function removeBatchItem(id: string): Promise<void> {
+  const db = await openShareDB();
+  const store = db.transaction(BATCH_STORE, 'readwrite').objectStore(BATCH_STORE);
+  await requestToPromise(store.delete(id));
+}
+
+export async function addToBatch(share: ShareData, destination: Destination, logId: string): Promise<BatchItem> {
+  const now = Date.now();
+  const item: BatchItem = {
+    id: logId,
+    logId,
+    share,
+    destinationId: destination.id,
+    destinationName: getDestinationLabel(destination),
+    createdAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
+  };
+  await putBatchItem(item);
+  return item;
+}
+
+export function batchBytes(items: BatchItem[]): number {
+  return items.reduce(
+    (total, item) => total + item.share.files.reduce((sum, file) => sum + file.data.size, 0),
+    0
+  );
+}
+
+// When the interval sends the waiting shares, or null when only a limit or the user does
+export function scheduledFlush(items: BatchItem[], batching: BatchDelivery): number | null {
+  if (items.length === 0 || !batching.intervalMinutes) return null;
+  return Math.min(...items.map((item) => item.createdAt)) + batching.intervalMinutes * MINUTE;
+}
+
+function isDue(items: BatchItem[], batching: BatchDelivery, now: number): boolean {
+  if (items.length === 0) return false;
+  if (batching.maxItems && items.length >= batching.maxItems) return true;
+  if (batching.maxSizeMB && batchBytes(items) >= batching.maxSizeMB * MB) return true;
+  const scheduled = scheduledFlush(items, batching);
+  return scheduled !== null && scheduled <= now;
+}
+
+// Mark the destination's ready shares as sending, if `take` wants them, in one transaction
+async function claimItems(
+  destinationId: string,
+  take: (ready: BatchItem[], now: number) => boolean,
+  force: boolean
+): Promise<BatchItem[]> {
+  const now = Date.now();
+  const db = await openShareDB();
+  const store = db.transaction(BATCH_STORE, 'readwrite').objectStore(BATCH_STORE);
+  const items = await requestToPromise(store.getAll() as IDBRequest<BatchItem[]>);
+  const ready = items
+    .filter(
+      (item) =>
+        item.destinationId === destinationId &&
+        (!item.sendingSince || now - item.sendingSince > CLAIM_TIMEOUT) &&
+        (force || item.nextAttemptAt <= now)
+    )
+    .sort((a, b) => a.createdAt - b.createdAt);
+  if (!take(ready, now)) return [];
+
+  const claimed = ready.map((item) => ({ ...item, sendingSince: now }));
+  await Promise.all(claimed.map((item) => requestToPromise(store.put(item))));
+  return claimed;
+}
+
+function readReceiverResults(response: string | undefined): ReceiverResult[] {
+  try {
+    const results = JSON.parse(response || '').results;
+    if (!Array.isArray(results)) return [];
+    return results.filter(
+      (result): result is ReceiverResult =>
+        typeof result === 'object' && result !== null && !Array.isArray(result) && typeof result.id === 'string'
+    );
+  } catch {
+    return [];
+  }
+}
+
+async function settleFailure(item: BatchItem, batchId: string, failure: RelayResponse): Promise<void> {
+  const attempts = item.attempts + 1;
+  const giveUp = !failure.retryable || attempts >= MAX_ATTEMPTS;
+  await updateLogEntry(item.logId, {
+    status: giveUp ? 'error' : 'queued',
+    attempts,
+    ...describeRelayResult(failure),
+  });
+  if (giveUp) {
+    await removeBatchItem(item.id);
+    return;
+  }
+  const { sendingSince: _, ...rest } = item;
+  await putBatchItem({
+    ...rest,
+    attempts,
+    nextAttemptAt: Date.now() + getRetryDelay(attempts),
+    lastBatchId: batchId,
+    lastError: failure.error,
+  });
+}
+
+// Send the destination's waiting shares if a limit or the schedule says so, or now when forced
+export async function flushBatch(
+  destination: Destination,
+  options: { force?: boolean } = {}
+): Promise<BatchOutcome | null> {
+  const force = Boolean(options.force);
+  const items = await claimItems(
+    destination.id,
+    (ready, now) => ready.length > 0 && (force || isDue(ready, destination.batching, now)),
+    force
+  );
+  if (items.length === 0) return null;
+
+  const batchId = crypto.randomUUID();
+  await Promise.all(
+    items.map((item) => updateLogEntry(item.logId, { status: 'pending', batchId, batchSize: items.length }))
+  );
+
+  const stopRenewing = renewClaims(BATCH_STORE, items.map((item) => item.id));
+  let result: BatchRelayResponse;
+  try {
+    result = await sendBatch(batchId, items.map((item) => item.share), destination);
+  } finally {
+    stopRenewing();
+  }
+  const rejected = new Map<string, RelayResponse>(
+    result.skipped.map((skip) => [
+      skip.id,
+      { ...result, ok: false, error: skip.error, retryable: skip.retryable, category: 'request' },
+    ])
+  );
+  if (result.ok) {
+    for (const answer of readReceiverResults(result.response)) {
+      if (answer.ok !== false) continue;
+      rejected.set(answer.id, {
+        ...result,
+        ok: false,
+        error: answer.error || 'Rejected by the receiver',
+        retryable: answer.retryable === true,
+        category: 'clientError',
+      });
+    }
+  }
+
+  let failed = 0;
+  for (const [index, item] of items.entries()) {
+    // Every entry shows the request, but only the first keeps the body so the history doesn't hold N copies
+    const exchanges =
+      index === 0 ? result.exchanges : result.exchanges?.map((exchange) => ({ ...exchange, requestBody: null }));
+    const failure = rejected.get(item.share.id) ?? (result.ok ? null : result);
+    if (failure) {
+      failed++;
+      await settleFailure(item, batchId, { ...failure, exchanges });
+      continue;
+    }
+    await updateLogEntry(item.logId, {
+      status: 'success',
+      attempts: item.attempts + 1,
+      ...describeRelayResult({ ...result, exchanges }),
+    });
+    await removeBatchItem(item.id);
+  }
+
+  return { batchId, destinationId: destination.id, sent: items.length - failed, failed };
+}
+
+// Send every batch that is due; runs with the outbox retries
+export async function flushDueBatches(config: RelayConfig): Promise<BatchOutcome[]> {
+  const waiting = [...new Set((await getBatchItems()).map((item) => item.destinationId))];
+  const outcomes: BatchOutcome[] = [];
+  for (const destinationId of waiting) {
+    const destination = config.destinations.find((item) => item.id === destinationId);
+    if (!destination) {
+      await dropBatch(destinationId, 'Destination no longer exists');
+      continue;
+    }
+    // Shares collected before batching was turned off still go out together, right away
+    const outcome = await flushBatch(destination, { force: !isBatched(destination) });
+    if (outcome) outcomes.push(outcome);
+  }
+  return outcomes;
+}
+
+export async function dropBatchItem(item: BatchItem, reason = 'Dropped from batch'): Promise<void> {
+  await removeBatchItem(item.id);
+  await updateLogEntry(item.logId, {
+    status: 'error',
+    error: item.lastError ? `${reason}: ${item.lastError}` : reason,
+  });
+}
+
+async function dropBatch(destinationId: string, reason: string): Promise<void> {
+  for (const item of await getBatchItems()) {
+    if (item.destinationId === destinationId) await dropBatchItem(item, reason);
+  }
+}
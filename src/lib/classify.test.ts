@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { classifyShare, parseGeoUri, parseICalendar, parseMapUrl, parseShareDetails, parseVCard } from './classify';
+import type { ShareData } from './storage';
+
+function share(fields: Partial<ShareData>): ShareData {
+  return { id: 'share', title: '', text: '', url: '', files: [], timestamp: 0, ...fields };
+}
+
+function file(name: string, type: string, content = ''): ShareData['files'][number] {
+  return { name, type, data: new Blob([content], { type }) };
+}
+
+describe('classifyShare', () => {
+  it('lets a contact card win over other files', () => {
+    expect(classifyShare(share({ files: [file('a.jpg', 'image/jpeg'), file('b.vcf', '')] }))).toBe('contact');
+    expect(classifyShare(share({ files: [file('a.jpg', 'image/jpeg'), file('b.pdf', 'application/pdf')] }))).toBe(
+      'image'
+    );
+  });
+
+  it('tells locations, links and text apart', () => {
+    expect(classifyShare(share({ text: 'Meet here geo:52.52,13.40' }))).toBe('location');
+    expect(classifyShare(share({ url: 'https://maps.app.goo.gl/abc' }))).toBe('location');
+    expect(classifyShare(share({ url: 'https://www.google.com/search?q=maps' }))).toBe('link');
+    expect(classifyShare(share({ text: 'just words' }))).toBe('text');
+  });
+});
+
+describe('parseGeoUri', () => {
+  it('ignores parameters after the coordinates and labels with the query', () => {
+    expect(parseGeoUri('geo:52.52,13.40;u=35;crs=wgs84?q=Berlin')).toEqual({ lat: 52.52, lon: 13.4, label: 'Berlin' });
+    expect(parseGeoUri('geo:-33.86,151.21,40')).toEqual({ lat: -33.86, lon: 151.21 });
+  });
+
+  it('reads the place from q when the path is 0,0', () => {
+    expect(parseGeoUri('geo:0,0?q=48.85,2.35(Eiffel%20Tower)')).toEqual({
+      lat: 48.85,
+      lon: 2.35,
+      label: 'Eiffel Tower',
+    });
+    expect(parseGeoUri('geo:0,0?q=1600+Amphitheatre+Parkway')).toBeUndefined();
+  });
+
+  it('rejects coordinates out of range and other schemes', () => {
+    expect(parseGeoUri('geo:95,10')).toBeUndefined();
+    expect(parseGeoUri('https://example.com/geo:1,2')).toBeUndefined();
+  });
+});
+
+describe('parseMapUrl', () => {
+  it('prefers the Google pin over the map view', () => {
+    const url = new URL('https://www.google.com/maps/place/Brandenburg+Gate/@52.5,13.3,15z/data=!3d52.5163!4d13.3777');
+    expect(parseMapUrl(url)).toEqual({ lat: 52.5163, lon: 13.3777, label: 'Brandenburg Gate' });
+  });
+
+  it('reads OpenStreetMap markers and views', () => {
+    expect(parseMapUrl(new URL('https://www.openstreetmap.org/?mlat=51.5&mlon=-0.12#map=15/51.4/-0.1'))).toEqual({
+      lat: 51.5,
+      lon: -0.12,
+    });
+    expect(parseMapUrl(new URL('https://www.openstreetmap.org/#map=15/51.4/-0.1'))).toEqual({ lat: 51.4, lon: -0.1 });
+  });
+});
+
+describe('parseVCard', () => {
+  it('reads escaped, grouped and quoted-printable fields', () => {
+    const card = [
+      'BEGIN:VCARD',
+      'VERSION:2.1',
+      'N:Doe;Jane;;Dr.;',
+      'ORG:Acme\\, Inc.;Research',
+      'item1.TEL;TYPE=CELL:tel:+49 30 1234',
+      'EMAIL:jane@example.com',
+      'ADR;ENCODING=QUOTED-PRINTABLE:;;Stra=C3=9Fe 1;Ber=',
+      'lin;;10115;DE',
+      'END:VCARD',
+    ].join('\r\n');
+
+    expect(parseVCard(card)).toEqual([
+      {
+        name: 'Dr. Jane Doe',
+        organization: 'Acme, Inc., Research',
+        phones: ['+49 30 1234'],
+        emails: ['jane@example.com'],
+        urls: [],
+        addresses: ['Straße 1, Berlin, 10115, DE'],
+      },
+    ]);
+  });
+
+  it('leaves fields the card lacks empty', () => {
+    expect(parseVCard('BEGIN:VCARD\nFN:Solo\nEND:VCARD\nBEGIN:VCARD\nEND:VCARD')).toEqual([
+      { name: 'Solo', phones: [], emails: [], urls: [], addresses: [] },
+      { phones: [], emails: [], urls: [], addresses: [] },
+    ]);
+  });
+});
+
+describe('parseICalendar', () => {
+  it('unfolds continuation lines and reads dates and time zones', () => {
+    const calendar = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'SUMMARY:Quarterly planning with a title long enough to be fol',
+      ' ded onto a second line',
+      'DTSTART;TZID="Europe/Berlin":20260102T090000',
+      'DTEND;TZID="Europe/Berlin":20260102T100000',
+      'LOCATION:Room 1\\, second floor',
+      'DESCRIPTION:Agenda:\\n- budget',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20260105',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    expect(parseICalendar(calendar)).toEqual([
+      {
+        summary: 'Quarterly planning with a title long enough to be folded onto a second line',
+        start: '2026-01-02T09:00:00',
+        end: '2026-01-02T10:00:00',
+        timeZone: 'Europe/Berlin',
+        location: 'Room 1, second floor',
+        description: 'Agenda:\n- budget',
+      },
+      { start: '2026-01-05' },
+    ]);
+  });
+});
+
+describe('parseShareDetails', () => {
+  it('collects the location, contacts and events found in a share', async () => {
+    const details = await parseShareDetails(
+      share({
+        text: 'geo:1.5,2.5',
+        files: [
+          file('card.vcf', 'text/vcard', 'BEGIN:VCARD\nFN:Jane\nEND:VCARD'),
+          file('event.ics', 'text/calendar', 'BEGIN:VEVENT\nSUMMARY:Party\nEND:VEVENT'),
+        ],
+      })
+    );
+
+    expect(details).toEqual({
+      location: { lat: 1.5, lon: 2.5 },
+      contacts: [{ name: 'Jane', phones: [], emails: [], urls: [], addresses: [] }],
+      events: [{ summary: 'Party' }],
+    });
+  });
+
+  it('leaves out what the share has none of', async () => {
+    expect(await parseShareDetails(share({ text: 'nothing here' }))).toEqual({});
+  });
+});
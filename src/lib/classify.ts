@@ -0,0 +1,363 @@
+// Content classification of shares, and parsing of formats with known structure:
+// geo: URIs and map links, vCard (.vcf) and iCalendar (.ics) attachments
+
+import type { ShareData, SharedFile } from './storage';
+import { findShareUrls } from './urls';
+
+export type ShareKind =
+  | 'link'
+  | 'text'
+  | 'image'
+  | 'video'
+  | 'audio'
+  | 'document'
+  | 'contact'
+  | 'location';
+
+export const SHARE_KINDS: Array<{ kind: ShareKind; label: string }> = [
+  { kind: 'link', label: 'Link' },
+  { kind: 'text', label: 'Plain text' },
+  { kind: 'image', label: 'Image' },
+  { kind: 'video', label: 'Video' },
+  { kind: 'audio', label: 'Audio' },
+  { kind: 'document', label: 'Document' },
+  { kind: 'contact', label: 'Contact' },
+  { kind: 'location', label: 'Location' },
+];
+
+export interface GeoLocation {
+  lat: number;
+  lon: number;
+  // Place name from the link, when it has one
+  label?: string;
+}
+
+export interface ContactDetails {
+  name?: string;
+  organization?: string;
+  title?: string;
+  phones: string[];
+  emails: string[];
+  urls: string[];
+  addresses: string[];
+}
+
+export interface EventDetails {
+  summary?: string;
+  // ISO 8601; dates without a time for all-day events
+  start?: string;
+  end?: string;
+  // Time zone of start and end when they are local times
+  timeZone?: string;
+  location?: string;
+  description?: string;
+  url?: string;
+}
+
+// Structured fields parsed from the share; only the ones found are present
+export interface ShareDetails {
+  location?: GeoLocation;
+  contacts?: ContactDetails[];
+  events?: EventDetails[];
+}
+
+// Attachments larger than this are not read for contacts or events
+const MAX_PARSED_FILE_SIZE = 1024 * 1024;
+
+// Hosts whose links point at a place, even when the coordinates aren't in the URL (short links)
+const MAP_HOSTS = [
+  /(^|\.)google\.[a-z.]+$/,
+  /^maps\.app\.goo\.gl$/,
+  /^goo\.gl$/,
+  /(^|\.)openstreetmap\.org$/,
+  /^maps\.apple\.com$/,
+  /^(www\.)?bing\.com$/,
+];
+
+function isMapUrl(url: URL): boolean {
+  if (!MAP_HOSTS.some((host) => host.test(url.hostname))) return false;
+  if (url.hostname.startsWith('google.') || url.hostname.includes('.google.')) {
+    return url.hostname.startsWith('maps.') || url.pathname.startsWith('/maps');
+  }
+  if (url.hostname === 'goo.gl' || url.hostname.endsWith('bing.com')) return url.pathname.startsWith('/maps');
+  return true;
+}
+
+function extension(file: SharedFile): string {
+  return file.name.split('.').pop()?.toLowerCase() || '';
+}
+
+function isContactFile(file: SharedFile): boolean {
+  return /^text\/(x-)?vcard$/i.test(file.type) || extension(file) === 'vcf';
+}
+
+function isCalendarFile(file: SharedFile): boolean {
+  return /^text\/calendar$/i.test(file.type) || extension(file) === 'ics';
+}
+
+function fileKind(file: SharedFile): ShareKind {
+  if (isContactFile(file)) return 'contact';
+  const [type] = file.type.toLowerCase().split('/');
+  if (type === 'image' || type === 'video' || type === 'audio') return type;
+  return 'document';
+}
+
+function toLocation(lat: number, lon: number, label?: string): GeoLocation | undefined {
+  if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    return undefined;
+  }
+  return label ? { lat, lon, label } : { lat, lon };
+}
+
+const COORDINATES = /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)/;
+
+function parseCoordinates(value: string | null, label?: string): GeoLocation | undefined {
+  const match = value?.match(COORDINATES);
+  return match ? toLocation(Number(match[1]), Number(match[2]), label) : undefined;
+}
+
+// geo:52.52,13.40;u=35?q=Berlin or geo:0,0?q=52.52,13.40(Berlin)
+export function parseGeoUri(value: string): GeoLocation | undefined {
+  const match = value.trim().match(/^geo:([^?]*)(?:\?(.*))?$/i);
+  if (!match) return undefined;
+  const query = new URLSearchParams(match[2] || '').get('q') || '';
+  const label = query.match(/\(([^)]*)\)\s*$/)?.[1];
+  const fromPath = parseCoordinates(match[1], label || query || undefined);
+  // Android puts 0,0 in the path and the place in q, as coordinates or an address to search
+  if (!fromPath || (fromPath.lat === 0 && fromPath.lon === 0 && query)) {
+    return parseCoordinates(query, label);
+  }
+  return fromPath;
+}
+
+export function parseMapUrl(url: URL): GeoLocation | undefined {
+  const params = url.searchParams;
+  const path = decodeURIComponent(url.pathname);
+  const place = path.match(/\/place\/([^/]+)/)?.[1]?.replace(/\+/g, ' ');
+
+  // Google: !3d<lat>!4d<lon> is the place itself, @<lat>,<lon> only the map view
+  const pin = path.match(/!3d(-?\d+(?:\.\d+)?)!4d(-?\d+(?:\.\d+)?)/);
+  if (pin) return toLocation(Number(pin[1]), Number(pin[2]), place);
+  for (const name of ['q', 'query', 'll', 'destination', 'daddr', 'sll', 'cp']) {
+    const location = parseCoordinates(params.get(name)?.replace('~', ',') ?? null, place);
+    if (location) return location;
+  }
+  const view = path.match(/@(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/);
+  if (view) return toLocation(Number(view[1]), Number(view[2]), place);
+
+  // OpenStreetMap: ?mlat=&mlon= marks a point, #map=<zoom>/<lat>/<lon> is the view
+  const marker = toLocation(Number(params.get('mlat') ?? NaN), Number(params.get('mlon') ?? NaN));
+  if (marker) return marker;
+  const hash = url.hash.match(/map=\d+(?:\.\d+)?\/(-?\d+(?:\.\d+)?)\/(-?\d+(?:\.\d+)?)/);
+  return hash ? toLocation(Number(hash[1]), Number(hash[2])) : undefined;
+}
+
+function findGeoUri(data: ShareData): string | undefined {
+  return [data.url, data.text, data.title]
+    .map((value) => value?.match(/\bgeo:[^\s]+/i)?.[0])
+    .find(Boolean);
+}
+
+function findMapUrl(data: ShareData): URL | undefined {
+  return findShareUrls(data).find(isMapUrl);
+}
+
+function findLocation(data: ShareData): GeoLocation | undefined {
+  const geo = findGeoUri(data);
+  if (geo) return parseGeoUri(geo);
+  const map = findMapUrl(data);
+  return map && parseMapUrl(map);
+}
+
+// A contact card wins over the other files; otherwise the first file decides
+export function classifyShare(data: ShareData): ShareKind {
+  const files = data.files || [];
+  if (files.some(isContactFile)) return 'contact';
+  if (files.length > 0) return fileKind(files[0]);
+  if (findGeoUri(data) || findMapUrl(data)) return 'location';
+  if (findShareUrls(data).length > 0) return 'link';
+  return 'text';
+}
+
+// vCard and iCalendar share the content line syntax: NAME;PARAM=x:value, folded
+// onto continuation lines that start with a space or tab
+interface ContentLine {
+  name: string;
+  params: string[];
+  value: string;
+}
+
+function decodeQuotedPrintable(value: string): string {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const hex = value[i] === '=' && value.slice(i + 1, i + 3);
+    if (hex && /^[0-9A-F]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...new TextEncoder().encode(value[i]));
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+}
+
+function parseContentLines(source: string): ContentLine[] {
+  const rawLines = source.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const lines: ContentLine[] = [];
+  for (let i = 0; i < rawLines.length; i++) {
+    const line = rawLines[i];
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const [name, ...params] = line.slice(0, separator).split(';');
+    let value = line.slice(separator + 1);
+    // vCard 2.1 quoted-printable values continue on the next line after a trailing =
+    const quoted = params.some((param) => /^(ENCODING=)?QUOTED-PRINTABLE$/i.test(param));
+    while (quoted && value.endsWith('=') && i + 1 < rawLines.length) {
+      value = value.slice(0, -1) + rawLines[++i];
+    }
+    lines.push({
+      // vCard groups (item1.TEL) don't matter here
+      name: name.replace(/^.*\./, '').toUpperCase(),
+      params,
+      value: quoted ? decodeQuotedPrintable(value) : value,
+    });
+  }
+  return lines;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+// Structured values separate their parts with unescaped semicolons
+function splitParts(value: string): string[] {
+  return value.split(/(?<!\\);/).map((part) => unescapeText(part).trim());
+}
+
+// Lines between BEGIN:<type> and END:<type>, one list per block
+function blocks(lines: ContentLine[], type: string): ContentLine[][] {
+  const found: ContentLine[][] = [];
+  let current: ContentLine[] | null = null;
+  for (const line of lines) {
+    if (line.name === 'BEGIN' && line.value.toUpperCase() === type) {
+      current = [];
+    } else if (line.name === 'END' && line.value.toUpperCase() === type && current) {
+      found.push(current);
+      current = null;
+    } else {
+      current?.push(line);
+    }
+  }
+  return found;
+}
+
+export function parseVCard(source: string): ContactDetails[] {
+  return blocks(parseContentLines(source), 'VCARD').map((lines) => {
+    const contact: ContactDetails = { phones: [], emails: [], urls: [], addresses: [] };
+    for (const line of lines) {
+      const value = unescapeText(line.value).trim();
+      if (!value) continue;
+      switch (line.name) {
+        case 'FN':
+          contact.name = value;
+          break;
+        case 'N':
+          // Family;Given;Additional;Prefix;Suffix, only used when there is no FN
+          if (!contact.name) {
+            const [family, given, additional, prefix, suffix] = splitParts(line.value);
+            contact.name = [prefix, given, additional, family, suffix].filter(Boolean).join(' ') || undefined;
+          }
+          break;
+        case 'ORG':
+          contact.organization = splitParts(line.value).filter(Boolean).join(', ');
+          break;
+        case 'TITLE':
+          contact.title = value;
+          break;
+        case 'TEL':
+          contact.phones.push(value.replace(/^tel:/i, ''));
+          break;
+        case 'EMAIL':
+          contact.emails.push(value);
+          break;
+        case 'URL':
+          contact.urls.push(value);
+          break;
+        case 'ADR':
+          contact.addresses.push(splitParts(line.value).filter(Boolean).join(', '));
+          break;
+      }
+    }
+    return contact;
+  });
+}
+
+// 20260102T090000Z → 2026-01-02T09:00:00Z, 20260102 → 2026-01-02
+function parseCalendarDate(value: string): string | undefined {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/);
+  if (!match) return undefined;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const date = `${year}-${month}-${day}`;
+  return hour ? `${date}T${hour}:${minute}:${second}${utc}` : date;
+}
+
+export function parseICalendar(source: string): EventDetails[] {
+  return blocks(parseContentLines(source), 'VEVENT').map((lines) => {
+    const event: EventDetails = {};
+    for (const line of lines) {
+      const value = unescapeText(line.value).trim();
+      if (!value) continue;
+      switch (line.name) {
+        case 'SUMMARY':
+          event.summary = value;
+          break;
+        case 'DTSTART':
+        case 'DTEND': {
+          const zone = line.params.find((param) => param.toUpperCase().startsWith('TZID='));
+          if (zone) event.timeZone = zone.slice('TZID='.length).replace(/^"|"$/g, '');
+          event[line.name === 'DTSTART' ? 'start' : 'end'] = parseCalendarDate(value);
+          break;
+        }
+        case 'LOCATION':
+          event.location = value;
+          break;
+        case 'DESCRIPTION':
+          event.description = value;
+          break;
+        case 'URL':
+          event.url = value;
+          break;
+      }
+    }
+    return event;
+  });
+}
+
+async function readSmallFile(file: SharedFile): Promise<string | null> {
+  return file.data.size <= MAX_PARSED_FILE_SIZE ? file.data.text() : null;
+}
+
+export async function parseShareDetails(data: ShareData): Promise<ShareDetails> {
+  const details: ShareDetails = {};
+  const location = findLocation(data);
+  if (location) details.location = location;
+
+  const contacts: ContactDetails[] = [];
+  const events: EventDetails[] = [];
+  for (const file of data.files || []) {
+    try {
+      if (isContactFile(file)) {
+        const text = await readSmallFile(file);
+        if (text) contacts.push(...parseVCard(text));
+      } else if (isCalendarFile(file)) {
+        const text = await readSmallFile(file);
+        if (text) events.push(...parseICalendar(text));
+      }
+    } catch (e) {
+      console.error(`Could not parse ${file.name}:`, e);
+    }
+  }
+  if (contacts.length > 0) details.contacts = contacts;
+  if (events.length > 0) details.events = events;
+  return details;
+}
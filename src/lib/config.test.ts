@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { CONFIG_VERSION, ConfigError, parseConfig, restoreSecrets } from './config';
+import { createDestination, type RelayConfig } from './storage';
+
+describe('parseConfig', () => {
+  it('migrates a single relay URL into a destination', () => {
+    const config = parseConfig({ relayUrl: 'https://example.com/hook' });
+    expect(config.destinations).toHaveLength(1);
+    expect(config.destinations[0]).toMatchObject({ id: 'default', url: 'https://example.com/hook' });
+  });
+
+  it('turns the old auto-relay switch into the policy fallback', () => {
+    const config = parseConfig({ version: 2, destinations: [], autoRelay: true });
+    expect(config.autoRelay).toEqual({ policies: [], fallback: 'send' });
+  });
+
+  it('fills in nested settings the saved destination lacks', () => {
+    const config = parseConfig({
+      version: CONFIG_VERSION,
+      destinations: [{ id: 'a', url: 'https://example.com', auth: { type: 'bearer', token: 't' } }],
+    });
+    expect(config.destinations[0].auth).toMatchObject({ type: 'bearer', token: 't', password: '' });
+    expect(config.destinations[0].batching.enabled).toBe(false);
+  });
+
+  it('still reports wrong types in a destination it completes', () => {
+    const parse = () =>
+      parseConfig({ version: CONFIG_VERSION, destinations: [{ url: 'https://example.com', images: 'small' }] });
+    expect(parse).toThrow('destinations[0].images must be an object, got a string');
+  });
+
+  it('names the fields that are wrong', () => {
+    const parse = () =>
+      parseConfig({
+        version: CONFIG_VERSION,
+        destinations: [{ url: 'https://example.com', auth: { type: 'digest' } }],
+        rules: [{ type: 'mime', pattern: 'image/*', destinationIds: ['missing'] }],
+      });
+    expect(parse).toThrow(ConfigError);
+    expect(parse).toThrow('destinations[0].auth.type must be one of none, bearer, basic, got "digest"');
+  });
+
+  it('refuses configs from a newer version', () => {
+    expect(() => parseConfig({ version: CONFIG_VERSION + 1, destinations: [] })).toThrow(/newer than this app/);
+  });
+});
+
+describe('restoreSecrets', () => {
+  const current: RelayConfig = {
+    ...parseConfig({ version: CONFIG_VERSION, destinations: [] }),
+    destinations: [
+      {
+        ...createDestination('https://relay.example.com/hook'),
+        id: 'home',
+        auth: { type: 'bearer', token: 'secret-token', username: '', password: '' },
+        hmacSecret: 'hmac-secret',
+      },
+    ],
+  };
+
+  it('keeps the secrets of a destination on the same host', () => {
+    const imported = parseConfig({
+      version: CONFIG_VERSION,
+      destinations: [{ id: 'home', url: 'https://relay.example.com/other', auth: { type: 'bearer' } }],
+    });
+    const [destination] = restoreSecrets(imported, current).destinations;
+    expect(destination.auth.token).toBe('secret-token');
+    expect(destination.hmacSecret).toBe('hmac-secret');
+  });
+
+  it('does not hand secrets to a destination that moved to another host', () => {
+    const imported = parseConfig({
+      version: CONFIG_VERSION,
+      destinations: [{ id: 'home', url: 'https://attacker.example.net/hook', auth: { type: 'bearer' } }],
+    });
+    const [destination] = restoreSecrets(imported, current).destinations;
+    expect(destination.auth.token).toBe('');
+    expect(destination.hmacSecret).toBe('');
+  });
+});
@@ -0,0 +1,368 @@
+// Versioned config schema: migrations, validation, export/import and provisioning links
+//
+// Stored and exported configs carry a `version`. Older configs are upgraded one
+// step at a time by MIGRATIONS, then checked against the current schema, which
+// is derived from the default values of each section.
+
+import {
+  createDestination,
+  DEFAULT_HISTORY_RETENTION,
+  type Destination,
+  type RelayConfig,
+  type RoutingRule,
+} from './storage';
+import { DEFAULT_URL_CLEANING } from './urls';
+import { DEFAULT_DUPLICATE_DETECTION } from './duplicates';
+import { DEFAULT_AUTO_RELAY, type AutoRelayPolicy } from './policies';
+import { bytesToBase64, base64ToBytes } from './files';
+
+export const CONFIG_VERSION = 3;
+
+// Hash parameter of provisioning links; kept out of the query so it never reaches a server
+export const PROVISION_PARAM = 'provision';
+
+export interface VersionedConfig extends RelayConfig {
+  version: number;
+}
+
+export class ConfigError extends Error {
+  constructor(public problems: string[]) {
+    super(problems.join('\n'));
+    this.name = 'ConfigError';
+  }
+}
+
+// Messages to show for a failed import
+export function configProblems(e: unknown): string[] {
+  return e instanceof ConfigError ? e.problems : [(e as Error).message];
+}
+
+type RawConfig = Record<string, unknown>;
+
+// Step i upgrades a config from version i to i + 1
+const MIGRATIONS: Array<(config: RawConfig) => RawConfig> = [
+  // 0 → 1: the single relayUrl (forwardUrl before that) becomes a destination
+  ({ relayUrl, forwardUrl, ...config }) => {
+    const legacyUrl = [relayUrl, forwardUrl].find((url): url is string => typeof url === 'string' && url !== '');
+    return {
+      ...config,
+      destinations: legacyUrl ? [{ ...createDestination(legacyUrl), id: 'default' }] : [],
+    };
+  },
+  // 1 → 2: configs start recording their version
+  (config) => config,
+  // 2 → 3: the autoRelay switch becomes the fallback of auto-relay policies
+  ({ autoRelay, ...config }) => ({
+    ...config,
+    autoRelay: { ...DEFAULT_AUTO_RELAY, fallback: autoRelay ? 'send' : 'confirm' },
+  }),
+];
+
+// Configs saved before versioning have destinations (1) or a single URL (0)
+function detectVersion(config: RawConfig): number {
+  if (typeof config.version === 'number') return config.version;
+  return Array.isArray(config.destinations) ? 1 : 0;
+}
+
+export function migrateConfig(raw: unknown): RawConfig {
+  if (!isPlainObject(raw)) throw new ConfigError(['Config must be a JSON object']);
+
+  const version = detectVersion(raw);
+  if (!Number.isInteger(version) || version < 0) {
+    throw new ConfigError([`version must be a whole number, got ${JSON.stringify(raw.version)}`]);
+  }
+  if (version > CONFIG_VERSION) {
+    throw new ConfigError([
+      `Config version ${version} is newer than this app supports (${CONFIG_VERSION}); update the app first`,
+    ]);
+  }
+
+  let config: RawConfig = raw;
+  for (let step = version; step < CONFIG_VERSION; step++) {
+    config = MIGRATIONS[step](config);
+  }
+  // Destination settings are added without a version bump, so every load fills them in
+  if (Array.isArray(config.destinations)) {
+    config = {
+      ...config,
+      destinations: config.destinations.map((destination) =>
+        isPlainObject(destination) ? fillDestination(destination) : destination
+      ),
+    };
+  }
+  return { ...config, version: CONFIG_VERSION };
+}
+
+// Fill in settings added after the destination was saved, including new fields of nested sections.
+// Values that are present are kept as they are, so validation still reports wrong types, and the
+// URL has no default, so a destination without one still fails validation
+function fillDestination(saved: RawConfig): RawConfig {
+  const { url: _, ...defaults } = createDestination();
+  const filled: RawConfig = { ...defaults, ...saved };
+  for (const [key, value] of Object.entries(defaults)) {
+    if (isPlainObject(value) && isPlainObject(saved[key])) filled[key] = { ...value, ...saved[key] };
+  }
+  return filled;
+}
+
+function isPlainObject(value: unknown): value is RawConfig {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function typeName(value: unknown): string {
+  return Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+}
+
+function describeType(value: unknown): string {
+  const name = typeName(value);
+  return /^[aeiou]/.test(name) ? `an ${name}` : `a ${name}`;
+}
+
+const RULE_TEMPLATE: RoutingRule = { id: '', type: 'mime', pattern: '', field: 'any', destinationIds: [] };
+const POLICY_TEMPLATE: AutoRelayPolicy = { id: '', type: 'domain', pattern: '', action: 'confirm' };
+
+// Allowed values for fields that are picked from a list; paths use [] for any index
+const ENUMS: Record<string, string[]> = {
+  'destinations[].format': ['json', 'multipart', 'template'],
+  'destinations[].payloadSchema': ['v1', 'v2'],
+  'destinations[].template.type': ['json', 'form', 'text'],
+  'destinations[].adapter.type': ['generic', 'discord', 'slack', 'ntfy', 'gotify', 'matrix', 'telegram'],
+  'destinations[].auth.type': ['none', 'bearer', 'basic'],
+  'destinations[].images.format': ['original', 'jpeg', 'webp'],
+  'destinations[].images.metadata': ['keep', 'location', 'all'],
+  'destinations[].encryption.mode': ['none', 'passphrase', 'publicKey'],
+  'rules[].type': ['mime', 'domain', 'regex', 'kind'],
+  'rules[].field': ['text', 'url', 'any'],
+  'autoRelay.policies[].type': ['domain', 'files', 'size', 'regex', 'kind'],
+  'autoRelay.policies[].action': ['send', 'confirm', 'block', 'drop'],
+  'autoRelay.fallback': ['send', 'confirm'],
+};
+
+// Fields an imported config must spell out; everything else falls back to its default
+const REQUIRED: Record<string, string[]> = {
+  '': ['destinations'],
+  'destinations[]': ['url'],
+  'rules[]': ['type', 'pattern', 'destinationIds'],
+  'autoRelay.policies[]': ['type', 'action'],
+};
+
+// Compare a value with a template of default values: same keys, same types
+function checkFields(
+  value: unknown,
+  template: unknown,
+  path: string,
+  schemaPath: string,
+  problems: string[]
+): void {
+  const label = path || 'config';
+  if (typeName(value) !== typeName(template)) {
+    problems.push(`${label} must be ${describeType(template)}, got ${describeType(value)}`);
+    return;
+  }
+
+  const allowed = ENUMS[schemaPath];
+  if (allowed && !allowed.includes(value as string)) {
+    problems.push(`${label} must be one of ${allowed.join(', ')}, got ${JSON.stringify(value)}`);
+  }
+
+  if (Array.isArray(value)) {
+    const itemTemplate = (template as unknown[])[0];
+    value.forEach((item, i) => checkFields(item, itemTemplate, `${path}[${i}]`, `${schemaPath}[]`, problems));
+    return;
+  }
+
+  if (!isPlainObject(value)) return;
+  const fields = template as RawConfig;
+  const prefix = path ? `${path}.` : '';
+  for (const key of Object.keys(value)) {
+    if (!(key in fields)) problems.push(`${prefix}${key} is not a known field`);
+  }
+  for (const key of REQUIRED[schemaPath] || []) {
+    if (!(key in value)) problems.push(`${prefix}${key} is missing`);
+  }
+  for (const [key, fieldTemplate] of Object.entries(fields)) {
+    if (!(key in value)) continue;
+    const fieldPath = path ? `${path}.${key}` : key;
+    checkFields(value[key], fieldTemplate, fieldPath, schemaPath ? `${schemaPath}.${key}` : key, problems);
+  }
+}
+
+// Problems with a migrated config, as messages naming the offending field
+export function validateConfig(config: RawConfig): string[] {
+  const template = {
+    version: CONFIG_VERSION,
+    destinations: [{ ...createDestination(), headers: [{ name: '', value: '' }] }],
+    rules: [{ ...RULE_TEMPLATE, destinationIds: [''] }],
+    autoRelay: { ...DEFAULT_AUTO_RELAY, policies: [POLICY_TEMPLATE] },
+    history: DEFAULT_HISTORY_RETENTION,
+    urlCleaning: { ...DEFAULT_URL_CLEANING, stripParams: [''] },
+    duplicates: DEFAULT_DUPLICATE_DETECTION,
+    deviceName: '',
+  };
+  const problems: string[] = [];
+  checkFields(config, template, '', '', problems);
+  if (problems.length > 0) return problems;
+
+  // The field types were checked above
+  const destinations = config.destinations as Destination[];
+  const rules = (config.rules as RoutingRule[] | undefined) || [];
+  const ids = new Set(destinations.map((destination) => destination.id).filter(Boolean));
+  rules.forEach((rule, i) => {
+    for (const id of rule.destinationIds) {
+      if (!ids.has(id)) problems.push(`rules[${i}].destinationIds refers to unknown destination "${id}"`);
+    }
+  });
+  return problems;
+}
+
+// Complete a migrated config with defaults; assumes the field types are valid
+export function normalizeConfig(raw: RawConfig): RelayConfig {
+  // Sections and fields can be missing, but those present have the right types;
+  // migrateConfig has already completed the destinations
+  const config = raw as Partial<RelayConfig>;
+  return {
+    destinations: config.destinations || [],
+    rules: (config.rules || []).map((rule) => ({ ...RULE_TEMPLATE, ...rule, id: rule.id || crypto.randomUUID() })),
+    autoRelay: {
+      ...DEFAULT_AUTO_RELAY,
+      ...config.autoRelay,
+      policies: (config.autoRelay?.policies || []).map((policy) => ({
+        ...POLICY_TEMPLATE,
+        ...policy,
+        id: policy.id || crypto.randomUUID(),
+      })),
+    },
+    history: { ...DEFAULT_HISTORY_RETENTION, ...config.history },
+    urlCleaning: { ...DEFAULT_URL_CLEANING, ...config.urlCleaning },
+    duplicates: { ...DEFAULT_DUPLICATE_DETECTION, ...config.duplicates },
+    deviceName: config.deviceName ?? '',
+  };
+}
+
+// Migrate, validate and complete a config from a file or provisioning link
+export function parseConfig(raw: unknown): RelayConfig {
+  const config = migrateConfig(raw);
+  const problems = validateConfig(config);
+  if (problems.length > 0) throw new ConfigError(problems);
+  return normalizeConfig(config);
+}
+
+export function parseConfigText(text: string): RelayConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new ConfigError([`Not valid JSON: ${(e as Error).message}`]);
+  }
+  return parseConfig(raw);
+}
+
+// Header names that usually carry credentials
+const SECRET_HEADER_PATTERN = /authorization|token|secret|api-?key/i;
+
+function withoutSecrets(destination: Destination): Destination {
+  return {
+    ...destination,
+    adapter: { ...destination.adapter, token: '' },
+    auth: { ...destination.auth, token: '', password: '' },
+    headers: destination.headers.map((header) =>
+      SECRET_HEADER_PATTERN.test(header.name) ? { ...header, value: '' } : header
+    ),
+    hmacSecret: '',
+    encryption: { ...destination.encryption, passphrase: '' },
+  };
+}
+
+export function exportConfig(config: RelayConfig, options: { includeSecrets: boolean }): VersionedConfig {
+  return {
+    version: CONFIG_VERSION,
+    ...config,
+    destinations: options.includeSecrets ? config.destinations : config.destinations.map(withoutSecrets),
+  };
+}
+
+function urlOrigin(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return url;
+  }
+}
+
+// The saved destination whose secrets an imported one may reuse: same ID and same origin,
+// so a config can't point a known ID at another host and collect its credentials
+function secretsSource(destination: Destination, current: RelayConfig): Destination | undefined {
+  const previous = current.destinations.find((item) => item.id === destination.id);
+  return previous && urlOrigin(previous.url) === urlOrigin(destination.url) ? previous : undefined;
+}
+
+// The URL a saved destination with the same ID had, when an imported config moves it to another host
+export function changedDestinationUrl(destination: Destination, current: RelayConfig): string | null {
+  const previous = current.destinations.find((item) => item.id === destination.id);
+  return previous && !secretsSource(destination, current) ? previous.url : null;
+}
+
+// Keep the secrets of matching destinations when the imported config left them out
+export function restoreSecrets(imported: RelayConfig, current: RelayConfig): RelayConfig {
+  const keep = (value: string, previous: string | undefined) => value || previous || '';
+  return {
+    ...imported,
+    destinations: imported.destinations.map((destination) => {
+      const previous = secretsSource(destination, current);
+      if (!previous) return destination;
+      return {
+        ...destination,
+        adapter: { ...destination.adapter, token: keep(destination.adapter.token, previous.adapter.token) },
+        auth: {
+          ...destination.auth,
+          token: keep(destination.auth.token, previous.auth.token),
+          password: keep(destination.auth.password, previous.auth.password),
+        },
+        headers: destination.headers.map((header) => ({
+          ...header,
+          value: keep(header.value, previous.headers.find((item) => item.name === header.name)?.value),
+        })),
+        hmacSecret: keep(destination.hmacSecret, previous.hmacSecret),
+        encryption: {
+          ...destination.encryption,
+          passphrase: keep(destination.encryption.passphrase, previous.encryption.passphrase),
+        },
+      };
+    }),
+  };
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  return base64ToBytes(value.replace(/-/g, '+').replace(/_/g, '/'));
+}
+
+async function transform(bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream) {
+  return new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+}
+
+// A link to this app that loads the config when opened; compressed to keep QR codes small
+export async function buildProvisionLink(config: VersionedConfig, appUrl: string): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(config));
+  const compressed = await transform(json, new CompressionStream('deflate-raw'));
+  const url = new URL(appUrl);
+  url.hash = `${PROVISION_PARAM}=${toBase64Url(compressed)}`;
+  return url.toString();
+}
+
+// The config in a provisioning link's hash, or null when the hash holds none
+export async function readProvisionHash(hash: string): Promise<RelayConfig | null> {
+  const value = new URLSearchParams(hash.replace(/^#/, '')).get(PROVISION_PARAM);
+  if (!value) return null;
+
+  let text: string;
+  try {
+    text = new TextDecoder().decode(await transform(fromBase64Url(value), new DecompressionStream('deflate-raw')));
+  } catch {
+    throw new ConfigError(['The provisioning link is damaged or incomplete']);
+  }
+  return parseConfigText(text);
+}
@@ -0,0 +1,101 @@
+// IndexedDB access shared by the app and the service worker
+//
+// The service worker has no localStorage, so everything in lib that it imports
+// keeps its state here; only storage.ts reads localStorage, for the app.
+
+// Version 1 kept a single share under the 'pending' key
+const LEGACY_SHARE_TARGET_STORE = 'share-target-store';
+export const INBOX_STORE = 'inbox';
+export const OUTBOX_STORE = 'outbox';
+export const HISTORY_STORE = 'history';
+// Share content that history entries point to, kept for replays
+export const SHARE_ARCHIVE_STORE = 'shares';
+// Where unfinished chunked uploads can be resumed
+export const UPLOAD_STORE = 'uploads';
+// Copy of the config for the service worker, which can't read localStorage
+export const SETTINGS_STORE = 'settings';
+// Shares waiting to go out together to destinations that batch their deliveries
+export const BATCH_STORE = 'batches';
+// Messages of multi-request adapter sends that the service already accepted
+export const DELIVERY_STORE = 'deliveries';
+
+const DB_NAME = 'share-target-db';
+const DB_VERSION = 10;
+
+export function openShareDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      const tx = (event.target as IDBOpenDBRequest).transaction!;
+      if (!db.objectStoreNames.contains(INBOX_STORE)) {
+        db.createObjectStore(INBOX_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SHARE_ARCHIVE_STORE)) {
+        db.createObjectStore(SHARE_ARCHIVE_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(UPLOAD_STORE)) {
+        db.createObjectStore(UPLOAD_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+        db.createObjectStore(SETTINGS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(BATCH_STORE)) {
+        db.createObjectStore(BATCH_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(DELIVERY_STORE)) {
+        db.createObjectStore(DELIVERY_STORE, { keyPath: 'id' });
+      }
+      if (db.objectStoreNames.contains(LEGACY_SHARE_TARGET_STORE)) {
+        migrateLegacyShare(db, tx);
+      }
+      if (event.oldVersion < 9) {
+        migrateOutboxDestinations(tx);
+      }
+    };
+  });
+}
+
+// Move a share waiting under the old single key into the inbox
+function migrateLegacyShare(db: IDBDatabase, tx: IDBTransaction): void {
+  const request = tx.objectStore(LEGACY_SHARE_TARGET_STORE).get('pending');
+  request.onsuccess = () => {
+    if (request.result) {
+      const share = request.result;
+      tx.objectStore(INBOX_STORE).put({ ...share, id: `legacy-${share.timestamp}` });
+    }
+    db.deleteObjectStore(LEGACY_SHARE_TARGET_STORE);
+  };
+}
+
+// Outbox items up to version 8 carried a full copy of their destination, secrets included;
+// they now keep its ID and look the destination up on every attempt
+function migrateOutboxDestinations(tx: IDBTransaction): void {
+  const request = tx.objectStore(OUTBOX_STORE).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    const { destination, ...item } = cursor.value;
+    if (destination) {
+      cursor.update({ ...item, destinationId: destination.id, destinationName: destination.name || destination.url });
+    }
+    cursor.continue();
+  };
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+  });
+}
@@ -0,0 +1,177 @@
+// Destination connection test: sends a marked test share the way a real relay
+// would, then works out which step failed. Browsers hide CORS headers from
+// scripts, so the CORS checks are inferred from which probe requests succeed.
+
+import type { Destination, ShareData } from './storage';
+import { sendToDestination } from './relay';
+import type { HttpExchange } from './http';
+import { checkUrl, FAILURE_HINTS, isLocalhost, probeReachable, type FailureCategory } from './failures';
+
+export type CheckResult = 'pass' | 'warn' | 'fail' | 'skipped';
+
+export interface DiagnosticCheck {
+  name: string;
+  result: CheckResult;
+  detail: string;
+}
+
+export interface DestinationDiagnosis {
+  ok: boolean;
+  category?: FailureCategory;
+  status?: number;
+  // Total time of the test relay across all its requests
+  latency?: number;
+  error?: string;
+  response?: string;
+  checks: DiagnosticCheck[];
+}
+
+// Methods and request headers that never trigger a CORS preflight
+const SIMPLE_METHODS = ['GET', 'HEAD', 'POST'];
+const SIMPLE_CONTENT_TYPES = ['application/x-www-form-urlencoded', 'multipart/form-data', 'text/plain'];
+const SIMPLE_HEADERS = ['accept', 'accept-language', 'content-language'];
+
+export function createTestShare(): ShareData {
+  return {
+    id: `test-${crypto.randomUUID()}`,
+    title: 'WebShare Relay connection test',
+    text: 'Test message sent from the WebShare Relay settings. It can be ignored.',
+    url: '',
+    files: [],
+    timestamp: Date.now(),
+    test: true,
+  };
+}
+
+function needsPreflight(name: string, value: string): boolean {
+  if (name === 'content-type') return !SIMPLE_CONTENT_TYPES.includes(value.split(';')[0].trim().toLowerCase());
+  return !SIMPLE_HEADERS.includes(name);
+}
+
+// Headers of the recorded request that make the browser ask the server first; secrets are
+// redacted in the record, but only the names matter to a preflight
+function preflightHeaders(exchange: HttpExchange): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(exchange.requestHeaders)
+      .filter(([name, value]) => needsPreflight(name, value))
+      .map(([name, value]) => [name, value === '***' ? 'test' : value])
+  );
+}
+
+// A CORS-mode HEAD request: resolves only when the server's CORS headers allow it
+async function corsProbe(url: string, headers: Record<string, string> = {}): Promise<boolean> {
+  try {
+    await fetch(url, { method: 'HEAD', headers, cache: 'no-store' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function diagnoseCors(url: string, exchange: HttpExchange): Promise<DiagnosticCheck[]> {
+  const origin = location.origin;
+  const checks: DiagnosticCheck[] = [];
+
+  const originAllowed = await corsProbe(url);
+  checks.push({
+    name: 'CORS origin',
+    result: originAllowed ? 'pass' : 'fail',
+    detail: originAllowed
+      ? `Access-Control-Allow-Origin allows ${origin}`
+      : `Responses lack an Access-Control-Allow-Origin header allowing ${origin}`,
+  });
+
+  const headers = preflightHeaders(exchange);
+  const names = Object.keys(headers);
+  if (names.length === 0) {
+    checks.push({ name: 'CORS headers', result: 'pass', detail: 'The request sends no headers that need a preflight' });
+  } else if (await corsProbe(url, headers)) {
+    checks.push({ name: 'CORS headers', result: 'pass', detail: `Preflight allows ${names.join(', ')}` });
+  } else {
+    // Try the headers one at a time to name the ones the preflight rejects
+    const rejected: string[] = [];
+    for (const name of names) {
+      if (!(await corsProbe(url, { [name]: headers[name] }))) rejected.push(name);
+    }
+    checks.push({
+      name: 'CORS headers',
+      result: 'fail',
+      detail:
+        rejected.length > 0 && rejected.length < names.length
+          ? `Access-Control-Allow-Headers must include ${rejected.join(', ')}`
+          : `The preflight (OPTIONS) for ${names.join(', ')} fails; it must answer 2xx with Access-Control-Allow-Headers listing them`,
+    });
+  }
+
+  const method = exchange.method.toUpperCase();
+  checks.push(
+    SIMPLE_METHODS.includes(method)
+      ? { name: 'CORS methods', result: 'pass', detail: `${method} needs no Access-Control-Allow-Methods entry` }
+      : {
+          name: 'CORS methods',
+          result: 'skipped',
+          detail: `Access-Control-Allow-Methods must include ${method}; checking it would mean sending a real ${method} request`,
+        }
+  );
+  return checks;
+}
+
+function connectionCheck(url: string): DiagnosticCheck {
+  const problem = checkUrl(url);
+  if (problem) return { name: 'Connection', result: 'fail', detail: FAILURE_HINTS[problem] };
+  const parsed = new URL(url);
+  const { protocol, hostname } = parsed;
+  if (protocol === 'https:') return { name: 'Connection', result: 'pass', detail: `HTTPS to ${hostname}` };
+  if (isLocalhost(parsed)) return { name: 'Connection', result: 'pass', detail: `Plain HTTP to ${hostname}` };
+  return {
+    name: 'Connection',
+    result: 'warn',
+    detail: `Plain HTTP to ${hostname}: shares are readable on the network`,
+  };
+}
+
+export async function testDestination(destination: Destination): Promise<DestinationDiagnosis> {
+  const connection = connectionCheck(destination.url);
+  if (connection.result === 'fail') {
+    return { ok: false, category: checkUrl(destination.url)!, error: connection.detail, checks: [connection] };
+  }
+
+  const result = await sendToDestination(createTestShare(), destination);
+  const exchanges = result.exchanges || [];
+  const last = exchanges[exchanges.length - 1];
+  const latency = exchanges.reduce((total, exchange) => total + exchange.duration, 0);
+  const category = result.ok ? undefined : (result.category ?? 'request');
+  const diagnosis = { ok: result.ok, category, error: result.error, response: result.response };
+  const checks: DiagnosticCheck[] = [connection];
+
+  if (!last) {
+    // Failed before anything was sent
+    checks.push({ name: 'Request', result: 'fail', detail: result.error || FAILURE_HINTS[category!] });
+    return { ...diagnosis, checks };
+  }
+
+  if (last.status !== undefined) {
+    // Reading the status means CORS let the response through
+    checks.push(
+      { name: 'Reachability', result: 'pass', detail: `Answered in ${latency} ms` },
+      { name: 'CORS', result: 'pass', detail: 'The browser let the app read the response' },
+      {
+        name: 'Status',
+        result: result.ok ? 'pass' : 'fail',
+        detail: result.ok ? `HTTP ${last.status}` : `HTTP ${last.status}: ${FAILURE_HINTS[category!]}`,
+      }
+    );
+    return { ...diagnosis, status: last.status, latency, checks };
+  }
+
+  if (category === 'cors') {
+    const probe = await probeReachable(destination.url);
+    checks.push(
+      { name: 'Reachability', result: 'pass', detail: `The server answers (${probe.latency} ms)` },
+      ...(await diagnoseCors(destination.url, last))
+    );
+  } else {
+    checks.push({ name: 'Reachability', result: 'fail', detail: FAILURE_HINTS[category!] });
+  }
+  return { ...diagnosis, checks };
+}
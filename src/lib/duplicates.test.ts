@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createFingerprintCache, findDuplicate, fingerprintShare } from './duplicates';
+import type { ShareData } from './storage';
+
+const MINUTE = 60 * 1000;
+const settings = { windowMinutes: 10 };
+
+function share(id: string, fields: Partial<ShareData> = {}): ShareData {
+  return { id, title: '', text: '', url: '', files: [], timestamp: 0, ...fields };
+}
+
+async function relayedShare(id: string, fields: Partial<ShareData>): Promise<ShareData> {
+  const data = share(id, fields);
+  return { ...data, fingerprint: await fingerprintShare(data) };
+}
+
+describe('fingerprintShare', () => {
+  it('ignores titles, tracking parameters, trailing slashes and whitespace', async () => {
+    const a = share('a', { title: 'One', url: 'https://example.com/page/?utm_source=x', text: 'look  here\n' });
+    const b = share('b', { title: 'Two', url: 'https://example.com/page', text: 'look here' });
+    expect(await fingerprintShare(a)).toBe(await fingerprintShare(b));
+  });
+
+  it('tells different text and file contents apart', async () => {
+    const file = (content: string) => ({ name: 'a.txt', type: 'text/plain', data: new Blob([content]) });
+    expect(await fingerprintShare(share('a', { text: 'one' }))).not.toBe(
+      await fingerprintShare(share('b', { text: 'two' }))
+    );
+    expect(await fingerprintShare(share('a', { files: [file('x')] }))).not.toBe(
+      await fingerprintShare(share('b', { files: [file('y')] }))
+    );
+  });
+
+  it('does not depend on the order of files', async () => {
+    const x = { name: 'x.txt', type: 'text/plain', data: new Blob(['x']) };
+    const y = { name: 'y.txt', type: 'text/plain', data: new Blob(['y']) };
+    expect(await fingerprintShare(share('a', { files: [x, y] }))).toBe(
+      await fingerprintShare(share('b', { files: [y, x] }))
+    );
+  });
+});
+
+describe('findDuplicate', () => {
+  const incoming = share('new', { url: 'https://example.com/a', timestamp: 30 * MINUTE });
+
+  it('matches a relayed share within the window on either side', async () => {
+    const before = await relayedShare('before', { url: 'https://example.com/a', timestamp: 21 * MINUTE });
+    const after = await relayedShare('after', { url: 'https://example.com/a', timestamp: 39 * MINUTE });
+    expect(await findDuplicate(incoming, [], [before], settings)).toEqual({
+      shareId: 'before',
+      timestamp: 21 * MINUTE,
+      relayed: true,
+    });
+    expect(await findDuplicate(incoming, [], [after], settings)).toMatchObject({ shareId: 'after' });
+  });
+
+  it('ignores relayed shares outside the window and test shares', async () => {
+    const old = await relayedShare('old', { url: 'https://example.com/a', timestamp: 19 * MINUTE });
+    const test = await relayedShare('test', { url: 'https://example.com/a', timestamp: 30 * MINUTE, test: true });
+    expect(await findDuplicate(incoming, [], [old, test], settings)).toBeNull();
+    expect(await findDuplicate({ ...incoming, test: true }, [], [old], settings)).toBeNull();
+  });
+
+  it('only matches inbox shares that arrived earlier within the window', async () => {
+    const earlier = share('earlier', { url: 'https://example.com/a', timestamp: 25 * MINUTE });
+    const later = share('later', { url: 'https://example.com/a', timestamp: 31 * MINUTE });
+    expect(await findDuplicate(incoming, [incoming, later], [], settings)).toBeNull();
+    expect(await findDuplicate(incoming, [incoming, later, earlier], [], settings)).toEqual({
+      shareId: 'earlier',
+      timestamp: 25 * MINUTE,
+      relayed: false,
+    });
+  });
+});
+
+describe('createFingerprintCache', () => {
+  it('hashes a share once until it is edited', async () => {
+    const digest = vi.spyOn(crypto.subtle, 'digest');
+    const { fingerprint } = createFingerprintCache();
+    const original = share('a', { text: 'one' });
+
+    const first = await fingerprint(original);
+    expect(await fingerprint(original)).toBe(first);
+    expect(digest).toHaveBeenCalledTimes(1);
+    expect(await fingerprint({ ...original, text: 'two' })).not.toBe(first);
+    expect(digest).toHaveBeenCalledTimes(2);
+    digest.mockRestore();
+  });
+});
@@ -0,0 +1,99 @@
+// Detection of shares that repeat a recent one: Android sometimes delivers a
+// share twice, and shares can be sent again from the history or by hand.
+
+import type { ShareData } from './storage';
+import { cleanUrl, DEFAULT_STRIP_PARAMS } from './urls';
+import { hashBlob, sha256Hex } from './files';
+
+export interface DuplicateDetection {
+  // How far apart two shares with the same content count as duplicates; 0 turns detection off
+  windowMinutes: number;
+}
+
+export const DEFAULT_DUPLICATE_DETECTION: DuplicateDetection = {
+  windowMinutes: 10,
+};
+
+export interface DuplicateMatch {
+  shareId: string;
+  timestamp: number;
+  // Already relayed, as opposed to still waiting in the inbox
+  relayed: boolean;
+}
+
+function normalizeUrl(url: string): string {
+  try {
+    return cleanUrl(url.trim(), DEFAULT_STRIP_PARAMS).replace(/\/(?=$|[?#])/, '');
+  } catch {
+    return url.trim();
+  }
+}
+
+// Title, tags and notes are left out: apps often vary the title of the same link
+export async function fingerprintShare(share: ShareData): Promise<string> {
+  const files = await Promise.all((share.files || []).map((file) => hashBlob(file.data)));
+  const content = {
+    url: share.url ? normalizeUrl(share.url) : '',
+    text: (share.text || '').replace(/\s+/g, ' ').trim(),
+    files: files.sort(),
+  };
+  return sha256Hex(new TextEncoder().encode(JSON.stringify(content)));
+}
+
+export type Fingerprinter = (share: ShareData) => Promise<string>;
+
+// Fingerprints of inbox shares, which are compared again on every inbox change, hashed once per
+// share ID; an edited share is a new object and is hashed again
+export function createFingerprintCache() {
+  const cache = new Map<string, { share: ShareData; fingerprint: Promise<string> }>();
+
+  const fingerprint: Fingerprinter = (share) => {
+    const cached = cache.get(share.id);
+    if (cached?.share === share) return cached.fingerprint;
+    const result = fingerprintShare(share);
+    cache.set(share.id, { share, fingerprint: result });
+    result.catch(() => cache.delete(share.id));
+    return result;
+  };
+
+  // Forget shares that have left the inbox
+  const retain = (shares: ShareData[]): void => {
+    const ids = new Set(shares.map((share) => share.id));
+    for (const id of cache.keys()) {
+      if (!ids.has(id)) cache.delete(id);
+    }
+  };
+
+  return { fingerprint, retain };
+}
+
+// The share this one repeats: a relayed share within the window either side of it,
+// or an inbox share that arrived shortly before it. Relayed shares carry the fingerprint
+// recorded when they were archived; the rest go through `fingerprintOf`
+export async function findDuplicate(
+  share: ShareData,
+  inbox: ShareData[],
+  relayed: ShareData[],
+  settings: DuplicateDetection,
+  fingerprintOf: Fingerprinter = fingerprintShare
+): Promise<DuplicateMatch | null> {
+  if (share.test) return null;
+  const window = settings.windowMinutes * 60 * 1000;
+  const fingerprint = await fingerprintOf(share);
+
+  for (const other of relayed) {
+    if (other.id === share.id || other.test || Math.abs(other.timestamp - share.timestamp) > window) continue;
+    if (other.fingerprint === fingerprint) {
+      return { shareId: other.id, timestamp: other.timestamp, relayed: true };
+    }
+  }
+  for (const other of inbox) {
+    if (other.id === share.id || other.timestamp > share.timestamp || share.timestamp - other.timestamp > window) {
+      continue;
+    }
+    if ((await fingerprintOf(other)) === fingerprint) {
+      return { shareId: other.id, timestamp: other.timestamp, relayed: false };
+    }
+  }
+  return null;
+}
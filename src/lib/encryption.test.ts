@@ -0,0 +1,100 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { decryptEnvelope } from '../../server/encryption.js';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER } from './auth';
+import { bytesToBase64 } from './files';
+import { encryptBody, type EncryptedEnvelope, type KeyAgreement } from './encryption';
+import { sendToDestination } from './relay';
+import { createDestination } from './storage';
+
+const body = new TextEncoder().encode('{"text":"hello"}');
+
+// A receiver key pair in the formats the PWA and server/encryption.js take
+async function receiverKeys(agreement: KeyAgreement): Promise<{ publicKey: string; privateKey: string }> {
+  const algorithm = agreement === 'x25519' ? { name: 'X25519' } : { name: 'ECDH', namedCurve: 'P-256' };
+  const pair = (await crypto.subtle.generateKey(algorithm, true, ['deriveBits'])) as CryptoKeyPair;
+  return {
+    publicKey: bytesToBase64(new Uint8Array(await crypto.subtle.exportKey('raw', pair.publicKey))),
+    privateKey: bytesToBase64(new Uint8Array(await crypto.subtle.exportKey('pkcs8', pair.privateKey))),
+  };
+}
+
+function decrypt(envelope: EncryptedEnvelope, secrets: { passphrase?: string; privateKey?: string }) {
+  const { contentType, body } = decryptEnvelope(envelope, secrets);
+  return { contentType, body: new TextDecoder().decode(body) };
+}
+
+describe('encryption', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('round-trips a passphrase envelope through the reference decryptor', async () => {
+    const envelope = await encryptBody(body, 'application/json', {
+      mode: 'passphrase',
+      passphrase: 'correct horse',
+      publicKey: '',
+    });
+
+    expect(decrypt(envelope, { passphrase: 'correct horse' })).toEqual({
+      contentType: 'application/json',
+      body: '{"text":"hello"}',
+    });
+    expect(() => decrypt(envelope, { passphrase: 'wrong horse' })).toThrow('wrong key');
+  });
+
+  for (const agreement of ['x25519', 'p256'] as const) {
+    it(`round-trips a ${agreement} envelope through the reference decryptor`, async () => {
+      const receiver = await receiverKeys(agreement);
+      const envelope = await encryptBody(body, 'text/plain', {
+        mode: 'publicKey',
+        passphrase: '',
+        publicKey: receiver.publicKey,
+      });
+
+      expect(envelope.encryption).toBe(agreement);
+      expect(decrypt(envelope, { privateKey: receiver.privateKey })).toEqual({
+        contentType: 'text/plain',
+        body: '{"text":"hello"}',
+      });
+      const other = await receiverKeys(agreement);
+      expect(() => decrypt(envelope, { privateKey: other.privateKey })).toThrow('wrong key');
+    });
+  }
+
+  it('signs the envelope rather than the plain body', async () => {
+    let sent: RequestInit | undefined;
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (_url: string, init: RequestInit) => {
+        sent = init;
+        return new Response('{}', { status: 200 });
+      })
+    );
+
+    const receiver = await receiverKeys('x25519');
+    const destination = createDestination('https://example.com/hook');
+    destination.hmacSecret = 'signing secret';
+    destination.encryption = { mode: 'publicKey', passphrase: '', publicKey: receiver.publicKey };
+    const share = { id: 'share-1', title: '', text: 'hello', url: '', files: [], timestamp: 0 };
+    const result = await sendToDestination(share, destination);
+
+    expect(result.ok).toBe(true);
+    const headers = sent!.headers as Record<string, string>;
+    const signed = new TextEncoder().encode(`${headers[TIMESTAMP_HEADER]}.${sent!.body}`);
+    const key = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode('signing secret'),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    const expected = new Uint8Array(await crypto.subtle.sign('HMAC', key, signed));
+    const hex = Array.from(expected, (byte) => byte.toString(16).padStart(2, '0')).join('');
+    expect(headers[SIGNATURE_HEADER]).toBe(`sha256=${hex}`);
+
+    const plain = decrypt(JSON.parse(sent!.body as string), { privateKey: receiver.privateKey });
+    expect(plain.contentType).toBe('application/json');
+    expect(JSON.parse(plain.body)).toMatchObject({ id: 'share-1', text: 'hello' });
+  });
+});
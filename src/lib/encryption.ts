@@ -0,0 +1,141 @@
+// End-to-end encryption of relayed request bodies
+//
+// The serialized body (JSON, multipart or template output) is encrypted with
+// AES-256-GCM and sent inside a JSON envelope. The key comes from a passphrase
+// (PBKDF2-SHA256), or from ECDH between a one-off ephemeral key and the
+// receiver's public key (X25519 or P-256) followed by HKDF-SHA256.
+// The envelope format is documented under "Encryption" in the README.
+
+import { base64ToBytes, bytesToBase64 } from './files';
+
+export type EncryptionMode = 'none' | 'passphrase' | 'publicKey';
+
+export interface EncryptionSettings {
+  mode: EncryptionMode;
+  passphrase: string;
+  // Receiver's raw public key in base64: 32 bytes for X25519, 65 (uncompressed) for P-256
+  publicKey: string;
+}
+
+export const DEFAULT_ENCRYPTION: EncryptionSettings = {
+  mode: 'none',
+  passphrase: '',
+  publicKey: '',
+};
+
+export type KeyAgreement = 'x25519' | 'p256';
+
+export interface EncryptedEnvelope {
+  version: 1;
+  encryption: 'passphrase' | KeyAgreement;
+  // Content type of the decrypted body, also bound to the ciphertext as additional data
+  contentType: string;
+  salt: string;
+  // PBKDF2 rounds, passphrase mode only
+  iterations?: number;
+  // Sender's ephemeral public key, public key modes only
+  ephemeralKey?: string;
+  iv: string;
+  // AES-GCM output with the 16-byte authentication tag at the end
+  ciphertext: string;
+}
+
+const PBKDF2_ITERATIONS = 600000;
+const HKDF_INFO = 'webshare-relay-encryption-v1';
+
+const KEY_ALGORITHMS: Record<KeyAgreement, Algorithm | EcKeyImportParams> = {
+  x25519: { name: 'X25519' },
+  p256: { name: 'ECDH', namedCurve: 'P-256' },
+};
+
+const encoder = new TextEncoder();
+
+// The raw key length tells the curves apart
+export function detectKeyAgreement(publicKey: string): KeyAgreement | null {
+  try {
+    const length = base64ToBytes(publicKey.trim()).length;
+    if (length === 32) return 'x25519';
+    if (length === 65) return 'p256';
+  } catch {
+    // Not base64
+  }
+  return null;
+}
+
+async function passphraseKey(passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, [
+    'deriveKey',
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations: PBKDF2_ITERATIONS },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt']
+  );
+}
+
+async function agreedKey(
+  publicKey: string,
+  agreement: KeyAgreement,
+  salt: Uint8Array<ArrayBuffer>
+): Promise<{ key: CryptoKey; ephemeralKey: Uint8Array }> {
+  const algorithm = KEY_ALGORITHMS[agreement];
+  const recipient = await crypto.subtle.importKey('raw', base64ToBytes(publicKey.trim()), algorithm, false, []);
+  const ephemeral = (await crypto.subtle.generateKey(algorithm, true, ['deriveBits'])) as CryptoKeyPair;
+  const secret = await crypto.subtle.deriveBits(
+    { name: algorithm.name, public: recipient } as EcdhKeyDeriveParams,
+    ephemeral.privateKey,
+    256
+  );
+
+  const material = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+  const key = await crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: encoder.encode(HKDF_INFO) },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt']
+  );
+  return { key, ephemeralKey: new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey)) };
+}
+
+export async function encryptBody(
+  body: Uint8Array<ArrayBuffer>,
+  contentType: string,
+  settings: EncryptionSettings
+): Promise<EncryptedEnvelope> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+
+  let key: CryptoKey;
+  let header: Pick<EncryptedEnvelope, 'encryption' | 'iterations' | 'ephemeralKey'>;
+  if (settings.mode === 'passphrase') {
+    if (!settings.passphrase) throw new Error('Encryption passphrase is empty');
+    key = await passphraseKey(settings.passphrase, salt);
+    header = { encryption: 'passphrase', iterations: PBKDF2_ITERATIONS };
+  } else {
+    const agreement = detectKeyAgreement(settings.publicKey);
+    if (!agreement) {
+      throw new Error('Encryption public key must be a base64 raw X25519 (32 bytes) or P-256 (65 bytes) key');
+    }
+    const agreed = await agreedKey(settings.publicKey, agreement, salt);
+    key = agreed.key;
+    header = { encryption: agreement, ephemeralKey: bytesToBase64(agreed.ephemeralKey) };
+  }
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(contentType) },
+    key,
+    body
+  );
+
+  return {
+    version: 1,
+    ...header,
+    contentType,
+    salt: bytesToBase64(salt),
+    iv: bytesToBase64(iv),
+    ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+  };
+}
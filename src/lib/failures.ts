@@ -0,0 +1,111 @@
+// Failure categories shared by relay results, the history and destination tests
+//
+// Browsers report every network failure as the same TypeError. The cause is
+// narrowed down from the page context (offline, mixed content) and a no-cors
+// probe, which succeeds whenever the server answers, whatever its CORS headers.
+
+export type FailureCategory =
+  | 'offline'
+  | 'invalidUrl'
+  | 'mixedContent'
+  | 'unreachable'
+  | 'cors'
+  | 'timeout'
+  | 'auth'
+  | 'tooLarge'
+  | 'rateLimited'
+  | 'clientError'
+  | 'serverError'
+  | 'request';
+
+export const FAILURE_LABELS: Record<FailureCategory, string> = {
+  offline: 'Offline',
+  invalidUrl: 'Invalid URL',
+  mixedContent: 'Mixed content',
+  unreachable: 'Unreachable',
+  cors: 'CORS',
+  timeout: 'Timeout',
+  auth: 'Authentication',
+  tooLarge: 'Too large',
+  rateLimited: 'Rate limited',
+  clientError: 'Rejected',
+  serverError: 'Server error',
+  request: 'Request not built',
+};
+
+export const FAILURE_HINTS: Record<FailureCategory, string> = {
+  offline: 'The device had no network connection.',
+  invalidUrl: 'The URL is not a valid http:// or https:// address.',
+  mixedContent: 'The app is served over HTTPS, so the browser blocks plain http:// requests to hosts other than localhost.',
+  unreachable:
+    'Nothing answered: the host name did not resolve, the connection was refused, or the TLS certificate was rejected.',
+  cors: "The server answered, but its CORS headers don't let this app send the request or read the response.",
+  timeout: 'The server took too long to answer.',
+  auth: 'The server refused the credentials.',
+  tooLarge: 'The request is larger than the server accepts; downscale images or turn on chunked uploads.',
+  rateLimited: 'The server is rate limiting requests; the outbox tries again later.',
+  clientError: 'The server rejected the request.',
+  serverError: 'The server failed to handle the request.',
+  request: 'The request could not be built from the destination settings.',
+};
+
+const PROBE_TIMEOUT = 10 * 1000;
+
+export function categorizeStatus(status: number): FailureCategory {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 413) return 'tooLarge';
+  if (status === 429) return 'rateLimited';
+  if (status === 408 || status === 504) return 'timeout';
+  return status >= 500 ? 'serverError' : 'clientError';
+}
+
+// Browsers treat localhost as secure, so it may be called over plain HTTP from an HTTPS page
+export function isLocalhost(url: URL): boolean {
+  return ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname) || url.hostname.endsWith('.localhost');
+}
+
+// Problems with the URL itself, found without sending anything
+export function checkUrl(url: string): FailureCategory | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'invalidUrl';
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return 'invalidUrl';
+  if (parsed.protocol === 'http:' && location.protocol === 'https:' && !isLocalhost(parsed)) {
+    return 'mixedContent';
+  }
+  return null;
+}
+
+// Whether the server answers at all, and how fast
+export async function probeReachable(url: string): Promise<{ reachable: boolean; latency: number }> {
+  const startedAt = performance.now();
+  try {
+    await fetch(url, {
+      method: 'HEAD',
+      mode: 'no-cors',
+      cache: 'no-store',
+      signal: AbortSignal.timeout(PROBE_TIMEOUT),
+    });
+    return { reachable: true, latency: Math.round(performance.now() - startedAt) };
+  } catch {
+    return { reachable: false, latency: Math.round(performance.now() - startedAt) };
+  }
+}
+
+// The URL itself is wrong, so sending again can't help; everything else may pass later
+export function isRetryableCategory(category: FailureCategory): boolean {
+  return category !== 'invalidUrl' && category !== 'mixedContent';
+}
+
+export async function categorizeNetworkError(url: string, error: unknown): Promise<FailureCategory> {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return 'offline';
+  if (error instanceof DOMException && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+    return 'timeout';
+  }
+  const problem = checkUrl(url);
+  if (problem) return problem;
+  return (await probeReachable(url)).reachable ? 'cors' : 'unreachable';
+}
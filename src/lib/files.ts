@@ -0,0 +1,55 @@
+// File helpers shared by the app and the service worker
+
+export async function blobToBase64(blob: Blob): Promise<string> {
+  return bytesToBase64(new Uint8Array(await blob.arrayBuffer()));
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked to stay below the argument limit of String.fromCharCode
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.byteLength; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function base64ToBlob(base64: string, type: string): Blob {
+  return new Blob([base64ToBytes(base64)], { type });
+}
+
+// Save a body through the browser's download prompt; app only
+export function downloadFile(body: string | Blob, name: string): void {
+  const url = URL.createObjectURL(body instanceof Blob ? body : new Blob([body]));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function sha256Hex(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Files are hashed once per Blob: inbox shares are checked for duplicates on every edit
+const blobHashes = new WeakMap<Blob, Promise<string>>();
+
+export function hashBlob(blob: Blob): Promise<string> {
+  let hash = blobHashes.get(blob);
+  if (!hash) {
+    hash = blob.arrayBuffer().then(sha256Hex);
+    blobHashes.set(blob, hash);
+  }
+  return hash;
+}
@@ -0,0 +1,16 @@
+// Display helpers shared by the views
+
+export function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString();
+}
+
+export function truncate(str: string, len: number): string {
+  if (!str) return '';
+  return str.length > len ? str.slice(0, len) + '...' : str;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
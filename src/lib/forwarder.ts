@@ -1,99 +1,180 @@
 // Forwarder module to POST shared content to user's endpoint
 
-import { addLog, type ShareData } from './storage';
+import {
+  getDestinationLabel,
+  type Destination,
+  type RelayConfig,
+  type ShareData,
+} from './storage';
+import { resolveDestinations } from './routing';
+import { extractShareUrls } from './urls';
+import { classifyShare, parseShareDetails } from './classify';
+import { sendToDestination } from './relay';
+import type { UploadProgressListener } from './uploads';
+import { parseResponseActions, type ResponseActions } from './responseActions';
+import { enqueueRelay, scheduleOutboxSync } from './outbox';
+import {
+  addLogEntry,
+  archiveShare,
+  describeRelayResult,
+  getArchivedSharesSince,
+  getLogEntry,
+  pruneHistory,
+  updateLogEntry,
+} from './history';
+import { findDuplicate, type DuplicateMatch, type Fingerprinter } from './duplicates';
+import { addToBatch, flushBatch, isBatched } from './batches';
 
-export interface ForwardPayload {
-  title: string | null;
-  text: string | null;
-  url: string | null;
-  files: Array<{ name: string; type: string; data: string }>;
-}
+export type { ForwardPayload } from './relay';
 
 export interface ForwardResult {
+  destinationId: string;
+  destinationName: string;
+  // History entry of this relay, also the ID of its outbox item when queued
+  logId: string;
   success: boolean;
+  // Failed for now, but kept in the outbox for another attempt
+  queued?: boolean;
+  // Waiting for the destination's next batch; counts as a success
+  batched?: boolean;
   response?: string;
+  // What a structured response asks the app to do, limited to what the destination allows
+  actions?: ResponseActions;
   error?: string;
 }
 
+// Apply relay-time additions from the config, recomputed on every relay so edits are reflected
+export async function prepareShare(data: ShareData, config: RelayConfig): Promise<ShareData> {
+  return {
+    ...data,
+    kind: classifyShare(data),
+    details: await parseShareDetails(data),
+    device: config.deviceName || undefined,
+    urls: config.urlCleaning.extractUrls
+      ? extractShareUrls(data, config.urlCleaning.stripParams).map((url) => url.cleaned)
+      : undefined,
+  };
+}
+
+// A recent share with the same content, so the user can be asked before this one is sent
+export async function findRecentDuplicate(
+  share: ShareData,
+  inbox: ShareData[],
+  config: RelayConfig,
+  fingerprintOf?: Fingerprinter
+): Promise<DuplicateMatch | null> {
+  const window = config.duplicates.windowMinutes * 60 * 1000;
+  if (window <= 0) return null;
+  const relayed = await getArchivedSharesSince(share.timestamp - window);
+  return findDuplicate(share, inbox, relayed, config.duplicates, fingerprintOf);
+}
+
+// Relay a share to every destination selected by the routing rules
 export async function forwardShare(
   data: ShareData,
-  forwardUrl: string
+  config: RelayConfig,
+  onProgress?: UploadProgressListener
+): Promise<ForwardResult[]> {
+  const share = await prepareShare(data, config);
+  const destinations = resolveDestinations(share, config);
+  const results = await Promise.all(
+    destinations.map((destination) => forwardToDestination(share, destination, onProgress))
+  );
+  await pruneHistory(config.history);
+  return results;
+}
+
+export async function forwardToDestination(
+  data: ShareData,
+  destination: Destination,
+  onProgress?: UploadProgressListener
 ): Promise<ForwardResult> {
-  const payload: ForwardPayload = {
-    title: data.title || null,
-    text: data.text || null,
-    url: data.url || null,
-    files: data.files || [],
-  };
+  const destinationName = getDestinationLabel(destination);
+  // Connection tests go out on their own
+  const batched = isBatched(destination) && !data.test;
 
   // Log as pending
-  const logEntry = addLog({
+  const logEntry = await addLogEntry({
     timestamp: Date.now(),
-    status: 'pending',
+    status: batched ? 'batched' : 'pending',
     payload: {
       title: data.title || '',
       text: data.text || '',
       url: data.url || '',
       filesCount: data.files?.length || 0,
     },
+    destinationId: destination.id,
+    destinationName,
+    shareId: data.id,
   });
+  // Archived only once an entry points to it, so a concurrent history prune keeps it
+  await archiveShare(data);
 
-  try {
-    const response = await fetch(forwardUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(payload),
-    });
+  if (batched) {
+    return collectInBatch(data, destination, logEntry.id);
+  }
 
-    const responseText = await response.text();
-
-    if (!response.ok) {
-      // Update log with error
-      updateLogStatus(logEntry.id, 'error', undefined, `HTTP ${response.status}: ${responseText}`);
-      return {
-        success: false,
-        error: `HTTP ${response.status}: ${responseText}`,
-      };
-    }
+  const result = await sendToDestination(data, destination, onProgress);
 
+  if (result.ok) {
     // Update log with success
-    updateLogStatus(logEntry.id, 'success', responseText);
+    await updateLogEntry(logEntry.id, { status: 'success', attempts: 1, ...describeRelayResult(result) });
     return {
+      destinationId: destination.id,
+      destinationName,
+      logId: logEntry.id,
       success: true,
-      response: responseText,
-    };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    // Update log with error
-    updateLogStatus(logEntry.id, 'error', undefined, errorMessage);
-    return {
-      success: false,
-      error: errorMessage,
+      response: result.response,
+      actions: parseResponseActions(result.response, destination.responseActions) ?? undefined,
     };
   }
-}
 
-function updateLogStatus(
-  id: string,
-  status: 'success' | 'error',
-  response?: string,
-  error?: string
-): void {
-  try {
-    const logsJson = localStorage.getItem('webshare-relay-logs');
-    if (!logsJson) return;
-    
-    const logs = JSON.parse(logsJson);
-    const index = logs.findIndex((log: { id: string }) => log.id === id);
-    if (index !== -1) {
-      logs[index].status = status;
-      if (response !== undefined) logs[index].response = response;
-      if (error !== undefined) logs[index].error = error;
-      localStorage.setItem('webshare-relay-logs', JSON.stringify(logs));
+  if (result.retryable) {
+    try {
+      await enqueueRelay(data, destination, logEntry.id, result.error || 'Unknown error');
+      await scheduleOutboxSync();
+      await updateLogEntry(logEntry.id, { status: 'queued', attempts: 1, ...describeRelayResult(result) });
+      return {
+        destinationId: destination.id,
+        destinationName,
+        logId: logEntry.id,
+        success: false,
+        queued: true,
+        error: result.error,
+      };
+    } catch (e) {
+      console.error('Error queueing relay:', e);
     }
-  } catch (e) {
-    console.error('Error updating log status:', e);
   }
+
+  // Update log with error
+  await updateLogEntry(logEntry.id, { status: 'error', attempts: 1, ...describeRelayResult(result) });
+  return {
+    destinationId: destination.id,
+    destinationName,
+    logId: logEntry.id,
+    success: false,
+    error: result.error,
+  };
+}
+
+// The share may complete the batch, which then goes out right away; the history tells how that went
+async function collectInBatch(data: ShareData, destination: Destination, logId: string): Promise<ForwardResult> {
+  await addToBatch(data, destination, logId);
+  await flushBatch(destination);
+  // The outbox sync also sends batches when their interval is up
+  await scheduleOutboxSync();
+  const entry = await getLogEntry(logId);
+  // Pending means another flush is sending it right now
+  const waiting = entry?.status === 'batched' || entry?.status === 'pending';
+  return {
+    destinationId: destination.id,
+    destinationName: getDestinationLabel(destination),
+    logId,
+    success: waiting || entry?.status === 'success',
+    batched: waiting,
+    queued: entry?.status === 'queued',
+    response: entry?.response,
+    error: entry?.error,
+  };
 }
@@ -0,0 +1,288 @@
+// Relay history kept in IndexedDB
+
+import { openShareDB, requestToPromise, HISTORY_STORE, SHARE_ARCHIVE_STORE } from './db';
+import { generateId, type HistoryRetention, type ShareData } from './storage';
+import type { HttpExchange, RelayResponse } from './http';
+import type { FailureCategory } from './failures';
+import { fingerprintShare } from './duplicates';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Batched entries wait for their destination's next batch
+export type LogStatus = 'success' | 'error' | 'pending' | 'queued' | 'batched';
+
+export interface LogEntry {
+  id: string;
+  timestamp: number;
+  status: LogStatus;
+  payload: {
+    title: string;
+    text: string;
+    url: string;
+    filesCount: number;
+  };
+  destinationId?: string;
+  destinationName?: string;
+  // Archived share this entry relayed; missing on entries from before archiving
+  shareId?: string;
+  // Batch request the share last went out in, and how many shares it held
+  batchId?: string;
+  batchSize?: number;
+  // Status code of the last request made
+  httpStatus?: number;
+  // Total time of the last attempt across all its requests
+  duration?: number;
+  attempts?: number;
+  exchanges?: HttpExchange[];
+  response?: string;
+  error?: string;
+  errorCategory?: FailureCategory;
+  // Approximate bytes taken by the entry, used by size-based retention
+  size: number;
+}
+
+export interface HistoryQuery {
+  search: string;
+  status: LogStatus | '';
+  destinationId: string;
+  offset: number;
+  limit: number;
+}
+
+export interface HistoryPage {
+  entries: LogEntry[];
+  // Entries matching the filters, before pagination
+  total: number;
+  // Every destination that appears in the history, for the filter list
+  destinations: Array<{ id: string; name: string }>;
+}
+
+function estimateSize(entry: Omit<LogEntry, 'size'>): number {
+  // Blobs serialize as {}, so their bytes are added separately
+  const blobBytes = (entry.exchanges || []).reduce(
+    (total, exchange) => total + (exchange.requestBody instanceof Blob ? exchange.requestBody.size : 0),
+    0
+  );
+  return JSON.stringify(entry).length + blobBytes;
+}
+
+function withSize(entry: Omit<LogEntry, 'size'> & { size?: number }): LogEntry {
+  const { size: _, ...rest } = entry;
+  return { ...rest, size: estimateSize(rest) };
+}
+
+// The log fields that describe how a relay attempt went
+export function describeRelayResult(result: RelayResponse): Partial<LogEntry> {
+  const exchanges = result.exchanges || [];
+  return {
+    httpStatus: result.status ?? exchanges[exchanges.length - 1]?.status,
+    duration: exchanges.reduce((total, exchange) => total + exchange.duration, 0),
+    exchanges,
+    response: result.ok ? result.response : undefined,
+    error: result.ok ? undefined : result.error,
+    errorCategory: result.ok ? undefined : result.category ?? 'request',
+  };
+}
+
+async function getAllEntries(): Promise<LogEntry[]> {
+  const db = await openShareDB();
+  const store = db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE);
+  const entries = await requestToPromise(store.getAll() as IDBRequest<LogEntry[]>);
+  return entries.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export async function addLogEntry(entry: Omit<LogEntry, 'id' | 'size'>): Promise<LogEntry> {
+  const newEntry = withSize({ ...entry, id: generateId() });
+  try {
+    const db = await openShareDB();
+    const store = db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE);
+    await requestToPromise(store.put(newEntry));
+  } catch (e) {
+    console.error('Error writing history:', e);
+  }
+  return newEntry;
+}
+
+export async function getLogEntry(id: string): Promise<LogEntry | null> {
+  try {
+    const db = await openShareDB();
+    const store = db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE);
+    return (await requestToPromise(store.get(id) as IDBRequest<LogEntry | undefined>)) || null;
+  } catch (e) {
+    console.error('Error reading history:', e);
+    return null;
+  }
+}
+
+// Read and write in one transaction so concurrent updates don't overwrite each other
+export async function updateLogEntry(id: string, changes: Partial<LogEntry>): Promise<void> {
+  try {
+    const db = await openShareDB();
+    const store = db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE);
+    const entry = await requestToPromise(store.get(id) as IDBRequest<LogEntry | undefined>);
+    if (entry) {
+      await requestToPromise(store.put(withSize({ ...entry, ...changes })));
+    }
+  } catch (e) {
+    console.error('Error updating history:', e);
+  }
+}
+
+export async function importLogEntries(entries: Array<Omit<LogEntry, 'size'>>): Promise<void> {
+  if (entries.length === 0) return;
+  const db = await openShareDB();
+  const store = db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE);
+  await Promise.all(entries.map((entry) => requestToPromise(store.put(withSize(entry)))));
+}
+
+// Keep the full share so the entry can be replayed; several entries may point to it
+export async function archiveShare(share: ShareData): Promise<void> {
+  try {
+    const fingerprint = await fingerprintShare(share);
+    const db = await openShareDB();
+    const store = db.transaction(SHARE_ARCHIVE_STORE, 'readwrite').objectStore(SHARE_ARCHIVE_STORE);
+    await requestToPromise(store.put({ ...share, fingerprint }));
+  } catch (e) {
+    console.error('Error archiving share:', e);
+  }
+}
+
+export async function getArchivedShare(id: string): Promise<ShareData | null> {
+  try {
+    const db = await openShareDB();
+    const store = db.transaction(SHARE_ARCHIVE_STORE, 'readonly').objectStore(SHARE_ARCHIVE_STORE);
+    return (await requestToPromise(store.get(id) as IDBRequest<ShareData | undefined>)) || null;
+  } catch (e) {
+    console.error('Error reading archived share:', e);
+    return null;
+  }
+}
+
+// Relayed shares received since the given time, for duplicate detection
+export async function getArchivedSharesSince(since: number): Promise<ShareData[]> {
+  try {
+    const db = await openShareDB();
+    const store = db.transaction(SHARE_ARCHIVE_STORE, 'readonly').objectStore(SHARE_ARCHIVE_STORE);
+    const shares = await requestToPromise(store.getAll() as IDBRequest<ShareData[]>);
+    return shares.filter((share) => share.timestamp >= since);
+  } catch (e) {
+    console.error('Error reading archived shares:', e);
+    return [];
+  }
+}
+
+async function getArchivedShareIds(): Promise<IDBValidKey[]> {
+  const db = await openShareDB();
+  const store = db.transaction(SHARE_ARCHIVE_STORE, 'readonly').objectStore(SHARE_ARCHIVE_STORE);
+  return requestToPromise(store.getAllKeys());
+}
+
+// Remove archived shares that no history entry points to anymore. `ids` must be read before
+// `entries`: relays log before they archive, so a share archived after `ids` was read is never
+// in it, and one archived before has its entry in `entries`
+async function pruneShareArchive(ids: IDBValidKey[], entries: LogEntry[]): Promise<void> {
+  const referenced = new Set(entries.map((entry) => entry.shareId));
+  const db = await openShareDB();
+  const store = db.transaction(SHARE_ARCHIVE_STORE, 'readwrite').objectStore(SHARE_ARCHIVE_STORE);
+  await Promise.all(
+    ids
+      .filter((id) => !referenced.has(id as string))
+      .map((id) => requestToPromise(store.delete(id)))
+  );
+}
+
+function matchesQuery(entry: LogEntry, query: HistoryQuery): boolean {
+  if (query.status && entry.status !== query.status) return false;
+  if (query.destinationId && entry.destinationId !== query.destinationId) return false;
+  if (!query.search) return true;
+
+  const needle = query.search.toLowerCase();
+  return [
+    entry.payload.title,
+    entry.payload.text,
+    entry.payload.url,
+    entry.destinationName,
+    entry.response,
+    entry.error,
+    entry.batchId,
+  ].some((value) => value?.toLowerCase().includes(needle));
+}
+
+export async function queryHistory(query: HistoryQuery): Promise<HistoryPage> {
+  try {
+    const entries = await getAllEntries();
+    const destinations = new Map<string, string>();
+    for (const entry of entries) {
+      if (entry.destinationId && !destinations.has(entry.destinationId)) {
+        destinations.set(entry.destinationId, entry.destinationName || entry.destinationId);
+      }
+    }
+
+    const matching = entries.filter((entry) => matchesQuery(entry, query));
+    return {
+      entries: matching.slice(query.offset, query.offset + query.limit),
+      total: matching.length,
+      destinations: [...destinations].map(([id, name]) => ({ id, name })),
+    };
+  } catch (e) {
+    console.error('Error reading history:', e);
+    return { entries: [], total: 0, destinations: [] };
+  }
+}
+
+// Pending, queued and batched entries stay until the outbox or their batch is done with them
+function isUnfinished(entry: LogEntry): boolean {
+  return entry.status === 'pending' || entry.status === 'queued' || entry.status === 'batched';
+}
+
+export async function clearHistory(): Promise<void> {
+  const archived = await getArchivedShareIds();
+  const entries = await getAllEntries();
+  const remaining = entries.filter(isUnfinished);
+  const db = await openShareDB();
+  const store = db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE);
+  await Promise.all(
+    entries.filter((entry) => !isUnfinished(entry)).map((entry) => requestToPromise(store.delete(entry.id)))
+  );
+  await pruneShareArchive(archived, remaining);
+}
+
+// Drop finished entries beyond the retention limits, newest first; a limit of 0 means no limit
+export async function pruneHistory(retention: HistoryRetention): Promise<number> {
+  try {
+    const archived = await getArchivedShareIds();
+    const entries = await getAllEntries();
+    const oldest = Date.now() - retention.maxAgeDays * DAY;
+    const maxBytes = retention.maxSizeMB * 1024 * 1024;
+    const expired: string[] = [];
+    const remaining: LogEntry[] = [];
+    let kept = 0;
+    let bytes = 0;
+
+    for (const entry of entries) {
+      const keep =
+        isUnfinished(entry) ||
+        ((!retention.maxEntries || kept < retention.maxEntries) &&
+          (!retention.maxAgeDays || entry.timestamp >= oldest) &&
+          (!retention.maxSizeMB || bytes + entry.size <= maxBytes));
+      if (keep) {
+        kept++;
+        bytes += entry.size;
+        remaining.push(entry);
+      } else {
+        expired.push(entry.id);
+      }
+    }
+
+    if (expired.length > 0) {
+      const db = await openShareDB();
+      const store = db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE);
+      await Promise.all(expired.map((id) => requestToPromise(store.delete(id))));
+    }
+    await pruneShareArchive(archived, remaining);
+    return expired.length;
+  } catch (e) {
+    console.error('Error pruning history:', e);
+    return 0;
+  }
+}
@@ -0,0 +1,141 @@
+// HTTP helpers shared by the generic relay and the service adapters
+
+import { categorizeNetworkError, categorizeStatus, isRetryableCategory, type FailureCategory } from './failures';
+
+// Generous enough for a large multipart body on a slow connection
+const REQUEST_TIMEOUT = 2 * 60 * 1000;
+
+export interface RelayResponse {
+  ok: boolean;
+  status?: number;
+  response?: string;
+  error?: string;
+  // Worth trying again later (offline, timeout, server error)
+  retryable: boolean;
+  // Why it failed; failures without one never got as far as a request
+  category?: FailureCategory;
+  // Every request made for this relay, in order
+  exchanges?: HttpExchange[];
+}
+
+// One request/response pair as recorded in the history
+export interface HttpExchange {
+  method: string;
+  url: string;
+  requestHeaders: Record<string, string>;
+  // Exactly what was sent; non-text bodies are kept as Blobs
+  requestBody: string | Blob | null;
+  status?: number;
+  responseHeaders?: Record<string, string>;
+  responseBody?: string;
+  // Milliseconds from sending the request to reading the full response
+  duration: number;
+}
+
+// Pulls a readable message out of a service's error body
+export type ErrorReader = (body: unknown) => string | undefined;
+
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+// Header values that would leak credentials into the history. API keys are
+// named explicitly so headers like Idempotency-Key stay readable
+const SECRET_HEADER_PATTERN = /authorization|token|secret|api-?key/i;
+
+function redactHeaders(headers: Headers): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    redacted[name] = SECRET_HEADER_PATTERN.test(name) ? '***' : value;
+  });
+  return redacted;
+}
+
+// Telegram puts the bot token in the path, Gotify accepts it as a query parameter
+function redactUrl(url: string): string {
+  return url
+    .replace(/\/bot[^/]+/, '/bot***')
+    .replace(/([?&](?:token|access_token|key)=)[^&]*/gi, '$1***');
+}
+
+// Serialize the body once so the recorded bytes (and multipart boundary) match what is sent
+async function prepareBody(init: RequestInit): Promise<{ init: RequestInit; body: string | Blob | null }> {
+  if (init.body == null) return { init, body: null };
+  if (typeof init.body === 'string') return { init, body: init.body };
+
+  const serialized = new Response(init.body);
+  const body = await serialized.blob();
+  const headers = new Headers(init.headers);
+  const contentType = serialized.headers.get('Content-Type');
+  if (contentType && !headers.has('Content-Type')) headers.set('Content-Type', contentType);
+  return { init: { ...init, headers, body }, body };
+}
+
+export async function sendRequest(
+  url: string,
+  init: RequestInit,
+  readError?: ErrorReader
+): Promise<RelayResponse> {
+  const prepared = await prepareBody(init);
+  const exchange: HttpExchange = {
+    method: prepared.init.method || 'GET',
+    url: redactUrl(url),
+    requestHeaders: redactHeaders(new Headers(prepared.init.headers)),
+    requestBody: prepared.body,
+    duration: 0,
+  };
+  const startedAt = performance.now();
+
+  try {
+    const response = await fetch(url, {
+      ...prepared.init,
+      signal: prepared.init.signal ?? AbortSignal.timeout(REQUEST_TIMEOUT),
+    });
+
+    const responseText = await response.text();
+    exchange.duration = Math.round(performance.now() - startedAt);
+    exchange.status = response.status;
+    exchange.responseHeaders = Object.fromEntries(response.headers);
+    exchange.responseBody = responseText;
+
+    if (!response.ok) {
+      const message = readError?.(parseJson(responseText)) || responseText;
+      return {
+        ok: false,
+        status: response.status,
+        error: `HTTP ${response.status}: ${message}`,
+        retryable: isRetryableStatus(response.status),
+        category: categorizeStatus(response.status),
+        exchanges: [exchange],
+      };
+    }
+
+    return {
+      ok: true,
+      status: response.status,
+      response: responseText,
+      retryable: false,
+      exchanges: [exchange],
+    };
+  } catch (error) {
+    // fetch rejects on network failures and timeouts, and on URLs that can never work
+    exchange.duration = Math.round(performance.now() - startedAt);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const category = await categorizeNetworkError(url, error);
+    return {
+      ok: false,
+      error: errorMessage,
+      retryable: isRetryableCategory(category),
+      category,
+      exchanges: [exchange],
+    };
+  }
+}
@@ -0,0 +1,70 @@
+// Runs image processing for a share in a worker when one can be started
+// (the app), or in place when already off the main thread (the service worker)
+
+import type { ShareData, SharedFile } from './storage';
+import { isProcessableImage, needsImageProcessing, processImage, type ImageOptions } from './images';
+
+type Pending = {
+  file: SharedFile;
+  options: ImageOptions;
+  resolve: (file: SharedFile) => void;
+  reject: (error: Error) => void;
+};
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, Pending>();
+
+function getWorker(): Worker | null {
+  if (typeof window === 'undefined' || typeof Worker === 'undefined') return null;
+  if (!worker) {
+    worker = new Worker(new URL('./imageWorker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', (event) => {
+      const { id, file, error } = event.data;
+      const request = pending.get(id);
+      pending.delete(id);
+      if (error) request?.reject(new Error(error));
+      else request?.resolve(file);
+    });
+    worker.addEventListener('error', (event) => abandonWorker(event.message || 'Image worker failed'));
+    worker.addEventListener('messageerror', () => abandonWorker('Image worker sent an unreadable message'));
+  }
+  return worker;
+}
+
+// A worker that failed to load or crashed answers nothing more, so its requests are
+// processed in place and the next share starts a fresh worker
+function abandonWorker(reason: string): void {
+  console.error(`${reason}; processing images in place`);
+  worker?.terminate();
+  worker = null;
+  const requests = [...pending.values()];
+  pending.clear();
+  for (const request of requests) {
+    processImage(request.file, request.options).then(request.resolve, request.reject);
+  }
+}
+
+function processInWorker(file: SharedFile, options: ImageOptions): Promise<SharedFile> {
+  const target = getWorker();
+  if (!target) return processImage(file, options);
+
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { file, options, resolve, reject });
+    target.postMessage({ id, file, options });
+  });
+}
+
+export async function processShareImages(data: ShareData, options: ImageOptions): Promise<ShareData> {
+  if (!needsImageProcessing(options) || !(data.files || []).some(isProcessableImage)) {
+    return data;
+  }
+
+  // One image at a time keeps decoded full-resolution photos from piling up in memory
+  const files: SharedFile[] = [];
+  for (const file of data.files) {
+    files.push(isProcessableImage(file) ? await processInWorker(file, options) : file);
+  }
+  return { ...data, files };
+}
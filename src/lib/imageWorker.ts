@@ -0,0 +1,15 @@
+/// <reference lib="webworker" />
+// Dedicated worker that keeps image decoding and encoding off the main thread
+
+import { processImage } from './images';
+
+declare let self: DedicatedWorkerGlobalScope;
+
+self.addEventListener('message', async (event) => {
+  const { id, file, options } = event.data;
+  try {
+    self.postMessage({ id, file: await processImage(file, options) });
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
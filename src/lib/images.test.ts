@@ -0,0 +1,29 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_IMAGE_OPTIONS, processImage } from './images';
+
+function chunk(type: string, data: number[]): number[] {
+  const length = [24, 16, 8, 0].map((shift) => (data.length >>> shift) & 0xff);
+  // The CRC is not checked when stripping
+  return [...length, ...[...type].map((c) => c.charCodeAt(0)), ...data, 0, 0, 0, 0];
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+describe('processImage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('strips metadata from the original bytes without decoding the image', async () => {
+    const decode = vi.fn();
+    vi.stubGlobal('createImageBitmap', decode);
+    const header = chunk('IHDR', new Array(13).fill(0));
+    const end = chunk('IEND', []);
+    const png = new Uint8Array([...PNG_SIGNATURE, ...header, ...chunk('eXIf', [1, 2, 3, 4]), ...end]);
+
+    const file = await processImage({ name: 'a.png', type: 'image/png', data: new Blob([png]) }, DEFAULT_IMAGE_OPTIONS);
+
+    expect(decode).not.toHaveBeenCalled();
+    expect([...new Uint8Array(await file.data.arrayBuffer())]).toEqual([...PNG_SIGNATURE, ...header, ...end]);
+  });
+});
@@ -0,0 +1,254 @@
+// Image downscaling, recompression and metadata removal
+// Uses only APIs available in workers, so it runs in the image worker and the service worker
+
+import type { SharedFile } from './storage';
+
+export type ImageFormat = 'original' | 'jpeg' | 'webp';
+
+// 'location' removes GPS coordinates (and XMP, which can repeat them) but keeps
+// orientation, camera and color data; 'all' removes every EXIF, XMP and text block
+export type MetadataMode = 'keep' | 'location' | 'all';
+
+export interface ImageOptions {
+  // Longest side in pixels; 0 keeps the original size
+  maxDimension: number;
+  format: ImageFormat;
+  // 1-100, used when the image is re-encoded
+  quality: number;
+  metadata: MetadataMode;
+  // Fail images whose metadata can't be removed instead of sending them as they are
+  strictMetadata: boolean;
+}
+
+export const DEFAULT_IMAGE_OPTIONS: ImageOptions = {
+  maxDimension: 0,
+  format: 'original',
+  quality: 85,
+  metadata: 'location',
+  strictMetadata: false,
+};
+
+// Animated and vector images would lose content when drawn to a canvas
+const SKIPPED_TYPES = ['image/gif', 'image/svg+xml'];
+const ENCODABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+export function isProcessableImage(file: SharedFile): boolean {
+  return file.type.startsWith('image/') && !SKIPPED_TYPES.includes(file.type);
+}
+
+export function needsImageProcessing(options: ImageOptions): boolean {
+  return options.maxDimension > 0 || options.format !== 'original' || options.metadata !== 'keep';
+}
+
+function startsWithAscii(bytes: Uint8Array, offset: number, text: string): boolean {
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// Bytes per value for each TIFF field type
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+const GPS_IFD_TAG = 0x8825;
+
+// Empty the GPS IFD of an EXIF block in place, zeroing the values it pointed to
+function wipeExifGps(exif: Uint8Array, tiffStart: number): void {
+  const view = new DataView(exif.buffer, exif.byteOffset, exif.byteLength);
+  const little = startsWithAscii(exif, tiffStart, 'II');
+  const u16 = (at: number) => view.getUint16(at, little);
+  const u32 = (at: number) => view.getUint32(at, little);
+  const inBounds = (at: number, length: number) => at >= tiffStart && at + length <= exif.length;
+
+  const ifd0 = tiffStart + u32(tiffStart + 4);
+  if (!inBounds(ifd0, 2)) return;
+  for (let i = 0; i < u16(ifd0); i++) {
+    const entry = ifd0 + 2 + i * 12;
+    if (!inBounds(entry, 12) || u16(entry) !== GPS_IFD_TAG) continue;
+
+    const gps = tiffStart + u32(entry + 8);
+    if (!inBounds(gps, 2)) return;
+    const count = u16(gps);
+    for (let j = 0; j < count; j++) {
+      const gpsEntry = gps + 2 + j * 12;
+      if (!inBounds(gpsEntry, 12)) break;
+      const size = (TIFF_TYPE_SIZES[u16(gpsEntry + 2)] || 1) * u32(gpsEntry + 4);
+      const valueAt = tiffStart + u32(gpsEntry + 8);
+      if (size > 4 && inBounds(valueAt, size)) exif.fill(0, valueAt, valueAt + size);
+      exif.fill(0, gpsEntry, gpsEntry + 12);
+    }
+    // No entries and no next IFD
+    view.setUint16(gps, 0, little);
+    if (inBounds(gps + 2, 4)) view.setUint32(gps + 2, 0, little);
+    return;
+  }
+}
+
+function stripJpegMetadata(bytes: Uint8Array, mode: MetadataMode): Uint8Array<ArrayBuffer> {
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+
+  // Metadata lives in the segments before the start of scan marker
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff && bytes[offset + 1] !== 0xda) {
+    const marker = bytes[offset + 1];
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    const segment = bytes.subarray(offset, end);
+    offset = end;
+
+    const isExif = marker === 0xe1 && startsWithAscii(segment, 4, 'Exif\0\0');
+    const isApp1 = marker === 0xe1;
+    // APP13 holds IPTC, COM holds free-text comments
+    const isText = marker === 0xed || marker === 0xfe;
+
+    if (mode === 'all' && (isApp1 || isText)) continue;
+    if (isExif) {
+      const copy = segment.slice();
+      wipeExifGps(copy, 10);
+      parts.push(copy);
+    } else if (!isApp1) {
+      // XMP and other APP1 blocks can repeat the location, so they go too
+      parts.push(segment);
+    }
+  }
+
+  parts.push(bytes.subarray(offset));
+  return concat(parts);
+}
+
+function stripPngMetadata(bytes: Uint8Array, mode: MetadataMode): Uint8Array<ArrayBuffer> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  const dropped = mode === 'all' ? ['eXIf', 'tEXt', 'iTXt', 'zTXt', 'tIME'] : ['eXIf', 'iTXt'];
+
+  for (let offset = 8; offset + 12 <= bytes.length; ) {
+    const end = offset + 12 + view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    if (!dropped.includes(type)) parts.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+  return concat(parts);
+}
+
+function stripWebpMetadata(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
+  const parts: Uint8Array[] = [];
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const size = new DataView(bytes.buffer, bytes.byteOffset + offset + 4, 4).getUint32(0, true);
+    // Chunks are padded to an even length
+    const end = offset + 8 + size + (size % 2);
+    const type = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    if (type === 'VP8X') {
+      const chunk = bytes.slice(offset, end);
+      // Clear the EXIF and XMP flags
+      chunk[8] &= ~0x0c;
+      parts.push(chunk);
+    } else if (type !== 'EXIF' && type !== 'XMP ') {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  const header = bytes.slice(0, 12);
+  const body = concat(parts);
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  return concat([header, body]);
+}
+
+// Remove metadata without re-encoding; null for formats we can't parse
+export function stripMetadata(bytes: Uint8Array<ArrayBuffer>, mode: MetadataMode): Uint8Array<ArrayBuffer> | null {
+  if (mode === 'keep') return bytes;
+  try {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return stripJpegMetadata(bytes, mode);
+    if (startsWithAscii(bytes, 1, 'PNG')) return stripPngMetadata(bytes, mode);
+    if (startsWithAscii(bytes, 0, 'RIFF') && startsWithAscii(bytes, 8, 'WEBP')) {
+      return stripWebpMetadata(bytes);
+    }
+  } catch (e) {
+    console.error('Error removing image metadata:', e);
+  }
+  return null;
+}
+
+function renameForType(name: string, type: string): string {
+  const extension = EXTENSIONS[type];
+  if (!extension) return name;
+  const base = name.replace(/\.[^.]+$/, '');
+  return `${base || 'image'}.${extension}`;
+}
+
+// Drawing to a canvas drops all metadata and applies the EXIF orientation;
+// null when the options ask for neither resizing nor conversion, unless forced
+async function reencode(file: SharedFile, options: ImageOptions, force = false): Promise<SharedFile | null> {
+  const bitmap = await createImageBitmap(file.data);
+  try {
+    const longest = Math.max(bitmap.width, bitmap.height);
+    const scale = options.maxDimension > 0 ? Math.min(1, options.maxDimension / longest) : 1;
+    if (scale === 1 && options.format === 'original' && !force) return null;
+
+    const canvas = new OffscreenCanvas(
+      Math.max(1, Math.round(bitmap.width * scale)),
+      Math.max(1, Math.round(bitmap.height * scale))
+    );
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    const type =
+      options.format !== 'original'
+        ? `image/${options.format}`
+        : ENCODABLE_TYPES.includes(file.type)
+        ? file.type
+        : 'image/jpeg';
+    const blob = await canvas.convertToBlob({ type, quality: options.quality / 100 });
+    // Browsers fall back to PNG for types they can't encode
+    return { name: renameForType(file.name, blob.type), type: blob.type, data: blob };
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Metadata is stripped from the original bytes when that is all the options ask for.
+// A file whose metadata can be neither parsed nor redrawn away is sent as it is, or
+// refused with strictMetadata, so the location never goes out against the user's wish
+export async function processImage(file: SharedFile, options: ImageOptions): Promise<SharedFile> {
+  if (!isProcessableImage(file) || !needsImageProcessing(options)) return file;
+
+  if (options.maxDimension > 0 || options.format !== 'original') {
+    try {
+      const reencoded = await reencode(file, options);
+      if (reencoded) return reencoded;
+    } catch (e) {
+      // Formats the browser can't decode (HEIC in most browsers) can still have their metadata removed
+      console.error(`Error re-encoding ${file.name}:`, e);
+    }
+  }
+
+  if (options.metadata === 'keep') return file;
+  const bytes = new Uint8Array(await file.data.arrayBuffer());
+  const stripped = stripMetadata(bytes, options.metadata);
+  if (stripped) return { ...file, data: new Blob([stripped], { type: file.type }) };
+
+  // A format we can't parse loses its metadata when redrawn from pixels
+  try {
+    const redrawn = await reencode(file, options, true);
+    if (redrawn) return redrawn;
+  } catch (e) {
+    console.error(`Error redrawing ${file.name}:`, e);
+  }
+  if (options.strictMetadata) {
+    throw new Error(`Can't remove metadata from ${file.name} (${file.type})`);
+  }
+  console.warn(`Sending ${file.name} with its metadata: ${file.type} can't be parsed or decoded here`);
+  return file;
+}
@@ -0,0 +1,95 @@
+// System notifications for shares the service worker relays without opening the app
+
+import type { ForwardResult } from './forwarder';
+import { truncate } from './format';
+
+// Query parameter, and message type, used to hand a notification click over to the app
+export const NOTIFICATION_PARAM = 'notification';
+export const NOTIFICATION_CLICK_MESSAGE = 'notification-click';
+
+export type NotificationAction = 'open' | 'retry' | 'copy' | 'openLink';
+
+export interface RelayNotificationData {
+  shareId: string;
+  // Relays the Retry action sends again
+  failed: Array<Pick<ForwardResult, 'destinationId' | 'logId' | 'queued'>>;
+  // History entry whose response the Copy action copies
+  responseLogId?: string;
+  // Link from a structured response, for the Open link action
+  openUrl?: string;
+}
+
+// Action buttons are missing from the TypeScript DOM lib
+export type RelayNotificationOptions = NotificationOptions & {
+  actions?: Array<{ action: NotificationAction; title: string }>;
+  data: RelayNotificationData;
+};
+
+export function notificationsGranted(): boolean {
+  return typeof Notification !== 'undefined' && Notification.permission === 'granted';
+}
+
+function names(results: ForwardResult[]): string {
+  return results.map((result) => result.destinationName).join(', ');
+}
+
+// Most platforms show two actions at most, so each outcome offers the two that matter
+export function buildRelayNotification(
+  shareId: string,
+  results: ForwardResult[]
+): { title: string; options: RelayNotificationOptions } {
+  const failed = results.filter((result) => !result.success);
+  const delivered = results.filter((result) => result.success && !result.batched);
+  const batched = results.filter((result) => result.batched);
+  const batchedLine = batched.length > 0 ? [`Waiting in the batch for ${names(batched)}`] : [];
+  const withResponse = delivered.find((result) => result.response);
+  const openUrl = delivered.find((result) => result.actions?.openUrl)?.actions?.openUrl;
+  const data: RelayNotificationData = {
+    shareId,
+    failed: failed.map(({ destinationId, logId, queued }) => ({ destinationId, logId, queued })),
+    responseLogId: withResponse?.logId,
+    openUrl,
+  };
+  // One notification per share; a retry replaces it
+  const common = { tag: `relay-${shareId}`, icon: '/pwa-192x192.svg', data };
+
+  if (failed.length === 0) {
+    return {
+      title: delivered.length > 0 ? `Relayed to ${names(delivered)}` : `Added to the batch for ${names(batched)}`,
+      options: {
+        ...common,
+        body: [
+          withResponse
+            ? withResponse.actions?.message ?? truncate(withResponse.response!, 200)
+            : delivered.length > 0
+              ? 'Delivered'
+              : 'It goes out with the next batch',
+          ...(delivered.length > 0 ? batchedLine : []),
+        ].join('\n'),
+        actions: [
+          ...(withResponse ? [{ action: 'copy' as const, title: 'Copy response' }] : []),
+          ...(openUrl ? [{ action: 'openLink' as const, title: 'Open link' }] : []),
+          { action: 'open' as const, title: 'Open' },
+        ].slice(0, 2),
+      },
+    };
+  }
+
+  const queued = failed.every((result) => result.queued);
+  return {
+    title: queued ? `Queued for ${names(failed)}` : `Relay to ${names(failed)} failed`,
+    options: {
+      ...common,
+      body: [
+        ...failed.map((result) => `${result.destinationName}: ${result.error || 'Unknown error'}`),
+        ...(queued ? ['Retrying automatically'] : []),
+        ...(delivered.length > 0 ? [`Delivered to ${names(delivered)}`] : []),
+        ...batchedLine,
+      ].join('\n'),
+      actions: [
+        { action: 'retry', title: 'Retry' },
+        { action: 'open', title: 'Open' },
+      ],
+    },
+  };
+}
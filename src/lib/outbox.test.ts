@@ -0,0 +1,133 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CLAIM_TIMEOUT,
+  drainOutbox,
+  getOutboxItems,
+  putOutboxItem,
+  removeOutboxItem,
+  retryOutboxItem,
+  type OutboxItem,
+} from './outbox';
+import { sendToDestination } from './relay';
+import { updateLogEntry } from './history';
+import { normalizeConfig } from './config';
+import { createDestination, mirrorConfig, type Destination } from './storage';
+
+vi.mock('./relay', () => ({ sendToDestination: vi.fn() }));
+vi.mock('./history', () => ({ updateLogEntry: vi.fn(), describeRelayResult: () => ({}) }));
+
+const send = vi.mocked(sendToDestination);
+
+const destination: Destination = { ...createDestination('https://example.com/hook'), id: 'home' };
+
+function queuedItem(id: string): OutboxItem {
+  return {
+    id,
+    logId: id,
+    share: { id: `share-${id}`, title: '', text: 'hello', url: '', files: [], timestamp: 0 },
+    destinationId: destination.id,
+    destinationName: 'example.com',
+    status: 'queued',
+    attempts: 1,
+    createdAt: 0,
+    nextAttemptAt: 0,
+  };
+}
+
+// Resolves a moment later, so a second drain starts while the first is still sending
+function slowDelivery() {
+  send.mockImplementation(
+    () => new Promise((resolve) => setTimeout(() => resolve({ ok: true, status: 200, retryable: false }), 20))
+  );
+}
+
+describe('outbox', () => {
+  beforeEach(async () => {
+    send.mockReset();
+    vi.mocked(updateLogEntry).mockClear();
+    await mirrorConfig(normalizeConfig({ destinations: [destination] }));
+    for (const item of await getOutboxItems()) {
+      await removeOutboxItem(item.id);
+    }
+  });
+
+  it('sends each item once when two drains run at the same time', async () => {
+    slowDelivery();
+    await putOutboxItem(queuedItem('a'));
+    await putOutboxItem(queuedItem('b'));
+
+    await Promise.all([drainOutbox(), drainOutbox()]);
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls.map(([share]) => share.id).sort()).toEqual(['share-a', 'share-b']);
+    expect((await getOutboxItems()).map((item) => item.id)).not.toContain('a');
+  });
+
+  it('leaves an item a drain is sending to a manual retry', async () => {
+    slowDelivery();
+    await putOutboxItem(queuedItem('c'));
+
+    await Promise.all([drainOutbox(), retryOutboxItem('c')]);
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('takes over an item whose claim has gone stale', async () => {
+    slowDelivery();
+    await putOutboxItem({ ...queuedItem('d'), sendingSince: Date.now() - 10 * 60 * 1000 });
+
+    await drainOutbox();
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends retries to the destination as it is configured now', async () => {
+    slowDelivery();
+    await putOutboxItem(queuedItem('e'));
+    const moved = { ...destination, url: 'https://example.org/new-hook' };
+    await mirrorConfig(normalizeConfig({ destinations: [moved] }));
+
+    await drainOutbox();
+
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ id: 'share-e' }), moved);
+  });
+
+  it('drops items whose destination no longer exists', async () => {
+    slowDelivery();
+    await putOutboxItem(queuedItem('f'));
+    await mirrorConfig(normalizeConfig({ destinations: [] }));
+
+    await drainOutbox();
+
+    expect(send).not.toHaveBeenCalled();
+    expect(await getOutboxItems()).toEqual([]);
+    expect(updateLogEntry).toHaveBeenCalledWith('f', { status: 'error', error: 'Destination no longer exists' });
+  });
+
+  it('renews the claim of an item while it is still being sent', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'Date'] });
+    try {
+      let finish = () => {};
+      send.mockImplementation(
+        () => new Promise((resolve) => (finish = () => resolve({ ok: true, status: 200, retryable: false })))
+      );
+      await putOutboxItem(queuedItem('g'));
+
+      const first = drainOutbox();
+      await vi.waitFor(() => expect(send).toHaveBeenCalledTimes(1));
+      await vi.advanceTimersByTimeAsync(CLAIM_TIMEOUT + 1000);
+      await vi.waitFor(async () => {
+        const [item] = await getOutboxItems();
+        expect(Date.now() - item.sendingSince!).toBeLessThan(CLAIM_TIMEOUT);
+      });
+      await drainOutbox();
+      finish();
+      await first;
+
+      expect(send).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,248 @@
+// Outbox module for relays that failed or happened while offline
+
+import { openShareDB, requestToPromise, OUTBOX_STORE } from './db';
+import { sendToDestination, type RelayResponse } from './relay';
+import { describeRelayResult, updateLogEntry } from './history';
+import { flushDueBatches } from './batches';
+import { getDestinationLabel, getMirroredConfig, type Destination, type RelayConfig, type ShareData } from './storage';
+
+export const OUTBOX_SYNC_TAG = 'relay-outbox';
+export const OUTBOX_UPDATED_MESSAGE = 'outbox-updated';
+export const DRAIN_OUTBOX_MESSAGE = 'drain-outbox';
+
+const BASE_RETRY_DELAY = 30 * 1000;
+const MAX_RETRY_DELAY = 60 * 60 * 1000;
+export const MAX_ATTEMPTS = 8;
+const PERIODIC_SYNC_INTERVAL = 15 * 60 * 1000;
+// A send still marked as in flight after this long was cut short, so the item is free again;
+// sends that are still running renew their claim well before then
+export const CLAIM_TIMEOUT = 5 * 60 * 1000;
+const CLAIM_RENEWAL_INTERVAL = 60 * 1000;
+
+export interface OutboxItem {
+  id: string;
+  // Log entry that reports this relay in the history
+  logId: string;
+  share: ShareData;
+  // Looked up in the config on every attempt, so edits and rotated secrets apply to retries
+  destinationId: string;
+  // Kept for display once the destination is renamed or removed
+  destinationName: string;
+  status: 'queued' | 'failed';
+  attempts: number;
+  createdAt: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  // Set while a drain or retry is sending it, so a concurrent one leaves it alone
+  sendingSince?: number;
+}
+
+// Background Sync APIs are not in the TypeScript DOM lib yet
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+  periodicSync?: { register(tag: string, options: { minInterval: number }): Promise<void> };
+};
+
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY);
+}
+
+export async function getOutboxItems(): Promise<OutboxItem[]> {
+  try {
+    const db = await openShareDB();
+    const store = db.transaction(OUTBOX_STORE, 'readonly').objectStore(OUTBOX_STORE);
+    const items = await requestToPromise(store.getAll() as IDBRequest<OutboxItem[]>);
+    return items.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (e) {
+    console.error('Error reading outbox:', e);
+    return [];
+  }
+}
+
+export async function putOutboxItem(item: OutboxItem): Promise<void> {
+  const db = await openShareDB();
+  const store = db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE);
+  await requestToPromise(store.put(item));
+}
+
+export async function removeOutboxItem(id: string): Promise<void> {
+  const db = await openShareDB();
+  const store = db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE);
+  await requestToPromise(store.delete(id));
+}
+
+export async function enqueueRelay(
+  share: ShareData,
+  destination: Destination,
+  logId: string,
+  error: string
+): Promise<OutboxItem> {
+  const now = Date.now();
+  const item: OutboxItem = {
+    id: logId,
+    logId,
+    share,
+    destinationId: destination.id,
+    destinationName: getDestinationLabel(destination),
+    status: 'queued',
+    attempts: 1,
+    createdAt: now,
+    nextAttemptAt: now + getRetryDelay(1),
+    lastError: error,
+  };
+  await putOutboxItem(item);
+  return item;
+}
+
+// Mark the items `take` wants as sending in one transaction; drains run from the app and the service worker
+async function claimItems(take: (item: OutboxItem, now: number) => boolean): Promise<OutboxItem[]> {
+  const now = Date.now();
+  const db = await openShareDB();
+  const store = db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE);
+  const items = await requestToPromise(store.getAll() as IDBRequest<OutboxItem[]>);
+  const claimed = items
+    .filter((item) => (!item.sendingSince || now - item.sendingSince > CLAIM_TIMEOUT) && take(item, now))
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map((item) => ({ ...item, sendingSince: now }));
+  await Promise.all(claimed.map((item) => requestToPromise(store.put(item))));
+  return claimed;
+}
+
+// Keep claims on items that are still being sent from going stale: uploads and multi-part
+// adapter sends can take longer than CLAIM_TIMEOUT. Returns a function that stops renewing
+export function renewClaims(storeName: string, ids: string[]): () => void {
+  const timer = setInterval(async () => {
+    try {
+      const db = await openShareDB();
+      const store = db.transaction(storeName, 'readwrite').objectStore(storeName);
+      const items = await Promise.all(
+        ids.map((id) => requestToPromise(store.get(id) as IDBRequest<{ sendingSince?: number } | undefined>))
+      );
+      // Items that were settled or removed in the meantime are left as they are
+      const now = Date.now();
+      await Promise.all(
+        items.flatMap((item) =>
+          item?.sendingSince ? [requestToPromise(store.put({ ...item, sendingSince: now }))] : []
+        )
+      );
+    } catch (e) {
+      console.error('Error renewing claims:', e);
+    }
+  }, CLAIM_RENEWAL_INTERVAL);
+  return () => clearInterval(timer);
+}
+
+// Send a claimed item once and record the outcome in the history; returns null once delivered or dropped
+async function attemptItem({ sendingSince: _, ...item }: OutboxItem): Promise<OutboxItem | null> {
+  // The current settings, so retries follow URL changes and rotated secrets
+  const config = await getMirroredConfig();
+  if (!config) {
+    // Nothing to look the destination up in yet; release the claim for a later drain
+    await putOutboxItem(item);
+    return item;
+  }
+  const destination = config.destinations.find((entry) => entry.id === item.destinationId);
+  if (!destination) {
+    await removeOutboxItem(item.id);
+    await updateLogEntry(item.logId, { status: 'error', error: 'Destination no longer exists' });
+    return null;
+  }
+
+  const stopRenewing = renewClaims(OUTBOX_STORE, [item.id]);
+  let result: RelayResponse;
+  try {
+    result = await sendToDestination(item.share, destination);
+  } finally {
+    stopRenewing();
+  }
+  const attempts = item.attempts + 1;
+
+  if (result.ok) {
+    await updateLogEntry(item.logId, { status: 'success', attempts, ...describeRelayResult(result) });
+    await removeOutboxItem(item.id);
+    return null;
+  }
+
+  const giveUp = !result.retryable || attempts >= MAX_ATTEMPTS;
+  await updateLogEntry(item.logId, {
+    status: giveUp ? 'error' : 'queued',
+    attempts,
+    ...describeRelayResult(result),
+  });
+
+  const updated: OutboxItem = {
+    ...item,
+    status: giveUp ? 'failed' : 'queued',
+    attempts,
+    lastError: result.error,
+    nextAttemptAt: Date.now() + getRetryDelay(attempts),
+  };
+  await putOutboxItem(updated);
+  return updated;
+}
+
+// Retry queued items; returns how many are still waiting for a retry
+export async function drainOutbox(options: { force?: boolean } = {}): Promise<number> {
+  const claimed = await claimItems(
+    (item, now) => item.status === 'queued' && (Boolean(options.force) || item.nextAttemptAt <= now)
+  );
+  for (const item of claimed) {
+    await attemptItem(item);
+  }
+  return (await getOutboxItems()).filter((item) => item.status === 'queued').length;
+}
+
+// Manual retry of a single item, bypassing the backoff delay
+// Returns null once delivered, or when the item is gone or already being sent
+export async function retryOutboxItem(id: string): Promise<OutboxItem | null> {
+  const [item] = await claimItems((entry) => entry.id === id);
+  if (!item) return null;
+
+  return attemptItem({ ...item, status: 'queued' });
+}
+
+export async function dropOutboxItem(item: OutboxItem): Promise<void> {
+  await removeOutboxItem(item.id);
+  await updateLogEntry(item.logId, {
+    status: 'error',
+    error: `Dropped from outbox: ${item.lastError || 'no error'}`,
+  });
+}
+
+// Ask the browser to wake the service worker once connectivity is back.
+// Browsers without Background Sync rely on requestOutboxDrain instead.
+export async function scheduleOutboxSync(): Promise<void> {
+  // The service worker has no navigator.serviceWorker, only its own registration
+  const ownRegistration = (globalThis as { registration?: ServiceWorkerRegistration }).registration;
+  if (!ownRegistration && !('serviceWorker' in navigator)) return;
+
+  try {
+    const registration = (ownRegistration || (await navigator.serviceWorker.ready)) as SyncCapableRegistration;
+    await registration.sync?.register(OUTBOX_SYNC_TAG);
+
+    if (registration.periodicSync) {
+      const status = await navigator.permissions
+        .query({ name: 'periodic-background-sync' as PermissionName })
+        .catch(() => null);
+      if (status?.state === 'granted') {
+        await registration.periodicSync.register(OUTBOX_SYNC_TAG, {
+          minInterval: PERIODIC_SYNC_INTERVAL,
+        });
+      }
+    }
+  } catch (e) {
+    console.error('Error scheduling outbox sync:', e);
+  }
+}
+
+// Drain through the service worker when it controls the page, directly otherwise;
+// either way, batches that are due go out too
+export async function requestOutboxDrain(config: RelayConfig): Promise<void> {
+  const controller = 'serviceWorker' in navigator ? navigator.serviceWorker.controller : null;
+  if (controller) {
+    controller.postMessage({ type: DRAIN_OUTBOX_MESSAGE });
+    return;
+  }
+  await drainOutbox();
+  await flushDueBatches(config);
+}
@@ -0,0 +1,82 @@
+// Versioned JSON payload (v2), opt-in per destination
+//
+// These types are the source of public/schemas/payload-v2.json: run
+// `pnpm schema` after changing them. Comments on fields become the schema's
+// descriptions, so they are written for receivers.
+
+import type { UploadedFile } from './uploads';
+import type { ContactDetails, EventDetails, GeoLocation, ShareKind } from './classify';
+
+export const PAYLOAD_SCHEMA_VERSION = 2;
+// Relative to the app's base URL
+const PAYLOAD_SCHEMA_FILE = 'schemas/payload-v2.json';
+export const CLIENT_NAME = 'webshare-relay';
+
+// The version from package.json, injected by vite.config.ts and vitest.config.ts
+declare const __APP_VERSION__: string;
+export const CLIENT_VERSION = __APP_VERSION__;
+
+// Where the app serves the schema; works in the app and the service worker
+export function payloadSchemaUrl(): string {
+  return new URL(PAYLOAD_SCHEMA_FILE, new URL(import.meta.env.BASE_URL, self.location.origin)).toString();
+}
+
+export type PayloadSchema = 'v1' | 'v2';
+
+export interface PayloadV2 {
+  // URL of the JSON Schema this body follows
+  $schema: string;
+  schemaVersion: 2;
+  // Share ID, the same on every retry; also sent as the Idempotency-Key header
+  id: string;
+  // When the share reached the app, as ISO 8601
+  sharedAt: string;
+  // When this request was made, as ISO 8601; changes on every retry
+  relayedAt: string;
+  client: PayloadClient;
+  // Device name set in the app's Config tab, null when not set
+  device: string | null;
+  share: PayloadShare;
+}
+
+export interface PayloadClient {
+  name: string;
+  version: string;
+}
+
+export interface PayloadShare {
+  title: string | null;
+  text: string | null;
+  url: string | null;
+  files: PayloadFile[];
+  // What was shared: link, text, image, video, audio, document, contact or location
+  kind: ShareKind;
+  // Position from a geo: URI or map link, when it has coordinates
+  location?: GeoLocation;
+  // Contacts from attached vCards
+  contacts?: ContactDetails[];
+  // Events from attached iCalendar files
+  events?: EventDetails[];
+  // Tags added before relaying; omitted when there are none
+  tags?: string[];
+  // Note added before relaying; omitted when empty
+  note?: string;
+  // Cleaned links found in the share; only present when link cleaning is on
+  urls?: string[];
+  // Files sent ahead with chunked uploads; files is empty then
+  uploads?: UploadedFile[];
+  // Only present on connection tests
+  test?: true;
+}
+
+export interface PayloadFile {
+  name: string;
+  // MIME type
+  type: string;
+  // Size in bytes, before base64 encoding
+  size: number;
+  // Hex SHA-256 of the file contents
+  sha256: string;
+  // Base64-encoded file contents
+  data: string;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { AutoRelayPolicy, AutoRelaySettings } from './policies';
+import { decideAutoRelay, policyMatches } from './policies';
+import type { ShareData } from './storage';
+
+function share(fields: Partial<ShareData>): ShareData {
+  return { id: 'share', title: '', text: '', url: '', files: [], timestamp: 0, ...fields };
+}
+
+function domainPolicy(action: AutoRelayPolicy['action']): AutoRelayPolicy {
+  return { id: action, type: 'domain', pattern: 'github.com', action };
+}
+
+const mixed = share({ url: 'https://github.com/a/b', text: 'see https://evil.example/phish' });
+
+describe('domain policies', () => {
+  it('relay automatically only when every link is on the domain', () => {
+    expect(policyMatches(domainPolicy('send'), share({ url: 'https://gist.github.com/a' }))).toBe(true);
+    expect(policyMatches(domainPolicy('send'), mixed)).toBe(false);
+  });
+
+  it('ask, block or drop when any link is on the domain', () => {
+    for (const action of ['confirm', 'block', 'drop'] as const) {
+      expect(policyMatches(domainPolicy(action), mixed)).toBe(true);
+    }
+  });
+
+  it('never match shares without links', () => {
+    expect(policyMatches(domainPolicy('send'), share({ text: 'no links here' }))).toBe(false);
+    expect(policyMatches(domainPolicy('block'), share({ text: 'no links here' }))).toBe(false);
+  });
+
+  it('do not match lookalike hosts', () => {
+    expect(policyMatches(domainPolicy('send'), share({ url: 'https://notgithub.com/a' }))).toBe(false);
+  });
+});
+
+describe('decideAutoRelay', () => {
+  const settings: AutoRelaySettings = { policies: [domainPolicy('send')], fallback: 'confirm' };
+
+  it('falls back when a trusted link comes with an untrusted one', () => {
+    expect(decideAutoRelay(mixed, settings)).toEqual({ action: 'confirm', policy: null });
+  });
+
+  it('lets the strictest matching policy win', () => {
+    const files: AutoRelayPolicy = { id: 'files', type: 'files', pattern: '', action: 'confirm' };
+    const file = { name: 'a.txt', type: 'text/plain', data: new Blob(['a']) };
+    const decision = decideAutoRelay(share({ url: 'https://github.com/a', files: [file] }), {
+      ...settings,
+      policies: [domainPolicy('send'), files],
+    });
+    expect(decision).toEqual({ action: 'confirm', policy: files });
+  });
+});
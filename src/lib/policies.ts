@@ -0,0 +1,135 @@
+// Auto-relay policies: what happens to a share when it arrives
+//
+// Every policy that matches a share counts and the strictest action wins (drop,
+// then block, confirm, send), so "always confirm files" holds whatever else
+// matches. Shares no policy matches get the fallback action. A domain policy that
+// relays automatically only matches when every link in the share is on its domain.
+
+import type { ShareData } from './storage';
+import { matchesDomain } from './routing';
+import { findShareUrls } from './urls';
+import { classifyShare, SHARE_KINDS } from './classify';
+import { formatBytes } from './format';
+
+const MB = 1024 * 1024;
+
+export type PolicyAction = 'send' | 'confirm' | 'block' | 'drop';
+
+export type PolicyType = 'domain' | 'files' | 'size' | 'regex' | 'kind';
+
+export interface AutoRelayPolicy {
+  id: string;
+  type: PolicyType;
+  // Domain (example.com), size in MB, regular expression or share kind; files needs none
+  pattern: string;
+  action: PolicyAction;
+}
+
+export interface AutoRelaySettings {
+  policies: AutoRelayPolicy[];
+  // What happens to shares no policy matches
+  fallback: 'send' | 'confirm';
+}
+
+export const DEFAULT_AUTO_RELAY: AutoRelaySettings = {
+  policies: [],
+  fallback: 'confirm',
+};
+
+export const POLICY_ACTIONS: Record<PolicyAction, string> = {
+  send: 'Relay automatically',
+  confirm: 'Ask first',
+  block: 'Block',
+  drop: 'Drop silently',
+};
+
+// Strictest last
+const STRICTNESS: PolicyAction[] = ['send', 'confirm', 'block', 'drop'];
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  // The policy that decided, or null when the fallback did
+  policy: AutoRelayPolicy | null;
+}
+
+function shareBytes(share: ShareData): number {
+  const text = new TextEncoder().encode(`${share.title}${share.text}${share.url}`).length;
+  return text + (share.files || []).reduce((total, file) => total + file.data.size, 0);
+}
+
+export function policyMatches(policy: AutoRelayPolicy, share: ShareData): boolean {
+  switch (policy.type) {
+    case 'files':
+      return (share.files || []).length > 0;
+    case 'size': {
+      const limit = Number(policy.pattern);
+      return policy.pattern !== '' && Number.isFinite(limit) && shareBytes(share) > limit * MB;
+    }
+    case 'domain': {
+      if (!policy.pattern) return false;
+      const urls = findShareUrls(share);
+      const onDomain = (url: URL) => matchesDomain(policy.pattern, url.hostname);
+      // Relaying needs every link to be trusted; asking, blocking or dropping needs only one
+      return policy.action === 'send' ? urls.length > 0 && urls.every(onDomain) : urls.some(onDomain);
+    }
+    case 'regex': {
+      if (!policy.pattern) return false;
+      let regex: RegExp;
+      try {
+        regex = new RegExp(policy.pattern, 'i');
+      } catch (e) {
+        console.error(`Invalid policy pattern "${policy.pattern}":`, e);
+        return false;
+      }
+      return [share.title, share.text, share.url].some((value) => !!value && regex.test(value));
+    }
+    case 'kind':
+      return classifyShare(share) === policy.pattern;
+    default:
+      return false;
+  }
+}
+
+export function decideAutoRelay(share: ShareData, settings: AutoRelaySettings): PolicyDecision {
+  let decision: PolicyDecision = { action: settings.fallback, policy: null };
+  let strictness = -1;
+  for (const policy of settings.policies) {
+    const rank = STRICTNESS.indexOf(policy.action);
+    if (rank > strictness && policyMatches(policy, share)) {
+      decision = { action: policy.action, policy };
+      strictness = rank;
+    }
+  }
+  return decision;
+}
+
+// Any site can link to /share, so shares from links wait for the user whatever the policy says
+export function relaysAutomatically(share: ShareData, decision: PolicyDecision): boolean {
+  return decision.action === 'send' && !share.viaLink;
+}
+
+// Blocked shares are never relayed; shares that should have been dropped are treated the same
+export function isRefused(decision: PolicyDecision): boolean {
+  return decision.action === 'block' || decision.action === 'drop';
+}
+
+// Whether any share could be relayed without the app, which needs notifications to report back
+export function sendsAutomatically(settings: AutoRelaySettings): boolean {
+  return settings.fallback === 'send' || settings.policies.some((policy) => policy.action === 'send');
+}
+
+// The condition in words, for the Config and Share views
+export function describePolicy(policy: AutoRelayPolicy): string {
+  switch (policy.type) {
+    case 'files':
+      return 'Files attached';
+    case 'size':
+      return `Larger than ${formatBytes(Number(policy.pattern) * MB)}`;
+    case 'domain':
+      return `Link to ${policy.pattern}`;
+    case 'regex':
+      return `Matches /${policy.pattern}/`;
+    case 'kind':
+      return `Kind: ${SHARE_KINDS.find((item) => item.kind === policy.pattern)?.label ?? policy.pattern}`;
+  }
+}
@@ -0,0 +1,182 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { sendBatch, sendToDestination } from './relay';
+import { createDestination, type ShareData } from './storage';
+
+const share: ShareData = {
+  id: 'share-1',
+  title: 'Photo',
+  text: '',
+  url: '',
+  files: [{ name: 'a.txt', type: 'text/plain', data: new Blob(['hello']) }],
+  timestamp: 0,
+};
+
+describe('relay', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('sends the same payload for a destination alone and in a batch', async () => {
+    const bodies: unknown[] = [];
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (_url: string, init: RequestInit) => {
+        bodies.push(JSON.parse(init.body as string));
+        return new Response('{}', { status: 200 });
+      })
+    );
+
+    const destination = createDestination('https://example.com/hook');
+    const single = await sendToDestination(share, destination);
+    const batch = await sendBatch('batch-1', [share], destination);
+
+    expect(single.ok).toBe(true);
+    expect(batch).toMatchObject({ ok: true, skipped: [] });
+    expect(bodies[1]).toEqual([bodies[0]]);
+  });
+
+  it('records credential headers redacted and other headers as sent', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{}', { status: 200 })));
+
+    const destination = createDestination('https://example.com/hook');
+    destination.headers = [
+      { name: 'X-API-Key', value: 'k' },
+      { name: 'Authorization', value: 'Bearer t' },
+      { name: 'Idempotency-Key', value: 'abc' },
+    ];
+    const result = await sendToDestination(share, destination);
+
+    expect(result.exchanges?.[0].requestHeaders).toMatchObject({
+      'x-api-key': '***',
+      authorization: '***',
+      'idempotency-key': 'abc',
+    });
+  });
+
+  it('refuses to send an encrypted destination through a service adapter', async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal('fetch', fetch);
+
+    const destination = createDestination('https://hooks.slack.com/services/x');
+    destination.adapter = { ...destination.adapter, type: 'slack' };
+    destination.encryption = { ...destination.encryption, mode: 'passphrase', passphrase: 'secret' };
+    const result = await sendToDestination(share, destination);
+
+    expect(result).toMatchObject({ ok: false, retryable: false });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('fails an image whose metadata cannot be removed when asked to be strict', async () => {
+    const bodies: unknown[] = [];
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (_url: string, init: RequestInit) => {
+        bodies.push(JSON.parse(init.body as string));
+        return new Response('{}', { status: 200 });
+      })
+    );
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const photo = { name: 'photo.heic', type: 'image/heic', data: new Blob([new Uint8Array([0, 0, 0, 24])]) };
+    const destination = createDestination('https://example.com/hook');
+    const lenient = await sendToDestination({ ...share, files: [photo] }, destination);
+    destination.images = { ...destination.images, strictMetadata: true };
+    const strict = await sendToDestination({ ...share, files: [photo] }, destination);
+
+    expect(lenient.ok).toBe(true);
+    expect(strict).toMatchObject({ ok: false, retryable: false });
+    expect(strict.error).toContain('photo.heic');
+    expect(bodies).toHaveLength(1);
+  });
+
+
+  it('reports a timed-out request as a retryable timeout', async () => {
+    const fetch = vi.fn(async (_url: string, init: RequestInit) => {
+      expect(init.signal).toBeInstanceOf(AbortSignal);
+      throw new DOMException('The operation timed out.', 'TimeoutError');
+    });
+    vi.stubGlobal('fetch', fetch);
+
+    const result = await sendToDestination(share, createDestination('https://example.com/hook'));
+
+    expect(result).toMatchObject({ ok: false, retryable: true, category: 'timeout' });
+  });
+
+  it('does not retry URLs that can never be reached', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => {
+        throw new TypeError('Failed to fetch');
+      })
+    );
+    vi.stubGlobal('location', { protocol: 'https:' });
+
+    const invalid = await sendToDestination(share, createDestination('not a url'));
+    const mixed = await sendToDestination(share, createDestination('http://example.com/hook'));
+
+    expect(invalid).toMatchObject({ ok: false, retryable: false, category: 'invalidUrl' });
+    expect(mixed).toMatchObject({ ok: false, retryable: false, category: 'mixedContent' });
+  });
+
+  it('does not upload finished files again when only the share failed', async () => {
+    const requests: string[] = [];
+    let deliveries = 0;
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string, init: RequestInit) => {
+        requests.push(`${init.method} ${url}`);
+        if (url === 'https://example.com/files') {
+          return new Response(null, { status: 201, headers: { Location: '/files/1' } });
+        }
+        if (url === 'https://example.com/files/1') {
+          return new Response(null, { status: 204, headers: { 'Upload-Offset': '5' } });
+        }
+        deliveries++;
+        return new Response('{}', { status: deliveries === 1 ? 503 : 200 });
+      })
+    );
+
+    const destination = createDestination('https://example.com/hook');
+    destination.uploads = { enabled: true, endpoint: 'https://example.com/files', chunkSizeMB: 5 };
+    const first = await sendToDestination({ ...share, id: 'share-upload' }, destination);
+    const retry = await sendToDestination({ ...share, id: 'share-upload' }, destination);
+
+    expect(first).toMatchObject({ ok: false, retryable: true });
+    expect(retry.ok).toBe(true);
+    expect(requests).toEqual([
+      'POST https://example.com/files',
+      'PATCH https://example.com/files/1',
+      'POST https://example.com/hook',
+      'POST https://example.com/hook',
+    ]);
+  });
+
+  it('resumes a multi-message adapter send after the messages that went through', async () => {
+    const requests: string[] = [];
+    let failed = false;
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (_url: string, init: RequestInit) => {
+        const name = new Headers(init.headers).get('Filename');
+        requests.push(name!);
+        if (name === 'b.txt' && !failed) {
+          failed = true;
+          return new Response('', { status: 503 });
+        }
+        return new Response('{}', { status: 200 });
+      })
+    );
+
+    const destination = createDestination('https://ntfy.example.com/topic');
+    destination.adapter = { ...destination.adapter, type: 'ntfy' };
+    const files = [share.files[0], { ...share.files[0], name: 'b.txt' }];
+    const first = await sendToDestination({ ...share, id: 'share-ntfy', files }, destination);
+    const retry = await sendToDestination({ ...share, id: 'share-ntfy', files }, destination);
+
+    expect(first).toMatchObject({ ok: false, retryable: true });
+    expect(retry.ok).toBe(true);
+    expect(requests).toEqual(['a.txt', 'b.txt', 'b.txt']);
+  });
+});
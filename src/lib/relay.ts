@@ -0,0 +1,326 @@
+// Relay module that sends a share to a single destination
+// Kept free of localStorage so the service worker can use it too
+
+import type { Destination, ShareData } from './storage';
+import { blobToBase64, hashBlob } from './files';
+import { buildAuthHeaders, buildSignatureHeaders } from './auth';
+import { renderTemplate, TEMPLATE_CONTENT_TYPES } from './template';
+import { sendRequest, type HttpExchange, type RelayResponse } from './http';
+import { getAdapter } from './adapters';
+import { processShareImages } from './imageProcessor';
+import type { ImageOptions } from './images';
+import {
+  clearShareUploads,
+  uploadShareFiles,
+  type UploadedFile,
+  type UploadProgressListener,
+} from './uploads';
+import { encryptBody } from './encryption';
+import {
+  CLIENT_NAME,
+  CLIENT_VERSION,
+  PAYLOAD_SCHEMA_VERSION,
+  payloadSchemaUrl,
+  type PayloadV2,
+} from './payloadSchema';
+import { classifyShare, type ContactDetails, type EventDetails, type GeoLocation, type ShareKind } from './classify';
+
+export type { RelayResponse } from './http';
+
+export interface ForwardPayload {
+  // The share's ID, the same on every retry; also sent as the Idempotency-Key header
+  id: string;
+  title: string | null;
+  text: string | null;
+  url: string | null;
+  files: Array<{ name: string; type: string; data: string }>;
+  kind: ShareKind;
+  // Only present when they could be parsed from the share
+  location?: GeoLocation;
+  contacts?: ContactDetails[];
+  events?: EventDetails[];
+  // Only present when the user added them
+  tags?: string[];
+  note?: string;
+  // Only present when URL extraction is enabled
+  urls?: string[];
+  // Only present when files were sent ahead with chunked uploads
+  uploads?: UploadedFile[];
+  // Only present on connection tests
+  test?: true;
+}
+
+export async function buildPayload(data: ShareData): Promise<ForwardPayload> {
+  const files = await Promise.all(
+    (data.files || []).map(async (file) => ({
+      name: file.name,
+      type: file.type,
+      data: await blobToBase64(file.data),
+    }))
+  );
+
+  return {
+    id: data.id,
+    title: data.title || null,
+    text: data.text || null,
+    url: data.url || null,
+    files,
+    // Relays set these up front; connection tests don't
+    kind: data.kind ?? classifyShare(data),
+    ...data.details,
+    ...(data.tags?.length ? { tags: data.tags } : {}),
+    ...(data.note ? { note: data.note } : {}),
+    ...(data.urls ? { urls: data.urls } : {}),
+    ...(data.uploads ? { uploads: data.uploads } : {}),
+    ...(data.test ? { test: true as const } : {}),
+  };
+}
+
+// The v1 fields under `share`, with metadata around them and sizes and hashes on files
+export async function buildPayloadV2(data: ShareData): Promise<PayloadV2> {
+  const { id, files: _, ...share } = await buildPayload({ ...data, files: [] });
+  const files = await Promise.all(
+    (data.files || []).map(async (file) => ({
+      name: file.name,
+      type: file.type,
+      size: file.data.size,
+      sha256: await hashBlob(file.data),
+      data: await blobToBase64(file.data),
+    }))
+  );
+
+  return {
+    $schema: payloadSchemaUrl(),
+    schemaVersion: PAYLOAD_SCHEMA_VERSION,
+    id,
+    sharedAt: new Date(data.timestamp).toISOString(),
+    relayedAt: new Date().toISOString(),
+    client: { name: CLIENT_NAME, version: CLIENT_VERSION },
+    device: data.device || null,
+    share: { ...share, files },
+  };
+}
+
+// Same field names as the share target, so receivers see what the PWA received
+export function buildFormData(data: ShareData): FormData {
+  const formData = new FormData();
+  formData.append('id', data.id);
+  if (data.title) formData.append('title', data.title);
+  if (data.text) formData.append('text', data.text);
+  if (data.url) formData.append('url', data.url);
+  if (data.note) formData.append('note', data.note);
+  if (data.test) formData.append('test', 'true');
+  formData.append('kind', data.kind ?? classifyShare(data));
+  // Structured fields as JSON, like uploads
+  for (const [name, value] of Object.entries(data.details || {})) {
+    formData.append(name, JSON.stringify(value));
+  }
+  for (const tag of data.tags || []) {
+    formData.append('tags', tag);
+  }
+  for (const url of data.urls || []) {
+    formData.append('urls', url);
+  }
+  for (const file of data.files || []) {
+    formData.append('files', file.data, file.name);
+  }
+  // One JSON object per uploaded file, in file order
+  for (const upload of data.uploads || []) {
+    formData.append('uploads', JSON.stringify(upload));
+  }
+  return formData;
+}
+
+type RequestBody = string | Uint8Array<ArrayBuffer>;
+
+async function buildRequestInit(data: ShareData, destination: Destination): Promise<RequestInit> {
+  // Lets the receiver drop a delivery it has already processed; a custom header can override it
+  const headers = { 'Idempotency-Key': data.id, ...buildAuthHeaders(destination) };
+
+  let body: RequestBody;
+  let contentType: string;
+  if (destination.format === 'multipart') {
+    const formData = buildFormData(data);
+    if (!destination.hmacSecret && destination.encryption.mode === 'none') {
+      // fetch sets the multipart boundary itself
+      return { method: 'POST', headers, body: formData };
+    }
+
+    // Signing and encryption need the exact bytes, so serialize the form up front
+    const serialized = new Response(formData);
+    body = new Uint8Array(await serialized.arrayBuffer());
+    contentType = serialized.headers.get('Content-Type') || 'multipart/form-data';
+  } else {
+    body =
+      destination.format === 'template'
+        ? renderTemplate(destination.template, data)
+        : JSON.stringify(destination.payloadSchema === 'v2' ? await buildPayloadV2(data) : await buildPayload(data));
+    contentType =
+      destination.format === 'template'
+        ? TEMPLATE_CONTENT_TYPES[destination.template.type]
+        : 'application/json';
+  }
+
+  return sealRequest(headers, body, contentType, destination);
+}
+
+// Encrypt and sign a finished body
+async function sealRequest(
+  headers: Record<string, string>,
+  body: RequestBody,
+  contentType: string,
+  destination: Destination
+): Promise<RequestInit> {
+  // The envelope replaces the body; the signature then covers the envelope
+  const { encryption } = destination;
+  if (encryption.mode !== 'none') {
+    const plain = typeof body === 'string' ? new TextEncoder().encode(body) : body;
+    body = JSON.stringify(await encryptBody(plain, contentType, encryption));
+    contentType = 'application/json';
+  }
+
+  return {
+    method: 'POST',
+    headers: {
+      ...headers,
+      'Content-Type': contentType,
+      ...(destination.hmacSecret
+        ? await buildSignatureHeaders(
+            destination.hmacSecret,
+            typeof body === 'string' ? new TextEncoder().encode(body) : body
+          )
+        : {}),
+    },
+    body,
+  };
+}
+
+export async function sendToDestination(
+  data: ShareData,
+  destination: Destination,
+  onProgress?: UploadProgressListener
+): Promise<RelayResponse> {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return { ok: false, error: 'Offline', retryable: true, category: 'offline' };
+  }
+
+  const processed = await processImages(data, destination.images);
+  if ('ok' in processed) return processed;
+
+  const adapter = getAdapter(destination.adapter.type);
+  if (adapter && destination.encryption.mode !== 'none') {
+    // Service adapters have their own request formats, which can't carry an encrypted envelope
+    return {
+      ok: false,
+      error: `${adapter.label} can't receive encrypted shares; turn off encryption or use a generic webhook`,
+      retryable: false,
+    };
+  }
+  if (adapter) {
+    try {
+      return await adapter.send(processed, destination);
+    } catch (error) {
+      // Request building failed (bad URL, unreadable file), not the network
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { ok: false, error: errorMessage, retryable: false };
+    }
+  }
+
+  const uploaded = await uploadFiles(processed, destination, onProgress);
+  if ('ok' in uploaded) return uploaded;
+
+  let init: RequestInit;
+  try {
+    init = await buildRequestInit(uploaded.share, destination);
+  } catch (error) {
+    // A broken template, unreadable file or bad encryption key fails the same way on every attempt
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return { ok: false, error: errorMessage, retryable: false };
+  }
+
+  const result = await sendRequest(destination.url, init);
+  if (result.ok && uploaded.share.uploads) await clearShareUploads(data.id, destination.id);
+  return { ...result, exchanges: [...uploaded.exchanges, ...(result.exchanges || [])] };
+}
+
+async function processImages(data: ShareData, images: ImageOptions): Promise<ShareData | RelayResponse> {
+  try {
+    return await processShareImages(data, images);
+  } catch (error) {
+    // Sending the originals instead could leak the location the user wanted removed
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return { ok: false, error: `Image processing failed: ${errorMessage}`, retryable: false };
+  }
+}
+
+// Send the files ahead when chunked uploads are on; the share then lists them as uploads
+async function uploadFiles(
+  share: ShareData,
+  destination: Destination,
+  onProgress?: UploadProgressListener
+): Promise<{ share: ShareData; exchanges: HttpExchange[] } | RelayResponse> {
+  if (!destination.uploads.enabled || share.files.length === 0) return { share, exchanges: [] };
+  if (destination.encryption.mode !== 'none') {
+    return {
+      ok: false,
+      error: 'Chunked uploads would send files unencrypted; turn off uploads or encryption',
+      retryable: false,
+    };
+  }
+  const upload = await uploadShareFiles(share, destination, onProgress);
+  if (!upload.ok) return upload;
+  return { share: { ...share, files: [], uploads: upload.uploads }, exchanges: upload.exchanges || [] };
+}
+
+export interface BatchRelayResponse extends RelayResponse {
+  // Shares left out because their images or uploads failed
+  skipped: Array<{ id: string; error: string; retryable: boolean }>;
+}
+
+// Several shares as one JSON array of payloads; the batch ID is the Idempotency-Key
+export async function sendBatch(
+  batchId: string,
+  shares: ShareData[],
+  destination: Destination
+): Promise<BatchRelayResponse> {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return { ok: false, error: 'Offline', retryable: true, category: 'offline', skipped: [] };
+  }
+
+  const payloads: Array<ForwardPayload | PayloadV2> = [];
+  const skipped: BatchRelayResponse['skipped'] = [];
+  const exchanges: HttpExchange[] = [];
+  const uploadedShareIds: string[] = [];
+  for (const data of shares) {
+    const processed = await processImages(data, destination.images);
+    const uploaded = 'ok' in processed ? processed : await uploadFiles(processed, destination);
+    if ('ok' in uploaded) {
+      skipped.push({ id: data.id, error: uploaded.error || 'Unknown error', retryable: uploaded.retryable });
+      exchanges.push(...(uploaded.exchanges || []));
+      continue;
+    }
+    exchanges.push(...uploaded.exchanges);
+    if (uploaded.share.uploads) uploadedShareIds.push(data.id);
+    payloads.push(
+      destination.payloadSchema === 'v2' ? await buildPayloadV2(uploaded.share) : await buildPayload(uploaded.share)
+    );
+  }
+  if (payloads.length === 0) {
+    return { ok: false, error: 'No share in the batch could be prepared', retryable: false, exchanges, skipped };
+  }
+
+  let init: RequestInit;
+  try {
+    const headers = { 'Idempotency-Key': batchId, ...buildAuthHeaders(destination) };
+    init = await sealRequest(headers, JSON.stringify(payloads), 'application/json', destination);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return { ok: false, error: errorMessage, retryable: false, exchanges, skipped };
+  }
+
+  const result = await sendRequest(destination.url, init);
+  if (result.ok) {
+    for (const id of uploadedShareIds) await clearShareUploads(id, destination.id);
+  }
+  return { ...result, exchanges: [...exchanges, ...(result.exchanges || [])], skipped };
+}
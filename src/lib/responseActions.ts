@@ -0,0 +1,66 @@
+// Structured responses a relay endpoint can send back to drive the PWA
+//
+// A JSON response body may carry { message, copyText, openUrl, share }. Each
+// field only takes effect when the destination allows it; anything else in the
+// body is ignored, and non-JSON responses are shown as before.
+
+export interface ResponseActions {
+  // Shown in place of the raw response
+  message?: string;
+  copyText?: string;
+  openUrl?: string;
+  // Handed to navigator.share to share the result onwards
+  share?: { title?: string; text?: string; url?: string };
+}
+
+export type ResponseActionSettings = Record<keyof ResponseActions, boolean>;
+
+// Messages are harmless; the rest lets the endpoint reach outside the app, so it is opt-in
+export const DEFAULT_RESPONSE_ACTIONS: ResponseActionSettings = {
+  message: true,
+  copyText: false,
+  openUrl: false,
+  share: false,
+};
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function readShare(value: unknown): ResponseActions['share'] | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const share: NonNullable<ResponseActions['share']> = {};
+  for (const key of ['title', 'text', 'url'] as const) {
+    const field = (value as Record<string, unknown>)[key];
+    if (typeof field === 'string' && field) share[key] = field;
+  }
+  if (share.url && !isHttpUrl(share.url)) delete share.url;
+  return Object.keys(share).length > 0 ? share : undefined;
+}
+
+// The allowed actions in a response body, or null when it has none
+export function parseResponseActions(
+  response: string | undefined,
+  allowed: ResponseActionSettings
+): ResponseActions | null {
+  let body: unknown;
+  try {
+    body = JSON.parse(response || '');
+  } catch {
+    return null;
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) return null;
+
+  const { message, copyText, openUrl, share } = body as Record<string, unknown>;
+  const actions: ResponseActions = {};
+  if (allowed.message && typeof message === 'string' && message) actions.message = message;
+  if (allowed.copyText && typeof copyText === 'string' && copyText) actions.copyText = copyText;
+  if (allowed.openUrl && typeof openUrl === 'string' && isHttpUrl(openUrl)) actions.openUrl = openUrl;
+  const shareData = allowed.share ? readShare(share) : undefined;
+  if (shareData) actions.share = shareData;
+  return Object.keys(actions).length > 0 ? actions : null;
+}
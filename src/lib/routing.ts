@@ -0,0 +1,64 @@
+// Routing module to pick destinations for a share
+
+import type { Destination, RelayConfig, RoutingRule, ShareData } from './storage';
+import { findShareUrls } from './urls';
+import { classifyShare } from './classify';
+
+function matchesMime(pattern: string, type: string): boolean {
+  const [patternType, patternSubtype = '*'] = pattern.trim().toLowerCase().split('/');
+  const [fileType, fileSubtype] = type.toLowerCase().split('/');
+  return (
+    (patternType === '*' || patternType === fileType) &&
+    (patternSubtype === '*' || patternSubtype === fileSubtype)
+  );
+}
+
+export function matchesDomain(domain: string, hostname: string): boolean {
+  const normalized = domain.trim().toLowerCase().replace(/^\*?\./, '');
+  const host = hostname.toLowerCase();
+  return host === normalized || host.endsWith(`.${normalized}`);
+}
+
+export function ruleMatches(rule: RoutingRule, data: ShareData): boolean {
+  if (!rule.pattern) return false;
+
+  switch (rule.type) {
+    case 'mime':
+      return (data.files || []).some((file) => matchesMime(rule.pattern, file.type));
+    case 'domain':
+      return findShareUrls(data).some((url) => matchesDomain(rule.pattern, url.hostname));
+    case 'regex': {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(rule.pattern, 'i');
+      } catch (e) {
+        console.error(`Invalid routing pattern "${rule.pattern}":`, e);
+        return false;
+      }
+      const fields =
+        rule.field === 'text' ? [data.text] : rule.field === 'url' ? [data.url] : [data.text, data.url];
+      return fields.some((value) => !!value && regex.test(value));
+    }
+    case 'kind':
+      return classifyShare(data) === rule.pattern;
+    default:
+      return false;
+  }
+}
+
+// Every destination targeted by a matching rule, or the defaults when none match
+export function resolveDestinations(data: ShareData, config: RelayConfig): Destination[] {
+  const destinations = config.destinations.filter((destination) => destination.url);
+  const matchedIds = new Set<string>();
+
+  for (const rule of config.rules) {
+    if (ruleMatches(rule, data)) {
+      rule.destinationIds.forEach((id) => matchedIds.add(id));
+    }
+  }
+
+  if (matchedIds.size > 0) {
+    return destinations.filter((destination) => matchedIds.has(destination.id));
+  }
+  return destinations.filter((destination) => destination.isDefault);
+}
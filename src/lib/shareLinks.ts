@@ -0,0 +1,70 @@
+// Share entry points for browsers without Web Share Target support: the GET
+// /share route, web+relay: links and the bookmarklet, which all build on /share,
+// plus the Compose view
+
+import type { ShareData } from './storage';
+
+export const SHARE_PATH = '/share';
+export const RELAY_PROTOCOL = 'web+relay';
+// Query parameter the manifest's protocol handler puts the whole web+relay: link in
+export const PROTOCOL_PARAM = 'link';
+
+export type ShareFields = Pick<ShareData, 'title' | 'text' | 'url'>;
+
+function readFields(params: URLSearchParams): ShareFields | null {
+  const fields = {
+    title: params.get('title')?.trim() || '',
+    text: params.get('text')?.trim() || '',
+    url: params.get('url')?.trim() || '',
+  };
+  return fields.title || fields.text || fields.url ? fields : null;
+}
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// A lone link goes in the url field, anything else in the text
+export function fieldsFromText(value: string): ShareFields | null {
+  const content = value.trim();
+  if (!content) return null;
+  return isHttpUrl(content) ? { title: '', text: '', url: content } : { title: '', text: content, url: '' };
+}
+
+// web+relay:https://example.com/page, web+relay:some%20text or web+relay:?title=…&text=…&url=…
+export function parseProtocolLink(link: string): ShareFields | null {
+  const value = link.replace(new RegExp(`^${RELAY_PROTOCOL.replace('+', '\\+')}:(//)?`, 'i'), '');
+  if (value.startsWith('?')) return readFields(new URLSearchParams(value));
+  return fieldsFromText(decode(value));
+}
+
+// The share a /share URL describes, or null when it carries nothing
+export function readShareLink(params: URLSearchParams): ShareFields | null {
+  const link = params.get(PROTOCOL_PARAM);
+  return link ? parseProtocolLink(link) : readFields(params);
+}
+
+export function createLinkShare(fields: ShareFields): ShareData {
+  return { id: crypto.randomUUID(), ...fields, files: [], timestamp: Date.now(), viaLink: true };
+}
+
+// A javascript: link that sends the current page, and any selected text, to /share
+export function buildBookmarklet(appUrl: string): string {
+  const shareUrl = new URL(SHARE_PATH.slice(1), appUrl).toString();
+  const script =
+    '(()=>{const p=new URLSearchParams({title:document.title,url:location.href,text:String(getSelection())});' +
+    `window.open(${JSON.stringify(shareUrl)}+'?'+p,'_blank')})()`;
+  return `javascript:${encodeURIComponent(script)}`;
+}
@@ -1,36 +1,183 @@
-// Storage module for config and logs
+// Storage module for config and the share inbox
+
+import { openShareDB, requestToPromise, INBOX_STORE, SETTINGS_STORE } from './db';
+import { base64ToBlob } from './files';
+import { DEFAULT_TEMPLATE, type PayloadTemplate } from './template';
+import type { UrlCleaning } from './urls';
+import type { DuplicateDetection } from './duplicates';
+import type { PayloadSchema } from './payloadSchema';
+import type { ShareDetails, ShareKind } from './classify';
+import type { AutoRelaySettings } from './policies';
+import { DEFAULT_IMAGE_OPTIONS, type ImageOptions } from './images';
+import { DEFAULT_CHUNKED_UPLOADS, type ChunkedUploads, type UploadedFile } from './uploads';
+import { DEFAULT_ENCRYPTION, type EncryptionSettings } from './encryption';
+import { DEFAULT_RESPONSE_ACTIONS, type ResponseActionSettings } from './responseActions';
+import { DEFAULT_BATCH_DELIVERY, type BatchDelivery } from './batches';
+import { CONFIG_VERSION, migrateConfig, normalizeConfig } from './config';
+import type { LogEntry } from './history';
 
 const CONFIG_KEY = 'webshare-relay-config';
-const LOGS_KEY = 'webshare-relay-logs';
-const MAX_LOGS = 50;
-const SHARE_TARGET_STORE = 'share-target-store';
+const TAGS_KEY = 'webshare-relay-tags';
+const MAX_KNOWN_TAGS = 200;
+// History lived here before it moved to IndexedDB
+const LEGACY_LOGS_KEY = 'webshare-relay-logs';
+
+export const DEFAULT_HISTORY_RETENTION: HistoryRetention = {
+  maxEntries: 500,
+  maxAgeDays: 30,
+  maxSizeMB: 50,
+};
 
 // Types
-export interface RelayConfig {
-  relayUrl: string;
-  autoRelay: boolean;
+export interface Destination {
+  id: string;
+  name: string;
+  url: string;
+  // Receives shares that no routing rule matched
+  isDefault: boolean;
+  // Base64 JSON for existing receivers, multipart/form-data for binary uploads,
+  // or a user-defined template for other webhook schemas
+  format: RelayFormat;
+  // JSON body layout: the original fields, or the versioned payload with metadata
+  payloadSchema: PayloadSchema;
+  template: PayloadTemplate;
+  // Built-in service adapters replace the generic format
+  adapter: DestinationAdapter;
+  auth: DestinationAuth;
+  // Static headers added to every request
+  headers: CustomHeader[];
+  // HMAC-SHA256 signing is enabled when a secret is set
+  hmacSecret: string;
+  // Resizing, recompression and metadata removal for shared images
+  images: ImageOptions;
+  // Send files ahead of the share with resumable tus uploads (generic webhooks only)
+  uploads: ChunkedUploads;
+  // End-to-end encryption of the request body (generic webhooks only)
+  encryption: EncryptionSettings;
+  // Which parts of a structured response the app acts on
+  responseActions: ResponseActionSettings;
+  // Collect shares and send them together as a JSON array (generic JSON destinations only)
+  batching: BatchDelivery;
 }
 
-export interface LogEntry {
+export type RelayFormat = 'json' | 'multipart' | 'template';
+
+export type AdapterType =
+  | 'generic'
+  | 'discord'
+  | 'slack'
+  | 'ntfy'
+  | 'gotify'
+  | 'matrix'
+  | 'telegram';
+
+export interface DestinationAdapter {
+  type: AdapterType;
+  // Gotify app token, Matrix access token or Telegram bot token
+  token: string;
+  // Matrix room ID or Telegram chat ID
+  target: string;
+}
+
+export interface DestinationAuth {
+  type: 'none' | 'bearer' | 'basic';
+  token: string;
+  username: string;
+  password: string;
+}
+
+export interface CustomHeader {
+  name: string;
+  value: string;
+}
+
+export type RoutingRuleType = 'mime' | 'domain' | 'regex' | 'kind';
+
+export interface RoutingRule {
   id: string;
-  timestamp: number;
-  status: 'success' | 'error' | 'pending';
-  payload: {
-    title: string;
-    text: string;
-    url: string;
-    filesCount: number;
-  };
-  response?: string;
-  error?: string;
+  type: RoutingRuleType;
+  // MIME glob (image/*), domain (example.com), regular expression or share kind (location)
+  pattern: string;
+  // Only used by regex rules
+  field: 'text' | 'url' | 'any';
+  destinationIds: string[];
+}
+
+export interface RelayConfig {
+  destinations: Destination[];
+  rules: RoutingRule[];
+  // Which shares are relayed as they arrive, which wait for confirmation and which are refused
+  autoRelay: AutoRelaySettings;
+  history: HistoryRetention;
+  urlCleaning: UrlCleaning;
+  duplicates: DuplicateDetection;
+  // Sent in v2 payloads so receivers can tell devices apart
+  deviceName: string;
+}
+
+// 0 disables a limit
+export interface HistoryRetention {
+  maxEntries: number;
+  maxAgeDays: number;
+  maxSizeMB: number;
+}
+
+export interface SharedFile {
+  name: string;
+  type: string;
+  data: Blob;
 }
 
 export interface ShareData {
+  id: string;
   title: string;
   text: string;
   url: string;
-  files: Array<{ name: string; type: string; data: string }>;
+  files: SharedFile[];
   timestamp: number;
+  // Added by the user before relaying
+  tags?: string[];
+  note?: string;
+  // Cleaned links found in the share, set at relay time when URL extraction is on
+  urls?: string[];
+  // Files already sent with chunked uploads, set at relay time in place of `files`
+  uploads?: UploadedFile[];
+  // Sent by "Test destination" in the Config view
+  test?: boolean;
+  // Arrived through a /share link, which any site can open
+  viaLink?: boolean;
+  // Content hash recorded when the share is archived, for duplicate detection
+  fingerprint?: string;
+  // The configured device name, set at relay time
+  device?: string;
+  // What was shared and the structured fields parsed from it, set at relay time
+  kind?: ShareKind;
+  details?: ShareDetails;
+}
+
+export function generateId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export function createDestination(url = ''): Destination {
+  return {
+    id: generateId(),
+    name: '',
+    url,
+    isDefault: true,
+    format: 'json',
+    payloadSchema: 'v1',
+    template: { ...DEFAULT_TEMPLATE },
+    adapter: { type: 'generic', token: '', target: '' },
+    auth: { type: 'none', token: '', username: '', password: '' },
+    headers: [],
+    hmacSecret: '',
+    images: { ...DEFAULT_IMAGE_OPTIONS },
+    uploads: { ...DEFAULT_CHUNKED_UPLOADS },
+    encryption: { ...DEFAULT_ENCRYPTION },
+    responseActions: { ...DEFAULT_RESPONSE_ACTIONS },
+    batching: { ...DEFAULT_BATCH_DELIVERY },
+  };
 }
 
 // Config functions
@@ -38,108 +185,135 @@ export function getConfig(): RelayConfig {
   try {
     const config = localStorage.getItem(CONFIG_KEY);
     if (config) {
-      const parsed = JSON.parse(config);
-      return {
-        relayUrl: parsed.relayUrl || parsed.forwardUrl || '',
-        autoRelay: parsed.autoRelay ?? false,
-      };
+      return normalizeConfig(migrateConfig(JSON.parse(config)));
     }
   } catch (e) {
     console.error('Error reading config:', e);
   }
-  return { relayUrl: '', autoRelay: false };
+  return normalizeConfig({});
 }
 
 export function setConfig(config: RelayConfig): void {
-  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+  localStorage.setItem(CONFIG_KEY, JSON.stringify({ version: CONFIG_VERSION, ...config }));
+  mirrorConfig(config).catch((e) => console.error('Error mirroring config:', e));
 }
 
-// Legacy compatibility
+// The service worker reads the config from this copy to relay without opening the app
+export async function mirrorConfig(config: RelayConfig): Promise<void> {
+  const db = await openShareDB();
+  const store = db.transaction(SETTINGS_STORE, 'readwrite').objectStore(SETTINGS_STORE);
+  await requestToPromise(store.put({ id: 'config', config: { version: CONFIG_VERSION, ...config } }));
+}
+
+export async function getMirroredConfig(): Promise<RelayConfig | null> {
+  try {
+    const db = await openShareDB();
+    const store = db.transaction(SETTINGS_STORE, 'readonly').objectStore(SETTINGS_STORE);
+    const record = await requestToPromise(store.get('config') as IDBRequest<{ config: unknown } | undefined>);
+    return record ? normalizeConfig(migrateConfig(record.config)) : null;
+  } catch (e) {
+    console.error('Error reading mirrored config:', e);
+    return null;
+  }
+}
+
+export function getDestinationLabel(destination: Destination): string {
+  if (destination.name) return destination.name;
+  try {
+    return new URL(destination.url).hostname;
+  } catch {
+    return destination.url || 'Unnamed destination';
+  }
+}
+
+// Legacy compatibility: operate on the first destination
 export function getForwardUrl(): string {
-  return getConfig().relayUrl;
+  return getConfig().destinations[0]?.url || '';
 }
 
 export function setForwardUrl(url: string): void {
   const config = getConfig();
-  config.relayUrl = url;
+  if (config.destinations.length > 0) {
+    config.destinations[0] = { ...config.destinations[0], url };
+  } else {
+    config.destinations.push(createDestination(url));
+  }
   setConfig(config);
 }
 
-// Logs functions
-export function getLogs(): LogEntry[] {
+// Tags used on earlier shares, most recent first, for autocomplete
+export function getKnownTags(): string[] {
   try {
-    const logs = localStorage.getItem(LOGS_KEY);
-    if (logs) {
-      return JSON.parse(logs) as LogEntry[];
+    const tags = localStorage.getItem(TAGS_KEY);
+    if (tags) {
+      return JSON.parse(tags) as string[];
     }
   } catch (e) {
-    console.error('Error reading logs:', e);
+    console.error('Error reading tags:', e);
   }
   return [];
 }
 
-export function addLog(entry: Omit<LogEntry, 'id'>): LogEntry {
-  const logs = getLogs();
-  const newEntry: LogEntry = {
-    ...entry,
-    id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-  };
-  
-  // Add to beginning and cap at MAX_LOGS
-  logs.unshift(newEntry);
-  if (logs.length > MAX_LOGS) {
-    logs.length = MAX_LOGS;
+export function rememberTags(tags: string[]): void {
+  if (tags.length === 0) return;
+  const known = [...tags, ...getKnownTags().filter((tag) => !tags.includes(tag))];
+  localStorage.setItem(TAGS_KEY, JSON.stringify(known.slice(0, MAX_KNOWN_TAGS)));
+}
+
+// Logs saved by older versions, waiting to move to IndexedDB
+export function getLegacyLogs(): Array<Omit<LogEntry, 'size'>> {
+  try {
+    const logs = localStorage.getItem(LEGACY_LOGS_KEY);
+    if (logs) {
+      return JSON.parse(logs) as Array<Omit<LogEntry, 'size'>>;
+    }
+  } catch (e) {
+    console.error('Error reading legacy logs:', e);
   }
-  
-  localStorage.setItem(LOGS_KEY, JSON.stringify(logs));
-  return newEntry;
+  return [];
 }
 
-export function clearLogs(): void {
-  localStorage.removeItem(LOGS_KEY);
+export function clearLegacyLogs(): void {
+  localStorage.removeItem(LEGACY_LOGS_KEY);
 }
 
 // IndexedDB functions for share target data
-function openShareDB(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open('share-target-db', 1);
-    
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
-    
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(SHARE_TARGET_STORE)) {
-        db.createObjectStore(SHARE_TARGET_STORE);
-      }
-    };
-  });
-}
-
-export async function getPendingShareData(): Promise<ShareData | null> {
+
+// Shares stored by older service workers carry base64 strings instead of Blobs
+function normalizeShareData(data: ShareData): ShareData {
+  return {
+    ...data,
+    files: (data.files || []).map((file) => ({
+      ...file,
+      data: typeof file.data === 'string' ? base64ToBlob(file.data, file.type) : file.data,
+    })),
+  };
+}
+
+export async function getInboxShares(): Promise<ShareData[]> {
   try {
     const db = await openShareDB();
-    return new Promise((resolve, reject) => {
-      const tx = db.transaction(SHARE_TARGET_STORE, 'readonly');
-      const store = tx.objectStore(SHARE_TARGET_STORE);
-      const request = store.get('pending');
-      
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve(request.result || null);
-    });
+    const store = db.transaction(INBOX_STORE, 'readonly').objectStore(INBOX_STORE);
+    const shares = await requestToPromise(store.getAll() as IDBRequest<ShareData[]>);
+    return shares.map(normalizeShareData).sort((a, b) => a.timestamp - b.timestamp);
   } catch (e) {
-    console.error('Error getting pending share data:', e);
-    return null;
+    console.error('Error reading share inbox:', e);
+    return [];
   }
 }
 
-export async function clearPendingShareData(): Promise<void> {
+export async function addInboxShare(share: ShareData): Promise<void> {
+  const db = await openShareDB();
+  const store = db.transaction(INBOX_STORE, 'readwrite').objectStore(INBOX_STORE);
+  await requestToPromise(store.put(share));
+}
+
+export async function removeInboxShare(id: string): Promise<void> {
   try {
     const db = await openShareDB();
-    const tx = db.transaction(SHARE_TARGET_STORE, 'readwrite');
-    const store = tx.objectStore(SHARE_TARGET_STORE);
-    store.delete('pending');
+    const store = db.transaction(INBOX_STORE, 'readwrite').objectStore(INBOX_STORE);
+    await requestToPromise(store.delete(id));
   } catch (e) {
-    console.error('Error clearing pending share data:', e);
+    console.error('Error removing share from inbox:', e);
   }
 }
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { renderTemplate, TemplateError, type TemplateType } from './template';
+import type { ShareData } from './storage';
+
+const share: ShareData = {
+  id: 'share-1',
+  title: '',
+  text: 'Say "hi"\nthen leave',
+  url: 'https://example.com/a?b=1&c=2',
+  files: [{ name: 'photo.jpg', type: 'image/jpeg', data: new Blob(['abc']) }],
+  timestamp: 0,
+};
+
+const render = (type: TemplateType, body: string, data: ShareData = share) => renderTemplate({ type, body }, data);
+
+describe('renderTemplate', () => {
+  it('renders missing fields as empty and lets default fill them', () => {
+    expect(render('text', '[{{title}}][{{note}}][{{nothing.here}}]')).toBe('[][][]');
+    expect(render('text', '{{title | default:"Untitled"}}')).toBe('Untitled');
+    expect(render('text', '{{title | default:url}}')).toBe('https://example.com/a?b=1&c=2');
+    expect(render('text', '{{tags | default:"none"}}')).toBe('none');
+  });
+
+  it('reads nested paths and array indexes', () => {
+    expect(render('text', '{{files[0].name}} {{files[0].size}} {{filesCount}} {{files[1].name}}')).toBe(
+      'photo.jpg 3 1 '
+    );
+  });
+
+  it('escapes values as JSON string content', () => {
+    const body = render('json', '{"text": "{{text}}", "url": "{{url}}"}');
+    expect(JSON.parse(body)).toEqual({ text: 'Say "hi"\nthen leave', url: share.url });
+  });
+
+  it('inserts json filter output verbatim', () => {
+    const body = render('json', '{"files": {{files | json}}, "title": {{title | default:null | json}}}');
+    expect(JSON.parse(body)).toEqual({ files: [{ name: 'photo.jpg', type: 'image/jpeg', size: 3 }], title: null });
+  });
+
+  it('rejects templates that render invalid JSON', () => {
+    expect(() => render('json', '{"text": {{text}}}')).toThrow(TemplateError);
+  });
+
+  it('encodes form values and keeps separators inside quoted arguments', () => {
+    const body = render('form', 'link={{url}}\n\nlabel={{title | default:"a|b:c"}}');
+    expect(new URLSearchParams(body).get('link')).toBe(share.url);
+    expect(new URLSearchParams(body).get('label')).toBe('a|b:c');
+    expect(() => render('form', 'no separator')).toThrow('missing "="');
+  });
+
+  it('applies filters in order', () => {
+    expect(render('text', '{{text | truncate:3 | upper}}')).toBe('SAY…');
+    expect(render('text', '{{url | urlencode}}')).toBe(encodeURIComponent(share.url));
+  });
+
+  it('names unknown filters', () => {
+    expect(() => render('text', '{{title | shout}}')).toThrow('Unknown filter "shout" in {{title | shout}}');
+  });
+});
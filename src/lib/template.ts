@@ -0,0 +1,194 @@
+// Template module to render custom request bodies from a share
+//
+// Placeholders look like {{ path | filter:arg | filter }}, e.g.
+// {{title | default:"Untitled"}}, {{files[0].name}}, {{text | truncate:200 | json}}
+
+import type { ShareData } from './storage';
+import { classifyShare } from './classify';
+
+export type TemplateType = 'json' | 'form' | 'text';
+
+export interface PayloadTemplate {
+  type: TemplateType;
+  body: string;
+}
+
+export const TEMPLATE_CONTENT_TYPES: Record<TemplateType, string> = {
+  json: 'application/json',
+  form: 'application/x-www-form-urlencoded',
+  text: 'text/plain; charset=utf-8',
+};
+
+export const DEFAULT_TEMPLATE: PayloadTemplate = {
+  type: 'json',
+  body: '{\n  "content": "{{title | default:text}}\\n{{url}}"\n}',
+};
+
+const PLACEHOLDER_PATTERN = /\{\{([\s\S]+?)\}\}/g;
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+// Values a template can reference
+export function buildTemplateContext(data: ShareData): Record<string, unknown> {
+  const files = (data.files || []).map((file) => ({
+    name: file.name,
+    type: file.type,
+    size: file.data.size,
+  }));
+
+  return {
+    id: data.id,
+    title: data.title || '',
+    text: data.text || '',
+    url: data.url || '',
+    files,
+    filesCount: files.length,
+    tags: data.tags || [],
+    note: data.note || '',
+    urls: data.urls || [],
+    uploads: data.uploads || [],
+    test: data.test || false,
+    kind: data.kind ?? classifyShare(data),
+    location: data.details?.location ?? null,
+    contacts: data.details?.contacts ?? [],
+    events: data.details?.events ?? [],
+    timestamp: new Date(data.timestamp).toISOString(),
+    unixTime: Math.floor(data.timestamp / 1000),
+  };
+}
+
+function resolvePath(context: Record<string, unknown>, path: string): unknown {
+  const segments = path.match(/[^.[\]]+/g) || [];
+  let value: unknown = context;
+  for (const segment of segments) {
+    if (value === null || value === undefined) return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+// Split on a separator, ignoring separators inside quotes
+function splitOutsideQuotes(input: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (const char of input) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.map((part) => part.trim());
+}
+
+// Quoted arguments are literals, bare words are paths into the context
+function resolveArgument(context: Record<string, unknown>, arg: string | undefined): unknown {
+  if (arg === undefined) return undefined;
+  const quoted = arg.match(/^(["'])([\s\S]*)\1$/);
+  if (quoted) return quoted[2];
+  if (/^-?\d+(\.\d+)?$/.test(arg)) return Number(arg);
+  return resolvePath(context, arg);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+const FILTERS: Record<string, (value: unknown, arg: unknown) => unknown> = {
+  default: (value, arg) => (isEmpty(value) ? arg : value),
+  json: (value) => JSON.stringify(value ?? null),
+  truncate: (value, arg) => {
+    const str = stringify(value);
+    const length = typeof arg === 'number' ? arg : 100;
+    return str.length > length ? str.slice(0, length) + '…' : str;
+  },
+  upper: (value) => stringify(value).toUpperCase(),
+  lower: (value) => stringify(value).toLowerCase(),
+  urlencode: (value) => encodeURIComponent(stringify(value)),
+};
+
+export const TEMPLATE_FILTERS = Object.keys(FILTERS);
+
+function evaluate(expression: string, context: Record<string, unknown>): { value: unknown; raw: boolean } {
+  const [path, ...filters] = splitOutsideQuotes(expression, '|');
+  let value = resolvePath(context, path);
+  // Output of the json filter is inserted verbatim, everything else is escaped
+  let raw = false;
+
+  for (const filter of filters) {
+    const [name, ...args] = splitOutsideQuotes(filter, ':');
+    const apply = FILTERS[name];
+    if (!apply) {
+      throw new TemplateError(`Unknown filter "${name}" in {{${expression.trim()}}}`);
+    }
+    value = apply(value, resolveArgument(context, args.join(':') || undefined));
+    raw = name === 'json';
+  }
+
+  return { value, raw };
+}
+
+function renderString(
+  body: string,
+  context: Record<string, unknown>,
+  escape: (value: string) => string
+): string {
+  return body.replace(PLACEHOLDER_PATTERN, (_, expression: string) => {
+    const { value, raw } = evaluate(expression, context);
+    const str = stringify(value);
+    return raw ? str : escape(str);
+  });
+}
+
+export function renderTemplate(template: PayloadTemplate, data: ShareData): string {
+  const context = buildTemplateContext(data);
+
+  switch (template.type) {
+    case 'json': {
+      // Placeholders usually sit inside JSON strings, so escape them as string content
+      const rendered = renderString(template.body, context, (value) => JSON.stringify(value).slice(1, -1));
+      try {
+        JSON.parse(rendered);
+      } catch (e) {
+        throw new TemplateError(`Rendered template is not valid JSON: ${(e as Error).message}`);
+      }
+      return rendered;
+    }
+    case 'form': {
+      // One name=value pair per line
+      const params = new URLSearchParams();
+      for (const line of template.body.split('\n')) {
+        if (!line.trim()) continue;
+        const separator = line.indexOf('=');
+        if (separator === -1) {
+          throw new TemplateError(`Form template line "${line.trim()}" is missing "="`);
+        }
+        const name = line.slice(0, separator).trim();
+        params.append(name, renderString(line.slice(separator + 1), context, (value) => value));
+      }
+      return params.toString();
+    }
+    case 'text':
+    default:
+      return renderString(template.body, context, (value) => value);
+  }
+}
@@ -0,0 +1,278 @@
+// Resumable chunked file uploads using the tus protocol (https://tus.io/protocols/resumable-upload)
+//
+// Each file is created on the destination's upload endpoint and sent in PATCH
+// chunks before the share itself; the share then carries the upload URLs
+// instead of the file contents. The URL of each upload is kept in IndexedDB,
+// so a later attempt (including an outbox retry in the service worker)
+// continues from the offset the server already has, and files that finished
+// are not sent again if the share itself failed. The URLs are cleared once the
+// share has been delivered.
+
+import { openShareDB, requestToPromise, UPLOAD_STORE } from './db';
+import { buildAuthHeaders } from './auth';
+import { bytesToBase64 } from './files';
+import { sendRequest, type HttpExchange, type RelayResponse } from './http';
+import type { Destination, ShareData, SharedFile } from './storage';
+
+const TUS_VERSION = '1.0.0';
+const MB = 1024 * 1024;
+const MAX_CHUNK_RETRIES = 3;
+const CHUNK_RETRY_DELAY = 1000;
+// tus servers expire unfinished uploads, so older resume points are not worth a HEAD request
+const RESUME_MAX_AGE = 24 * 60 * 60 * 1000;
+
+export interface ChunkedUploads {
+  enabled: boolean;
+  // tus creation endpoint, e.g. https://example.com/files
+  endpoint: string;
+  chunkSizeMB: number;
+}
+
+export const DEFAULT_CHUNKED_UPLOADS: ChunkedUploads = {
+  enabled: false,
+  endpoint: '',
+  chunkSizeMB: 5,
+};
+
+// Sent in place of a file's contents once its upload has finished
+export interface UploadedFile {
+  name: string;
+  type: string;
+  size: number;
+  url: string;
+}
+
+export interface UploadProgress {
+  destinationId: string;
+  fileIndex: number;
+  name: string;
+  sent: number;
+  total: number;
+}
+
+export type UploadProgressListener = (progress: UploadProgress) => void;
+
+interface ResumePoint {
+  id: string;
+  url: string;
+  createdAt: number;
+  // Every byte arrived; the share just hasn't been delivered yet
+  finished?: boolean;
+}
+
+export type UploadResult = RelayResponse & { uploads?: UploadedFile[] };
+
+async function getResumePoint(id: string): Promise<ResumePoint | undefined> {
+  try {
+    const db = await openShareDB();
+    const store = db.transaction(UPLOAD_STORE, 'readonly').objectStore(UPLOAD_STORE);
+    return await requestToPromise(store.get(id) as IDBRequest<ResumePoint | undefined>);
+  } catch (e) {
+    console.error('Error reading upload resume point:', e);
+    return undefined;
+  }
+}
+
+async function putResumePoint(point: ResumePoint): Promise<void> {
+  const db = await openShareDB();
+  const store = db.transaction(UPLOAD_STORE, 'readwrite').objectStore(UPLOAD_STORE);
+  await requestToPromise(store.put(point));
+}
+
+// Resume points are keyed `${shareId}:${destinationId}:…`
+function shareUploadKeys(shareId: string, destinationId: string): IDBKeyRange {
+  const prefix = `${shareId}:${destinationId}:`;
+  return IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+}
+
+// Forget a share's uploads once the share that points to them has been delivered
+export async function clearShareUploads(shareId: string, destinationId: string): Promise<void> {
+  try {
+    const db = await openShareDB();
+    const store = db.transaction(UPLOAD_STORE, 'readwrite').objectStore(UPLOAD_STORE);
+    await requestToPromise(store.delete(shareUploadKeys(shareId, destinationId)));
+  } catch (e) {
+    console.error('Error clearing finished uploads:', e);
+  }
+}
+
+async function pruneResumePoints(): Promise<void> {
+  const db = await openShareDB();
+  const store = db.transaction(UPLOAD_STORE, 'readwrite').objectStore(UPLOAD_STORE);
+  const points = await requestToPromise(store.getAll() as IDBRequest<ResumePoint[]>);
+  const cutoff = Date.now() - RESUME_MAX_AGE;
+  await Promise.all(
+    points.filter((point) => point.createdAt < cutoff).map((point) => requestToPromise(store.delete(point.id)))
+  );
+}
+
+function tusHeaders(destination: Destination, extra: Record<string, string> = {}): Record<string, string> {
+  return { ...buildAuthHeaders(destination), 'Tus-Resumable': TUS_VERSION, ...extra };
+}
+
+// Upload-Metadata is a list of "key base64(value)" pairs
+function encodeMetadata(file: SharedFile): string {
+  const encode = (value: string) => bytesToBase64(new TextEncoder().encode(value));
+  return `filename ${encode(file.name)},filetype ${encode(file.type || 'application/octet-stream')}`;
+}
+
+function responseHeader(result: RelayResponse, name: string): string | undefined {
+  const exchanges = result.exchanges || [];
+  return exchanges[exchanges.length - 1]?.responseHeaders?.[name];
+}
+
+function readOffset(result: RelayResponse): number | undefined {
+  const header = responseHeader(result, 'upload-offset');
+  const offset = Number(header);
+  return header !== undefined && Number.isFinite(offset) ? offset : undefined;
+}
+
+// Chunk bodies duplicate files already in the share archive, so the history leaves them out
+function withoutBodies(exchanges: HttpExchange[] = []): HttpExchange[] {
+  return exchanges.map((exchange) => ({ ...exchange, requestBody: null }));
+}
+
+function failed(result: RelayResponse, message: string, exchanges: HttpExchange[]): UploadResult {
+  return { ...result, ok: false, error: `${message}: ${result.error}`, exchanges };
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function fetchOffset(url: string, destination: Destination): Promise<RelayResponse & { offset?: number }> {
+  const result = await sendRequest(url, {
+    method: 'HEAD',
+    headers: tusHeaders(destination),
+    cache: 'no-store',
+  });
+  return { ...result, offset: result.ok ? readOffset(result) : undefined };
+}
+
+async function uploadFile(
+  file: SharedFile,
+  resumeId: string,
+  destination: Destination,
+  exchanges: HttpExchange[],
+  onProgress: (sent: number) => void
+): Promise<UploadResult & { url?: string }> {
+  const { endpoint, chunkSizeMB } = destination.uploads;
+  const chunkSize = Math.max(1, chunkSizeMB) * MB;
+  const resumePoint = await getResumePoint(resumeId);
+  if (resumePoint?.finished) {
+    onProgress(file.data.size);
+    return { ok: true, retryable: false, url: resumePoint.url, exchanges };
+  }
+  let url = resumePoint?.url;
+  let offset = 0;
+
+  if (url) {
+    const head = await fetchOffset(url, destination);
+    exchanges.push(...(head.exchanges || []));
+    if (head.ok && head.offset !== undefined) {
+      offset = head.offset;
+    } else if (head.retryable) {
+      return failed(head, `Resuming upload of ${file.name} failed`, exchanges);
+    } else {
+      // Expired or unknown on the server, start over
+      url = undefined;
+    }
+  }
+
+  if (!url) {
+    const created = await sendRequest(endpoint, {
+      method: 'POST',
+      headers: tusHeaders(destination, {
+        'Upload-Length': String(file.data.size),
+        'Upload-Metadata': encodeMetadata(file),
+      }),
+    });
+    exchanges.push(...(created.exchanges || []));
+    if (!created.ok) return failed(created, `Creating upload for ${file.name} failed`, exchanges);
+
+    const location = responseHeader(created, 'location');
+    if (!location) {
+      return {
+        ok: false,
+        error: 'Upload server sent no Location header (it must be listed in Access-Control-Expose-Headers)',
+        retryable: false,
+        category: 'cors',
+        exchanges,
+      };
+    }
+    url = new URL(location, endpoint).toString();
+    await putResumePoint({ id: resumeId, url, createdAt: Date.now() });
+  }
+
+  onProgress(offset);
+  let retries = 0;
+  let lastChunk: HttpExchange[] = [];
+  while (offset < file.data.size) {
+    const chunk = file.data.slice(offset, offset + chunkSize);
+    const result = await sendRequest(url, {
+      method: 'PATCH',
+      headers: tusHeaders(destination, {
+        'Upload-Offset': String(offset),
+        'Content-Type': 'application/offset+octet-stream',
+      }),
+      body: chunk,
+    });
+    lastChunk = withoutBodies(result.exchanges);
+
+    if (result.ok) {
+      offset = readOffset(result) ?? offset + chunk.size;
+      retries = 0;
+      onProgress(offset);
+      continue;
+    }
+
+    exchanges.push(...lastChunk);
+    // 409 means our offset is stale; anything else non-retryable won't improve
+    if ((!result.retryable && result.status !== 409) || retries >= MAX_CHUNK_RETRIES) {
+      return failed(result, `Uploading ${file.name} failed at ${offset} of ${file.data.size} bytes`, exchanges);
+    }
+    await delay(CHUNK_RETRY_DELAY * 2 ** retries);
+    retries++;
+
+    // Ask the server how much of the chunk arrived before sending again
+    const head = await fetchOffset(url, destination);
+    if (head.offset !== undefined) offset = head.offset;
+  }
+  exchanges.push(...lastChunk);
+
+  // Kept until the share is delivered, so a failed delivery doesn't upload the file again
+  await putResumePoint({ id: resumeId, url, createdAt: Date.now(), finished: true });
+  return { ok: true, retryable: false, url, exchanges };
+}
+
+// Upload every file of a share in order; the result lists where each file ended up
+export async function uploadShareFiles(
+  data: ShareData,
+  destination: Destination,
+  onProgress?: UploadProgressListener
+): Promise<UploadResult> {
+  if (!destination.uploads.endpoint) {
+    return { ok: false, error: 'Chunked uploads are on but no upload URL is set', retryable: false };
+  }
+
+  try {
+    await pruneResumePoints();
+  } catch (e) {
+    console.error('Error pruning upload resume points:', e);
+  }
+
+  const exchanges: HttpExchange[] = [];
+  const uploads: UploadedFile[] = [];
+  for (const [fileIndex, file] of data.files.entries()) {
+    // Size is part of the key so a re-encoded image never resumes an upload of other bytes
+    const resumeId = `${data.id}:${destination.id}:${fileIndex}:${file.data.size}`;
+    const report = (sent: number) =>
+      onProgress?.({ destinationId: destination.id, fileIndex, name: file.name, sent, total: file.data.size });
+
+    const result = await uploadFile(file, resumeId, destination, exchanges, report);
+    if (!result.ok) return { ...result, exchanges };
+    uploads.push({ name: file.name, type: file.type, size: file.data.size, url: result.url! });
+  }
+
+  return { ok: true, retryable: false, uploads, exchanges };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { cleanUrl, DEFAULT_STRIP_PARAMS, extractShareUrls } from './urls';
+
+const clean = (url: string) => cleanUrl(url, DEFAULT_STRIP_PARAMS);
+
+describe('cleanUrl', () => {
+  it('strips Twitter and X tracking parameters', () => {
+    expect(clean('https://x.com/user/status/1?s=20&t=abc')).toBe('https://x.com/user/status/1');
+    expect(clean('https://mobile.twitter.com/user/status/1?s=20')).toBe('https://twitter.com/user/status/1');
+  });
+
+  it('keeps parameters that only track on other sites', () => {
+    expect(clean('https://www.youtube.com/watch?v=abc&t=42')).toBe('https://www.youtube.com/watch?v=abc&t=42');
+  });
+
+  it('strips the default tracking parameters', () => {
+    expect(clean('https://example.com/a?id=1&utm_source=x&fbclid=y')).toBe('https://example.com/a?id=1');
+  });
+
+  it('leaves hosts, paths and parameters named amp alone on other sites', () => {
+    expect(clean('https://amp.dev/documentation/')).toBe('https://amp.dev/documentation/');
+    expect(clean('https://github.com/ampproject/amp')).toBe('https://github.com/ampproject/amp');
+    expect(clean('https://example.com/search?amp=1')).toBe('https://example.com/search?amp=1');
+  });
+
+  it('unwraps Google AMP viewer and AMP cache links', () => {
+    expect(clean('https://www.google.com/amp/s/www.example.com/news/story/amp')).toBe(
+      'https://www.example.com/news/story'
+    );
+    expect(clean('https://www-example-com.cdn.ampproject.org/c/s/www.example.com/story?amp=1')).toBe(
+      'https://www.example.com/story'
+    );
+  });
+
+  it('rewrites known AMP subdomains', () => {
+    expect(clean('https://amp.theguardian.com/world/2024/jan/01/story')).toBe(
+      'https://www.theguardian.com/world/2024/jan/01/story'
+    );
+  });
+
+  it('rewrites mobile hosts and short links', () => {
+    expect(clean('https://en.m.wikipedia.org/wiki/Solid')).toBe('https://en.wikipedia.org/wiki/Solid');
+    expect(clean('https://youtu.be/abc?si=x')).toBe('https://www.youtube.com/watch?v=abc');
+  });
+});
+
+describe('extractShareUrls', () => {
+  it('finds links in text without trailing punctuation', () => {
+    const share = {
+      id: '1',
+      title: '',
+      text: 'Check this out https://x.com/user/status/1?s=20&t=abc.',
+      url: '',
+      files: [],
+      timestamp: 0,
+    };
+    expect(extractShareUrls(share, DEFAULT_STRIP_PARAMS)).toEqual([
+      { original: 'https://x.com/user/status/1?s=20&t=abc', cleaned: 'https://x.com/user/status/1' },
+    ]);
+  });
+});
@@ -0,0 +1,178 @@
+// URL extraction and cleanup for the `urls` payload field
+//
+// Finds every link in a share, strips tracking parameters and rewrites
+// mobile and AMP addresses to the page they stand for.
+
+import type { ShareData } from './storage';
+
+const URL_PATTERN = /https?:\/\/[^\s<>"']+/gi;
+
+// Names ending in * match as a prefix
+export const DEFAULT_STRIP_PARAMS = [
+  'utm_*',
+  'fbclid',
+  'gclid',
+  'dclid',
+  'msclkid',
+  'mc_cid',
+  'mc_eid',
+  'si',
+  'igshid',
+  'igsh',
+  '_ga',
+  'ref_src',
+  'ref_url',
+];
+
+export interface UrlCleaning {
+  // Add the cleaned `urls` array to relayed payloads
+  extractUrls: boolean;
+  stripParams: string[];
+}
+
+export const DEFAULT_URL_CLEANING: UrlCleaning = {
+  extractUrls: false,
+  stripParams: DEFAULT_STRIP_PARAMS,
+};
+
+export interface ExtractedUrl {
+  original: string;
+  cleaned: string;
+}
+
+const MOBILE_HOSTS: Record<string, string> = {
+  'm.youtube.com': 'www.youtube.com',
+  'mobile.twitter.com': 'twitter.com',
+  'm.twitter.com': 'twitter.com',
+  'mobile.x.com': 'x.com',
+  'm.facebook.com': 'www.facebook.com',
+  'mobile.facebook.com': 'www.facebook.com',
+  'm.reddit.com': 'www.reddit.com',
+  'm.imdb.com': 'www.imdb.com',
+  'm.soundcloud.com': 'soundcloud.com',
+  'm.twitch.tv': 'www.twitch.tv',
+};
+
+// Publishers that serve the AMP version of their pages from a subdomain
+const AMP_HOSTS: Record<string, string> = {
+  'amp.theguardian.com': 'www.theguardian.com',
+  'amp.cnn.com': 'edition.cnn.com',
+  'amp.dw.com': 'www.dw.com',
+  'amp.reddit.com': 'www.reddit.com',
+};
+
+// Tracking parameters that only mean tracking on one site; `t` is a timestamp on YouTube
+const HOST_TRACKING_PARAMS: Record<string, string[]> = {
+  'twitter.com': ['s', 't'],
+  'x.com': ['s', 't'],
+};
+
+// en.m.wikipedia.org and friends
+const WIKIMEDIA_MOBILE_HOST = /^([\w-]+)\.m\.(wikipedia|wiktionary|wikiquote|wikibooks|wikimedia)\.org$/;
+
+// Punctuation that ends a sentence rather than the URL
+const TRAILING_PUNCTUATION = /[.,;:!?'"]+$/;
+
+function trimUrlCandidate(candidate: string): string {
+  let url = candidate.replace(TRAILING_PUNCTUATION, '');
+  // Drop a closing bracket that wraps the URL, keep one that belongs to it (Wikipedia titles)
+  while (/[)\]]$/.test(url)) {
+    const [open, close] = url.endsWith(')') ? ['(', ')'] : ['[', ']'];
+    if (url.split(open).length >= url.split(close).length) break;
+    url = url.slice(0, -1).replace(TRAILING_PUNCTUATION, '');
+  }
+  return url;
+}
+
+// Every URL in the share, explicit url field first, then text and title
+export function findShareUrls(data: ShareData): URL[] {
+  const candidates = [data.url, ...(`${data.text} ${data.title}`.match(URL_PATTERN) || [])];
+  const urls: URL[] = [];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      urls.push(new URL(trimUrlCandidate(candidate.trim())));
+    } catch {
+      // Not a parseable URL, skip it
+    }
+  }
+  return urls;
+}
+
+function matchesParam(name: string, patterns: string[]): boolean {
+  const lower = name.toLowerCase();
+  return patterns.some((pattern) => {
+    const normalized = pattern.trim().toLowerCase();
+    if (!normalized) return false;
+    return normalized.endsWith('*') ? lower.startsWith(normalized.slice(0, -1)) : lower === normalized;
+  });
+}
+
+// AMP caches and viewers wrap the real page's host and path in their own URL; null for other URLs
+function unwrapAmp(url: URL): URL | null {
+  const viewer = url.hostname.match(/^(www\.)?google\.[a-z.]+$/) && url.pathname.match(/^\/amp\/(s\/)?(.+)$/);
+  const cache = url.hostname.endsWith('.cdn.ampproject.org') && url.pathname.match(/^\/[cvi]\/(s\/)?(.+)$/);
+  const match = viewer || cache;
+  if (!match) return null;
+  try {
+    return new URL(`${match[1] ? 'https' : 'http'}://${match[2]}${url.search}${url.hash}`);
+  } catch {
+    return null;
+  }
+}
+
+function canonicalizeHost(url: URL): void {
+  const host = url.hostname;
+  const wikimedia = host.match(WIKIMEDIA_MOBILE_HOST);
+  if (MOBILE_HOSTS[host]) {
+    url.hostname = MOBILE_HOSTS[host];
+  } else if (wikimedia) {
+    url.hostname = `${wikimedia[1]}.${wikimedia[2]}.org`;
+  } else if (AMP_HOSTS[host]) {
+    url.hostname = AMP_HOSTS[host];
+  }
+
+  // Short links whose target is known from the URL alone
+  if (url.hostname === 'youtu.be' && url.pathname.length > 1) {
+    const id = url.pathname.slice(1);
+    url.hostname = 'www.youtube.com';
+    url.pathname = '/watch';
+    url.searchParams.set('v', id);
+  }
+}
+
+export function cleanUrl(input: URL | string, stripParams: string[]): string {
+  const parsed = new URL(input.toString());
+  const unwrapped = unwrapAmp(parsed);
+  const url = unwrapped || parsed;
+  const isAmp = Boolean(unwrapped || AMP_HOSTS[url.hostname]);
+  canonicalizeHost(url);
+
+  // Only a page known to be the AMP version loses a trailing /amp segment and the amp parameter;
+  // elsewhere both can be part of the address
+  if (isAmp) {
+    url.pathname = url.pathname.replace(/\/amp\/?$/, '') || '/';
+    url.searchParams.delete('amp');
+  }
+  const params = [...stripParams, ...(HOST_TRACKING_PARAMS[url.hostname] || [])];
+  for (const name of [...url.searchParams.keys()]) {
+    if (matchesParam(name, params)) {
+      url.searchParams.delete(name);
+    }
+  }
+
+  // Drop an empty query string such as a trailing "?"
+  return url.toString().replace(/\?(?=#|$)/, '');
+}
+
+export function extractShareUrls(data: ShareData, stripParams: string[]): ExtractedUrl[] {
+  const seen = new Set<string>();
+  const extracted: ExtractedUrl[] = [];
+  for (const url of findShareUrls(data)) {
+    const cleaned = cleanUrl(url, stripParams);
+    if (seen.has(cleaned)) continue;
+    seen.add(cleaned);
+    extracted.push({ original: url.toString(), cleaned });
+  }
+  return extracted;
+}
@@ -1,26 +1,131 @@
 /// <reference lib="webworker" />
 import { precacheAndRoute } from 'workbox-precaching';
+import { openShareDB, INBOX_STORE } from './lib/db';
+import {
+  drainOutbox,
+  retryOutboxItem,
+  DRAIN_OUTBOX_MESSAGE,
+  OUTBOX_SYNC_TAG,
+  OUTBOX_UPDATED_MESSAGE,
+} from './lib/outbox';
+import {
+  getInboxShares,
+  getMirroredConfig,
+  removeInboxShare,
+  type RelayConfig,
+  type ShareData,
+  type SharedFile,
+} from './lib/storage';
+import {
+  findRecentDuplicate,
+  forwardShare,
+  forwardToDestination,
+  prepareShare,
+  type ForwardResult,
+} from './lib/forwarder';
+import { resolveDestinations } from './lib/routing';
+import { getArchivedShare, getLogEntry } from './lib/history';
+import { flushBatch, flushDueBatches, getBatchItems } from './lib/batches';
+import { decideAutoRelay, relaysAutomatically, type PolicyDecision } from './lib/policies';
+import {
+  buildRelayNotification,
+  notificationsGranted,
+  NOTIFICATION_CLICK_MESSAGE,
+  NOTIFICATION_PARAM,
+  type NotificationAction,
+  type RelayNotificationData,
+} from './lib/notifications';
+import { createLinkShare, readShareLink, SHARE_PATH } from './lib/shareLinks';
 
 declare let self: ServiceWorkerGlobalScope;
 
+// Background Sync events are not in the TypeScript webworker lib yet
+interface SyncEvent extends ExtendableEvent {
+  readonly tag: string;
+  readonly lastChance: boolean;
+}
+
+declare global {
+  interface ServiceWorkerGlobalScopeEventMap {
+    sync: SyncEvent;
+    periodicsync: SyncEvent;
+  }
+}
+
 // Precache all assets generated by the build process
 precacheAndRoute(self.__WB_MANIFEST);
 
-const SHARE_TARGET_STORE = 'share-target-store';
-
 // Handle share target POST requests
 self.addEventListener('fetch', (event) => {
   const url = new URL(event.request.url);
   
   // Intercept POST requests to /share-target
   if (url.pathname === '/share-target' && event.request.method === 'POST') {
-    event.respondWith(handleShareTarget(event.request));
+    event.respondWith(handleShareTarget(event));
+  }
+
+  // Desktop entry point, also used by web+relay: links and the bookmarklet
+  if (url.pathname === SHARE_PATH && event.request.method === 'GET') {
+    event.respondWith(handleShareLink(event, url));
+  }
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const data = event.notification.data as RelayNotificationData;
+  const action = (event.action || 'open') as NotificationAction;
+  if (action === 'retry') {
+    event.waitUntil(retryRelays(data));
+  } else if (action === 'openLink' && data.openUrl) {
+    event.waitUntil(self.clients.openWindow(data.openUrl));
+  } else {
+    event.waitUntil(openApp(action === 'copy' ? 'copy' : 'open', data.responseLogId));
+  }
+});
+
+// Retry queued relays when connectivity returns
+self.addEventListener('sync', (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(drainOutboxAndNotify(true));
+  }
+});
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(drainOutboxAndNotify(false));
+  }
+});
+
+// Fallback for browsers without Background Sync: the app asks while it is open
+self.addEventListener('message', (event) => {
+  if (event.data?.type === DRAIN_OUTBOX_MESSAGE) {
+    event.waitUntil(drainOutboxAndNotify(false));
   }
 });
 
-async function handleShareTarget(request: Request): Promise<Response> {
+async function drainOutboxAndNotify(fromSync: boolean): Promise<void> {
+  // A sync event fires because we're back online, so skip the backoff delay
+  const remaining = await drainOutbox({ force: fromSync });
+  const config = await getMirroredConfig();
+  if (config) await flushDueBatches(config);
+  await notifyClients();
+
+  // Rejecting makes the browser reschedule the sync with its own backoff
+  if (fromSync && remaining > 0) {
+    throw new Error(`${remaining} relays still queued`);
+  }
+}
+
+async function notifyClients(): Promise<void> {
+  const clients = await self.clients.matchAll({ type: 'window' });
+  for (const client of clients) {
+    client.postMessage({ type: OUTBOX_UPDATED_MESSAGE });
+  }
+}
+
+async function handleShareTarget(event: FetchEvent): Promise<Response> {
   try {
-    const formData = await request.formData();
+    const formData = await event.request.formData();
     
     // Extract shared data
     const title = (formData.get('title') as string) || '';
@@ -28,67 +133,172 @@ async function handleShareTarget(request: Request): Promise<Response> {
     const url = (formData.get('url') as string) || '';
     const files = formData.getAll('files');
     
-    // Process files to serializable format
-    const processedFiles: Array<{ name: string; type: string; data: string }> = [];
+    // Keep files as Blobs; IndexedDB stores them without a base64 copy
+    const processedFiles: SharedFile[] = [];
     for (const file of files) {
       if (file instanceof File && file.size > 0) {
-        const arrayBuffer = await file.arrayBuffer();
-        const base64 = arrayBufferToBase64(arrayBuffer);
         processedFiles.push({
           name: file.name,
           type: file.type,
-          data: base64,
+          data: file,
         });
       }
     }
     
-    // Store the shared data in IndexedDB for the app to retrieve
-    const shareData = {
+    return await receiveShare(event, {
+      id: crypto.randomUUID(),
       title,
       text,
       url,
       files: processedFiles,
       timestamp: Date.now(),
-    };
-    
-    await storeShareData(shareData);
-    
-    // Redirect to the app with a flag to indicate pending share data
-    return Response.redirect('/?share-target=pending', 303);
+    });
   } catch (error) {
     console.error('Error handling share target:', error);
     return Response.redirect('/?share-target=error', 303);
   }
 }
 
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  let binary = '';
-  const bytes = new Uint8Array(buffer);
-  for (let i = 0; i < bytes.byteLength; i++) {
-    binary += String.fromCharCode(bytes[i]);
+async function handleShareLink(event: FetchEvent, url: URL): Promise<Response> {
+  const fields = readShareLink(url.searchParams);
+  if (!fields) return Response.redirect('/', 303);
+  try {
+    return await receiveShare(event, createLinkShare(fields));
+  } catch (error) {
+    console.error('Error handling share link:', error);
+    return Response.redirect('/?share-target=error', 303);
   }
-  return btoa(binary);
 }
 
-async function storeShareData(data: unknown): Promise<void> {
-  const db = await openShareDB();
-  const tx = db.transaction(SHARE_TARGET_STORE, 'readwrite');
-  const store = tx.objectStore(SHARE_TARGET_STORE);
-  store.put(data, 'pending');
+// Every entry point ends here: into the inbox, then relayed in the background or shown in the app
+async function receiveShare(event: FetchEvent, shareData: ShareData): Promise<Response> {
+  const config = await getMirroredConfig();
+  const decision = config && decideAutoRelay(shareData, config.autoRelay);
+  // Dropped shares are never stored; the page just returns to the app they came from
+  if (decision?.action === 'drop') return closingResponse('Dropped by an auto-relay policy.');
+
+  await storeShareData(shareData);
+
+  // Nothing to confirm and the result can be shown as a notification, so skip the app
+  if (config && decision && (await canRelayHeadless(shareData, config, decision))) {
+    event.waitUntil(relayHeadless(shareData, config));
+    return headlessResponse();
+  }
+
+  // Redirect to the app, pointing at the share that just arrived
+  return Response.redirect(`/?share-target=pending&id=${encodeURIComponent(shareData.id)}`, 303);
 }
 
-function openShareDB(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open('share-target-db', 1);
-    
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
-    
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(SHARE_TARGET_STORE)) {
-        db.createObjectStore(SHARE_TARGET_STORE);
+// A share that repeats a recent one opens the app, where the user is asked about it
+async function canRelayHeadless(share: ShareData, config: RelayConfig, decision: PolicyDecision): Promise<boolean> {
+  return (
+    relaysAutomatically(share, decision) &&
+    notificationsGranted() &&
+    resolveDestinations(share, config).length > 0 &&
+    !(await findRecentDuplicate(share, await getInboxShares(), config))
+  );
+}
+
+function headlessResponse(): Response {
+  return closingResponse('Relaying… the result will show as a notification.');
+}
+
+// Shown for a moment in place of the app, then returns to the app the share came from
+function closingResponse(message: string): Response {
+  const html = `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>WebShare Relay</title>
+    <style>
+      body { margin: 0; height: 100vh; display: grid; place-items: center; background: #1f2937; color: #9ca3af; font-family: system-ui, sans-serif; }
+    </style>
+  </head>
+  <body>
+    <p>${message}</p>
+    <script>history.length > 1 ? history.back() : window.close();</script>
+  </body>
+</html>`;
+  return new Response(html, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+// The share stays in the inbox until the relay is done, so the app picks it up if this is cut short
+async function relayHeadless(share: ShareData, config: RelayConfig): Promise<void> {
+  const results = await forwardShare(share, config);
+  await removeInboxShare(share.id);
+  await notifyClients();
+  await showRelayNotification(share.id, results);
+}
+
+async function showRelayNotification(shareId: string, results: ForwardResult[]): Promise<void> {
+  const { title, options } = buildRelayNotification(shareId, results);
+  await self.registration.showNotification(title, options);
+}
+
+// Outbox and batch retries only update the history, so the outcome is read back from there
+async function queuedRetryResult(
+  failed: RelayNotificationData['failed'][number],
+  config: RelayConfig
+): Promise<ForwardResult> {
+  const destination = config.destinations.find((item) => item.id === failed.destinationId);
+  const inBatch = (await getBatchItems()).some((item) => item.logId === failed.logId);
+  if (destination && inBatch) {
+    await flushBatch(destination, { force: true });
+  } else {
+    await retryOutboxItem(failed.logId);
+  }
+  const entry = await getLogEntry(failed.logId);
+  return {
+    destinationId: failed.destinationId,
+    destinationName: entry?.destinationName || failed.destinationId,
+    logId: failed.logId,
+    success: entry?.status === 'success',
+    queued: entry?.status === 'queued',
+    response: entry?.response,
+    error: entry?.error,
+  };
+}
+
+async function retryRelays(data: RelayNotificationData): Promise<void> {
+  const [config, share] = await Promise.all([getMirroredConfig(), getArchivedShare(data.shareId)]);
+  if (!config || !share) return openApp('open');
+
+  const results = await Promise.all(
+    data.failed.map(async (failed) => {
+      if (failed.queued) return queuedRetryResult(failed, config);
+      const destination = config.destinations.find((item) => item.id === failed.destinationId);
+      if (!destination) {
+        return {
+          ...failed,
+          destinationName: failed.destinationId,
+          success: false,
+          error: 'Destination no longer exists',
+        };
       }
-    };
-  });
+      return forwardToDestination(await prepareShare(share, config), destination);
+    })
+  );
+  await notifyClients();
+  await showRelayNotification(data.shareId, results);
+}
+
+// Focus the app if it is open, otherwise open it; the app shows the history
+async function openApp(action: 'open' | 'copy', logId?: string): Promise<void> {
+  const [client] = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  if (client) {
+    await client.focus();
+    client.postMessage({ type: NOTIFICATION_CLICK_MESSAGE, action, logId });
+    return;
+  }
+  const params = new URLSearchParams({ [NOTIFICATION_PARAM]: action, ...(logId ? { log: logId } : {}) });
+  await self.clients.openWindow(`/?${params}`);
+}
+
+// Every share gets its own inbox entry so quick successive shares all survive
+async function storeShareData(data: ShareData): Promise<void> {
+  const db = await openShareDB();
+  const tx = db.transaction(INBOX_STORE, 'readwrite');
+  const store = tx.objectStore(INBOX_STORE);
+  store.put(data);
 }
@@ -2,8 +2,12 @@ import { defineConfig } from 'vite';
 import solidPlugin from 'vite-plugin-solid';
 import devtools from 'solid-devtools/vite';
 import { VitePWA } from 'vite-plugin-pwa';
+import { version } from './package.json';
 
 export default defineConfig({
+  define: {
+    __APP_VERSION__: JSON.stringify(version),
+  },
   plugins: [
     devtools(),
     solidPlugin(),
@@ -59,6 +63,12 @@ export default defineConfig({
             ],
           },
         },
+        protocol_handlers: [
+          {
+            protocol: 'web+relay',
+            url: '/share?link=%s',
+          },
+        ],
       },
       injectManifest: {
         globPatterns: ['**/*.{js,css,html,ico,png,svg}'],
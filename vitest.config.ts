@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+import { version } from './package.json';
+
+// The tests cover library modules, so the app's Solid and PWA plugins stay out of them
+export default defineConfig({
+  define: {
+    __APP_VERSION__: JSON.stringify(version),
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
+});